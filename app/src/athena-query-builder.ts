@@ -0,0 +1,170 @@
+import { QueryConfigError } from "./errors";
+import { AthenaSchemaMapping, TrainingDataFilters } from "./types";
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const DEFAULT_SCHEMA_MAPPING: AthenaSchemaMapping = {
+  articleId: "article_id",
+  title: "title",
+  content: "content",
+  publication: "publication_id",
+  publishedDate: "published_date",
+  metadata: "metadata",
+  metadataColumns: {},
+  section: "section",
+  author: "author",
+  contentType: "content_type",
+};
+
+/**
+ * A selected column and what it holds: a TrainingExample field, the JSON
+ * metadata column, or a single metadata key
+ */
+export type QueryColumn = { column: string } & (
+  | {
+      field:
+        | "articleId"
+        | "title"
+        | "content"
+        | "publication"
+        | "publishedDate";
+    }
+  | { field: "metadata" }
+  | { field: "metadataKey"; key: string }
+);
+
+export interface TrainingDataQueryOptions {
+  database: string;
+  table: string;
+  schema: AthenaSchemaMapping;
+  filters: TrainingDataFilters;
+}
+
+/**
+ * SQL with a `?` placeholder for every value, and the values to pass as
+ * Athena `ExecutionParameters` in placeholder order
+ */
+export interface TrainingDataQuery {
+  sql: string;
+  parameters: string[];
+  /**
+   * The selected columns, in select order
+   */
+  columns: QueryColumn[];
+}
+
+/**
+ * Table and column names cannot be parameters, so they are restricted to
+ * plain identifiers and quoted
+ */
+function quoteIdentifier(name: string): string {
+  if (!IDENTIFIER_PATTERN.test(name)) {
+    throw new QueryConfigError(
+      `Invalid Athena identifier "${name}", expected letters, digits and underscores`
+    );
+  }
+  return `"${name}"`;
+}
+
+/**
+ * Athena substitutes each execution parameter as a SQL literal, so string
+ * values are passed quoted with embedded quotes doubled
+ */
+function toStringParameter(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function toDateParameter(value: string): string {
+  if (!DATE_PATTERN.test(value) || isNaN(Date.parse(value))) {
+    throw new QueryConfigError(`Invalid date "${value}", expected YYYY-MM-DD`);
+  }
+  return toStringParameter(value);
+}
+
+/**
+ * Start of a look-back period, as YYYY-MM-DD
+ */
+export function lookBackStartDate(
+  lookBackDays: number,
+  now = new Date()
+): string {
+  const date = new Date(now);
+  date.setUTCDate(date.getUTCDate() - lookBackDays);
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * Query for the articles matching the filters, newest first. Every filter
+ * value is a parameter, never part of the SQL text.
+ */
+export function buildTrainingDataQuery(
+  options: TrainingDataQueryOptions
+): TrainingDataQuery {
+  const { schema, filters } = options;
+  const parameters: string[] = [];
+  const columns: QueryColumn[] = [
+    { field: "articleId", column: schema.articleId },
+    { field: "title", column: schema.title },
+    { field: "content", column: schema.content },
+    { field: "publication", column: schema.publication },
+    { field: "publishedDate", column: schema.publishedDate },
+  ];
+
+  if (schema.metadata) {
+    columns.push({ field: "metadata", column: schema.metadata });
+  }
+  for (const [key, column] of Object.entries(schema.metadataColumns)) {
+    columns.push({ field: "metadataKey", key, column });
+  }
+
+  const title = quoteIdentifier(schema.title);
+  const content = quoteIdentifier(schema.content);
+  const publishedDate = quoteIdentifier(schema.publishedDate);
+  const conditions = [
+    `${content} IS NOT NULL`,
+    `${title} IS NOT NULL`,
+    `${content} <> ''`,
+    `${title} <> ''`,
+  ];
+
+  if (filters.startDate) {
+    conditions.push(`${publishedDate} >= CAST(? AS DATE)`);
+    parameters.push(toDateParameter(filters.startDate));
+  }
+  if (filters.endDate) {
+    // Before the next day, so the end date is included for timestamps too
+    conditions.push(`${publishedDate} < date_add('day', 1, CAST(? AS DATE))`);
+    parameters.push(toDateParameter(filters.endDate));
+  }
+
+  const inList = (column: string, values: string[], negate = false) => {
+    if (values.length === 0) {
+      return;
+    }
+    const placeholders = values.map(() => "?").join(", ");
+    conditions.push(
+      `${quoteIdentifier(column)} ${negate ? "NOT IN" : "IN"} (${placeholders})`
+    );
+    parameters.push(...values.map(toStringParameter));
+  };
+
+  inList(schema.publication, filters.publicationIds);
+  inList(schema.section, filters.sections);
+  inList(schema.author, filters.authors);
+  inList(schema.contentType, filters.contentTypes);
+  inList(schema.articleId, filters.excludeArticleIds, true);
+
+  const sql = [
+    `SELECT ${columns
+      .map((column) => quoteIdentifier(column.column))
+      .join(", ")}`,
+    `FROM ${quoteIdentifier(options.database)}.${quoteIdentifier(
+      options.table
+    )}`,
+    `WHERE ${conditions.join("\n  AND ")}`,
+    `ORDER BY ${publishedDate} DESC`,
+  ].join("\n");
+
+  return { sql, parameters, columns };
+}
@@ -0,0 +1,327 @@
+import {
+  buildTeacherRequestBody,
+  parseTeacherResponseBody,
+} from "./bedrock-teacher-client";
+import { sha256Hex } from "./hash-utils";
+import { batchInferenceJobName } from "./bedrock-names";
+import {
+  BatchInferenceService,
+  ObjectStore,
+  TeacherInferenceParams,
+} from "./types";
+
+const TERMINAL_STATUSES = new Set([
+  "Completed",
+  "PartiallyCompleted",
+  "Failed",
+  "Stopped",
+  "Expired",
+]);
+const SUCCESS_STATUSES = new Set(["Completed", "PartiallyCompleted"]);
+
+/**
+ * Bedrock batch inference quotas per job: the most records and input bytes
+ * a job takes before the input has to be split across several jobs
+ */
+const BATCH_MAX_RECORDS = 50000;
+const BATCH_MAX_INPUT_BYTES = 1024 ** 3;
+
+export interface BatchRequest {
+  recordId: string;
+  prompt: string;
+}
+
+/**
+ * Completion or error for one batch record
+ */
+export interface BatchResult {
+  completion?: string;
+  error?: string;
+}
+
+/**
+ * Record IDs must be 11 alphanumeric characters, so article IDs are hashed
+ */
+export function batchRecordId(articleId: string): string {
+  return sha256Hex(articleId).slice(0, 11);
+}
+
+/**
+ * Build the JSONL lines of a Bedrock batch inference input file
+ */
+export function buildBatchRecords(
+  requests: BatchRequest[],
+  inferenceParams: TeacherInferenceParams
+): string[] {
+  return requests.map((request) =>
+    JSON.stringify({
+      recordId: request.recordId,
+      modelInput: buildTeacherRequestBody(request.prompt, inferenceParams),
+    })
+  );
+}
+
+/**
+ * Build the JSONL body of a Bedrock batch inference input file
+ */
+export function buildBatchInput(
+  requests: BatchRequest[],
+  inferenceParams: TeacherInferenceParams
+): string {
+  return buildBatchRecords(requests, inferenceParams).join("\n");
+}
+
+/**
+ * Split input lines into as few jobs as the record and size limits allow,
+ * spreading the records evenly so no job falls below the minimum
+ */
+export function partitionBatchRecords(
+  lines: string[],
+  maxRecords = BATCH_MAX_RECORDS,
+  maxBytes = BATCH_MAX_INPUT_BYTES
+): string[][] {
+  const sizes = lines.map((line) => Buffer.byteLength(line) + 1);
+  const totalBytes = sizes.reduce((sum, size) => sum + size, 0);
+  const jobs = Math.max(
+    1,
+    Math.ceil(lines.length / maxRecords),
+    Math.ceil(totalBytes / maxBytes)
+  );
+  const perJob = Math.ceil(lines.length / jobs);
+
+  const parts: string[][] = [];
+  let current: string[] = [];
+  let bytes = 0;
+  lines.forEach((line, index) => {
+    if (
+      current.length > 0 &&
+      (current.length >= perJob || bytes + sizes[index] > maxBytes)
+    ) {
+      parts.push(current);
+      current = [];
+      bytes = 0;
+    }
+    current.push(line);
+    bytes += sizes[index];
+  });
+  if (current.length > 0) {
+    parts.push(current);
+  }
+
+  return parts;
+}
+
+/**
+ * Parse a batch inference output file into results keyed by record ID.
+ * Records that failed carry an `error` object instead of `modelOutput`.
+ */
+export function parseBatchOutput(body: string): Map<string, BatchResult> {
+  const results = new Map<string, BatchResult>();
+
+  for (const line of body.split("\n")) {
+    if (line.trim() === "") {
+      continue;
+    }
+
+    const record = JSON.parse(line);
+    const recordId = String(record.recordId);
+
+    if (record.error) {
+      results.set(recordId, {
+        error:
+          record.error.errorMessage ||
+          record.error.errorCode ||
+          JSON.stringify(record.error),
+      });
+    } else {
+      results.set(recordId, {
+        completion: parseTeacherResponseBody(record.modelOutput),
+      });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Match batch results back to the items they were built from. Items missing
+ * from the output get an error result rather than being dropped silently.
+ */
+export function joinBatchResults<T>(
+  items: T[],
+  recordIdOf: (item: T) => string,
+  results: Map<string, BatchResult>
+): Array<{ item: T; result: BatchResult }> {
+  return items.map((item) => ({
+    item,
+    result: results.get(recordIdOf(item)) || {
+      error: "No batch inference output for record",
+    },
+  }));
+}
+
+interface BatchJobRecord {
+  jobArn: string;
+  attempt: number;
+  outputPrefix: string;
+  records: number;
+}
+
+export interface BatchDistillationConfig {
+  teacherModelId: string;
+  teacherInferenceParams: TeacherInferenceParams;
+  trainingRunId: string;
+  pollIntervalMs?: number;
+}
+
+/**
+ * Runs the distillation batch inference jobs of a training run: splits the
+ * input across jobs within Bedrock's limits, writes each input file, submits
+ * each job (or resumes polling the job a previous attempt submitted) and
+ * reads the output records back
+ */
+export class BatchDistillationRunner {
+  private objectStore: ObjectStore;
+  private batchInference: BatchInferenceService;
+  private config: BatchDistillationConfig;
+  private prefix: string;
+
+  constructor(
+    objectStore: ObjectStore,
+    batchInference: BatchInferenceService,
+    config: BatchDistillationConfig
+  ) {
+    this.objectStore = objectStore;
+    this.batchInference = batchInference;
+    this.config = config;
+    this.prefix = `batch-inference/${config.trainingRunId}/`;
+  }
+
+  /**
+   * Fewest records worth a job; smaller runs are distilled on demand
+   */
+  getMinRecords(): number {
+    return this.batchInference.minRecords;
+  }
+
+  async run(requests: BatchRequest[]): Promise<Map<string, BatchResult>> {
+    const parts = partitionBatchRecords(
+      buildBatchRecords(requests, this.config.teacherInferenceParams)
+    );
+    if (parts.length > 1) {
+      console.log(
+        `Splitting ${requests.length} batch records across ${parts.length} jobs`
+      );
+    }
+
+    // Submit every job before waiting, so they run side by side
+    const jobs: BatchJobRecord[] = [];
+    for (const [index, lines] of parts.entries()) {
+      jobs.push(await this.findOrSubmitJob(index, lines));
+    }
+
+    const results = new Map<string, BatchResult>();
+    let outputFiles = 0;
+    for (const job of jobs) {
+      await this.waitForJob(job.jobArn);
+
+      const outputKeys = (
+        await this.objectStore.listKeys(job.outputPrefix)
+      ).filter((key) => key.endsWith(".jsonl.out"));
+      outputFiles += outputKeys.length;
+      for (const key of outputKeys) {
+        const body = await this.objectStore.getObject(key);
+        parseBatchOutput(body || "").forEach((result, recordId) =>
+          results.set(recordId, result)
+        );
+      }
+    }
+
+    console.log(
+      `Read ${results.size} batch inference results from ${outputFiles} output files`
+    );
+    return results;
+  }
+
+  private async findOrSubmitJob(
+    part: number,
+    lines: string[]
+  ): Promise<BatchJobRecord> {
+    const partPrefix = `${this.prefix}part-${part}/`;
+    const jobKey = `${partPrefix}job.json`;
+    const existingBody = await this.objectStore.getObject(jobKey);
+    const existing: BatchJobRecord | undefined = existingBody
+      ? JSON.parse(existingBody)
+      : undefined;
+
+    // A retried task resumes the job instead of paying for it twice, unless
+    // that job is the reason the previous attempt failed
+    if (existing) {
+      const { status } = await this.batchInference.getJobStatus(
+        existing.jobArn
+      );
+      if (!TERMINAL_STATUSES.has(status) || SUCCESS_STATUSES.has(status)) {
+        console.log(`Resuming batch inference job ${existing.jobArn}`);
+        return existing;
+      }
+      console.log(
+        `Previous batch inference job ${existing.jobArn} ended ${status}, resubmitting`
+      );
+    }
+
+    const attempt = (existing?.attempt || 0) + 1;
+    const inputKey = `${partPrefix}input/records.jsonl`;
+    await this.objectStore.putObject(inputKey, lines.join("\n"), {
+      contentType: "application/jsonl",
+    });
+
+    const outputPrefix = `${partPrefix}output/attempt-${attempt}/`;
+    const jobArn = await this.batchInference.submitJob({
+      jobName: batchInferenceJobName(this.config.trainingRunId, part, attempt),
+      modelId: this.config.teacherModelId,
+      inputS3Uri: this.objectStore.getUri(inputKey),
+      outputS3Uri: this.objectStore.getUri(outputPrefix),
+    });
+
+    const job: BatchJobRecord = {
+      jobArn,
+      attempt,
+      outputPrefix,
+      records: lines.length,
+    };
+    await this.objectStore.putObject(jobKey, JSON.stringify(job), {
+      contentType: "application/json",
+    });
+
+    console.log(
+      `Submitted batch inference job ${jobArn} for ${lines.length} records`
+    );
+    return job;
+  }
+
+  private async waitForJob(jobArn: string): Promise<void> {
+    const pollIntervalMs = this.config.pollIntervalMs ?? 60000;
+
+    for (;;) {
+      const { status, message } = await this.batchInference.getJobStatus(
+        jobArn
+      );
+
+      if (TERMINAL_STATUSES.has(status)) {
+        if (!SUCCESS_STATUSES.has(status)) {
+          throw new Error(
+            `Batch inference job ${jobArn} ended with status ${status}${
+              message ? `: ${message}` : ""
+            }`
+          );
+        }
+
+        console.log(`Batch inference job ${jobArn} ${status}`);
+        return;
+      }
+
+      console.log(`Batch inference job ${jobArn} is ${status}, waiting...`);
+      await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+    }
+  }
+}
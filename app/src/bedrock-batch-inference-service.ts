@@ -0,0 +1,65 @@
+import {
+  BedrockClient,
+  CreateModelInvocationJobCommand,
+  GetModelInvocationJobCommand,
+} from "@aws-sdk/client-bedrock";
+import {
+  BatchInferenceJobRequest,
+  BatchInferenceJobStatus,
+  BatchInferenceService,
+} from "./types";
+
+export class BedrockBatchInferenceService implements BatchInferenceService {
+  // Bedrock's default quota for records per batch inference job
+  readonly minRecords = 100;
+  private bedrockClient: BedrockClient;
+
+  constructor(region: string) {
+    this.bedrockClient = new BedrockClient({ region });
+  }
+
+  /**
+   * Submit a batch inference job. Bedrock reads the input and writes the
+   * output with the service role in BEDROCK_BATCH_ROLE_ARN.
+   */
+  async submitJob(request: BatchInferenceJobRequest): Promise<string> {
+    const roleArn = process.env.BEDROCK_BATCH_ROLE_ARN;
+    if (!roleArn) {
+      throw new Error(
+        "BEDROCK_BATCH_ROLE_ARN environment variable is required for batch distillation"
+      );
+    }
+
+    const response = await this.bedrockClient.send(
+      new CreateModelInvocationJobCommand({
+        jobName: request.jobName,
+        roleArn,
+        // Makes a retried submission return the same job
+        clientRequestToken: request.jobName,
+        modelId: request.modelId,
+        inputDataConfig: {
+          s3InputDataConfig: {
+            s3Uri: request.inputS3Uri,
+            s3InputFormat: "JSONL",
+          },
+        },
+        outputDataConfig: {
+          s3OutputDataConfig: { s3Uri: request.outputS3Uri },
+        },
+      })
+    );
+
+    return response.jobArn || "unknown";
+  }
+
+  async getJobStatus(jobArn: string): Promise<BatchInferenceJobStatus> {
+    const response = await this.bedrockClient.send(
+      new GetModelInvocationJobCommand({ jobIdentifier: jobArn })
+    );
+
+    return {
+      status: response.status || "UNKNOWN",
+      message: response.message,
+    };
+  }
+}
@@ -0,0 +1,38 @@
+import {
+  BedrockRuntimeClient,
+  ConverseCommand,
+} from "@aws-sdk/client-bedrock-runtime";
+import { TextModelClient } from "./types";
+
+/**
+ * Calls any Bedrock text model (including custom models) through the
+ * model-agnostic Converse API
+ */
+export class BedrockConverseClient implements TextModelClient {
+  private bedrockClient: BedrockRuntimeClient;
+  private modelId: string;
+  private maxTokens: number;
+
+  constructor(region: string, modelId: string, maxTokens: number = 200) {
+    this.bedrockClient = new BedrockRuntimeClient({ region });
+    this.modelId = modelId;
+    this.maxTokens = maxTokens;
+  }
+
+  async generate(prompt: string, system?: string): Promise<string> {
+    const command = new ConverseCommand({
+      modelId: this.modelId,
+      system: system ? [{ text: system }] : undefined,
+      messages: [{ role: "user", content: [{ text: prompt }] }],
+      inferenceConfig: { maxTokens: this.maxTokens, temperature: 0 },
+    });
+
+    const response = await this.bedrockClient.send(command);
+    const content = response.output?.message?.content || [];
+
+    return content
+      .map((block) => block.text || "")
+      .join("")
+      .trim();
+  }
+}
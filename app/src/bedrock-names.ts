@@ -0,0 +1,130 @@
+import { sha256Hex } from "./hash-utils";
+
+// Bedrock rejects job and custom model names longer than this
+export const BEDROCK_NAME_MAX_LENGTH = 63;
+
+// Digits of Date.now() that end every custom model name
+const TIMESTAMP_LENGTH = 13;
+
+// Characters Bedrock accepts in customization job names
+const JOB_NAME_PATTERN = /^[a-zA-Z0-9](-*[a-zA-Z0-9+\-.])*$/;
+
+// Characters Bedrock accepts in custom model names
+const MODEL_NAME_PATTERN = /^([0-9a-zA-Z][_-]?)+$/;
+
+/**
+ * The name itself if it fits, otherwise its start followed by a hash of the
+ * whole name, so the result is still stable and unique
+ */
+function fitName(name: string, maxLength: number): string {
+  if (name.length <= maxLength) {
+    return name;
+  }
+
+  const hash = sha256Hex(name).substring(0, 8);
+  const start = name
+    .substring(0, maxLength - hash.length - 1)
+    .replace(/[-_.+]+$/, "");
+  return `${start}-${hash}`;
+}
+
+/**
+ * Name of the customization job for a training run; a retried task looks
+ * the job up by it
+ */
+export function trainingJobName(
+  taskName: string,
+  trainingRunId: string,
+  stage: string
+): string {
+  return fitName(
+    `training-${taskName}-${trainingRunId}-${stage}`,
+    BEDROCK_NAME_MAX_LENGTH
+  );
+}
+
+/**
+ * Name of a batch inference job distilling one part of a training run's
+ * prompts; Bedrock also uses it as the job's idempotency token
+ */
+export function batchInferenceJobName(
+  trainingRunId: string,
+  part: number,
+  attempt: number
+): string {
+  return fitName(
+    `distill-${attempt}-${part}-${trainingRunId}`,
+    BEDROCK_NAME_MAX_LENGTH
+  );
+}
+
+/**
+ * Name of the Provisioned Throughput serving a training run's model
+ */
+export function provisionedThroughputName(
+  taskName: string,
+  publicationId: string | undefined,
+  trainingRunId: string,
+  stage: string
+): string {
+  return fitName(
+    `pt-${taskName}-${publicationId || "all"}-${stage}-${trainingRunId}`,
+    BEDROCK_NAME_MAX_LENGTH
+  );
+}
+
+/**
+ * Start of the name of every custom model trained for a task, publication
+ * and stage; the name ends with the time the job was created
+ */
+export function customModelNamePrefix(
+  taskName: string,
+  publicationId: string | undefined,
+  stage: string
+): string {
+  const prefix = fitName(
+    `custom-model-${taskName}-${publicationId || "all"}-${stage}`,
+    BEDROCK_NAME_MAX_LENGTH - TIMESTAMP_LENGTH - 1
+  );
+  return `${prefix}-`;
+}
+
+export function customModelName(
+  taskName: string,
+  publicationId: string | undefined,
+  stage: string,
+  createdAt: number
+): string {
+  return `${customModelNamePrefix(taskName, publicationId, stage)}${createdAt}`;
+}
+
+/**
+ * Check the names a run's job and model will get, so a run that Bedrock
+ * would reject fails before distillation rather than at submission
+ */
+export function validateBedrockNames(
+  taskName: string,
+  publicationId: string | undefined,
+  trainingRunId: string,
+  stage: string
+): void {
+  const jobName = trainingJobName(taskName, trainingRunId, stage);
+  if (
+    jobName.length > BEDROCK_NAME_MAX_LENGTH ||
+    !JOB_NAME_PATTERN.test(jobName)
+  ) {
+    throw new Error(
+      `Invalid Bedrock job name "${jobName}", expected at most ${BEDROCK_NAME_MAX_LENGTH} letters, digits, hyphens, dots or plus signs (check TASK_NAME, TRAINING_RUN_ID and STAGE)`
+    );
+  }
+
+  const modelName = customModelName(taskName, publicationId, stage, Date.now());
+  if (
+    modelName.length > BEDROCK_NAME_MAX_LENGTH ||
+    !MODEL_NAME_PATTERN.test(modelName)
+  ) {
+    throw new Error(
+      `Invalid Bedrock custom model name "${modelName}", expected at most ${BEDROCK_NAME_MAX_LENGTH} letters, digits and single hyphens or underscores (check TASK_NAME, PUBLICATION_ID and STAGE)`
+    );
+  }
+}
@@ -1,19 +1,49 @@
 import {
   BedrockClient,
   CreateModelCustomizationJobCommand,
+  CreateProvisionedModelThroughputCommand,
+  DeleteCustomModelCommand,
+  DeleteProvisionedModelThroughputCommand,
   GetModelCustomizationJobCommand,
+  GetProvisionedModelThroughputCommand,
+  ListCustomModelsCommand,
+  ListProvisionedModelThroughputsCommand,
+  ProvisionedModelSummary,
+  ResourceNotFoundException,
 } from "@aws-sdk/client-bedrock";
-import { TrainingConfig, ProcessingResult } from "./types";
-
-export interface BedrockTrainingJobConfig {
-  modelId: string;
-  trainingDataS3Uri: string;
-  outputDataConfigS3Uri: string;
-  baseModelArn: string;
-  hyperParameters?: Record<string, string>;
+import {
+  TrainingConfig,
+  ProcessingResult,
+  BedrockTrainingJobConfig,
+  ModelCustomizationService,
+  ModelLifecycleService,
+  ProvisionedThroughput,
+  ProvisionedThroughputOptions,
+  CustomModelSummary,
+} from "./types";
+import { customModelName, trainingJobName } from "./bedrock-names";
+
+function toProvisionedThroughput(
+  summary: Pick<
+    ProvisionedModelSummary,
+    | "provisionedModelName"
+    | "provisionedModelArn"
+    | "modelArn"
+    | "desiredModelArn"
+    | "status"
+  >
+): ProvisionedThroughput {
+  return {
+    provisionedModelName: summary.provisionedModelName || "",
+    provisionedModelArn: summary.provisionedModelArn || "",
+    modelArn: summary.desiredModelArn || summary.modelArn || "",
+    status: summary.status || "UNKNOWN",
+  };
 }
 
-export class BedrockService {
+export class BedrockService
+  implements ModelCustomizationService, ModelLifecycleService
+{
   private bedrockClient: BedrockClient;
 
   constructor(region: string) {
@@ -21,8 +51,8 @@ export class BedrockService {
   }
 
   /**
-   * Create a model customization job in Bedrock
-   * Note: This is a placeholder implementation. Adjust based on actual Bedrock API requirements
+   * Create a model customization job in Bedrock, or return the run's job if
+   * it was already submitted
    */
   async createModelCustomizationJob(
     config: TrainingConfig,
@@ -33,20 +63,39 @@ export class BedrockService {
       `Creating Bedrock model customization job for ${result.s3Location}`
     );
 
-    // Note: The actual Bedrock API for model customization may vary
-    // This is a conceptual implementation
     const stage = process.env.STAGE || "dev";
+    const jobName = trainingJobName(
+      config.taskName,
+      config.trainingRunId,
+      stage
+    );
+
+    // A retried task may have already submitted the job before it died
+    const existingJobArn = await this.findJob(jobName);
+    if (existingJobArn) {
+      console.log(`Bedrock training job already exists: ${existingJobArn}`);
+      return existingJobArn;
+    }
+
     const command = new CreateModelCustomizationJobCommand({
-      jobName: `training-${config.trainingRunId}-${stage}`,
-      customModelName: `custom-model-${
-        config.publicationId || "all"
-      }-${stage}-${Date.now()}`,
+      jobName,
+      customModelName: customModelName(
+        config.taskName,
+        config.publicationId,
+        stage,
+        Date.now()
+      ),
       roleArn: process.env.BEDROCK_ROLE_ARN,
       baseModelIdentifier: bedrockConfig.baseModelArn,
       customizationType: "FINE_TUNING",
       trainingDataConfig: {
         s3Uri: result.s3Location,
       },
+      // Bedrock reports validation loss per epoch when a validation set is given
+      validationDataConfig:
+        result.splitCounts.validation > 0
+          ? { validators: [{ s3Uri: result.validationS3Location }] }
+          : undefined,
       hyperParameters: bedrockConfig.hyperParameters || {},
       outputDataConfig: {
         s3Uri: bedrockConfig.outputDataConfigS3Uri,
@@ -65,6 +114,20 @@ export class BedrockService {
     }
   }
 
+  private async findJob(jobName: string): Promise<string | undefined> {
+    try {
+      const response = await this.bedrockClient.send(
+        new GetModelCustomizationJobCommand({ jobIdentifier: jobName })
+      );
+      return response.jobArn;
+    } catch (error) {
+      if (error instanceof ResourceNotFoundException) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
   /**
    * Get status of a model customization job
    */
@@ -76,4 +139,109 @@ export class BedrockService {
     const response = await this.bedrockClient.send(command);
     return response.status || "UNKNOWN";
   }
+
+  async getProvisionedThroughput(
+    name: string
+  ): Promise<ProvisionedThroughput | undefined> {
+    try {
+      const response = await this.bedrockClient.send(
+        new GetProvisionedModelThroughputCommand({ provisionedModelId: name })
+      );
+      return toProvisionedThroughput(response);
+    } catch (error) {
+      if (error instanceof ResourceNotFoundException) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async createProvisionedThroughput(
+    name: string,
+    modelArn: string,
+    options: ProvisionedThroughputOptions
+  ): Promise<ProvisionedThroughput> {
+    const response = await this.bedrockClient.send(
+      new CreateProvisionedModelThroughputCommand({
+        provisionedModelName: name,
+        modelId: modelArn,
+        modelUnits: options.modelUnits,
+      })
+    );
+
+    return {
+      provisionedModelName: name,
+      provisionedModelArn: response.provisionedModelArn || "",
+      modelArn,
+      status: "Creating",
+    };
+  }
+
+  async listProvisionedThroughputs(
+    modelArn: string
+  ): Promise<ProvisionedThroughput[]> {
+    const throughputs: ProvisionedThroughput[] = [];
+    let nextToken: string | undefined;
+
+    do {
+      const response = await this.bedrockClient.send(
+        new ListProvisionedModelThroughputsCommand({
+          modelArnEquals: modelArn,
+          nextToken,
+        })
+      );
+      throughputs.push(
+        ...(response.provisionedModelSummaries || []).map(
+          toProvisionedThroughput
+        )
+      );
+      nextToken = response.nextToken;
+    } while (nextToken);
+
+    return throughputs;
+  }
+
+  async deleteProvisionedThroughput(
+    provisionedModelArn: string
+  ): Promise<void> {
+    await this.bedrockClient.send(
+      new DeleteProvisionedModelThroughputCommand({
+        provisionedModelId: provisionedModelArn,
+      })
+    );
+  }
+
+  async listCustomModels(namePrefix: string): Promise<CustomModelSummary[]> {
+    const models: CustomModelSummary[] = [];
+    let nextToken: string | undefined;
+
+    do {
+      const response = await this.bedrockClient.send(
+        new ListCustomModelsCommand({
+          nameContains: namePrefix,
+          sortBy: "CreationTime",
+          sortOrder: "Descending",
+          nextToken,
+        })
+      );
+      for (const summary of response.modelSummaries || []) {
+        if (summary.modelArn && summary.modelName?.startsWith(namePrefix)) {
+          models.push({
+            modelArn: summary.modelArn,
+            modelName: summary.modelName,
+            creationTime: summary.creationTime?.toISOString() || "",
+          });
+        }
+      }
+      nextToken = response.nextToken;
+    } while (nextToken);
+
+    return models;
+  }
+
+  async deleteCustomModel(modelArn: string): Promise<void> {
+    await this.bedrockClient.send(
+      new DeleteCustomModelCommand({ modelIdentifier: modelArn })
+    );
+  }
 }
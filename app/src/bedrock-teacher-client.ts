@@ -0,0 +1,79 @@
+import {
+  BedrockRuntimeClient,
+  InvokeModelCommand,
+} from "@aws-sdk/client-bedrock-runtime";
+import { TeacherInferenceParams, TeacherModelClient } from "./types";
+
+/**
+ * Anthropic messages request body, shared by on-demand calls and batch
+ * inference records
+ */
+export function buildTeacherRequestBody(
+  prompt: string,
+  inferenceParams: TeacherInferenceParams
+): Record<string, unknown> {
+  return {
+    anthropic_version: "bedrock-2023-05-31",
+    max_tokens: inferenceParams.maxTokens,
+    temperature: inferenceParams.temperature,
+    messages: [
+      {
+        role: "user",
+        content: prompt,
+      },
+    ],
+  };
+}
+
+/**
+ * The part of an Anthropic messages response body the teacher output is
+ * read from
+ */
+interface TeacherResponseBody {
+  content?: Array<{ text?: string }>;
+}
+
+/**
+ * Extract the generated text from an Anthropic messages response body
+ */
+export function parseTeacherResponseBody(responseBody: unknown): string {
+  const content = (responseBody as TeacherResponseBody | undefined)?.content;
+  const text = Array.isArray(content) ? content[0]?.text : undefined;
+  return typeof text === "string" ? text.trim() : "";
+}
+
+export class BedrockTeacherClient implements TeacherModelClient {
+  private bedrockClient: BedrockRuntimeClient;
+  private modelId: string;
+  private inferenceParams: TeacherInferenceParams;
+
+  constructor(
+    region: string,
+    modelId: string,
+    inferenceParams: TeacherInferenceParams
+  ) {
+    // Retries are handled by the distillation request scheduler
+    this.bedrockClient = new BedrockRuntimeClient({ region, maxAttempts: 1 });
+    this.modelId = modelId;
+    this.inferenceParams = inferenceParams;
+  }
+
+  /**
+   * Invoke the teacher model and return the generated text
+   */
+  async generate(prompt: string): Promise<string> {
+    const command = new InvokeModelCommand({
+      modelId: this.modelId,
+      contentType: "application/json",
+      accept: "application/json",
+      body: JSON.stringify(
+        buildTeacherRequestBody(prompt, this.inferenceParams)
+      ),
+    });
+
+    const response = await this.bedrockClient.send(command);
+    const responseBody = JSON.parse(new TextDecoder().decode(response.body));
+
+    return parseTeacherResponseBody(responseBody);
+  }
+}
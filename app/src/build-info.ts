@@ -0,0 +1,45 @@
+import { execFileSync } from "child_process";
+import { BuildInfo } from "./types";
+
+/**
+ * The git commit and container image running the pipeline. The commit is
+ * baked into the image as GIT_SHA, or read from git in a local checkout;
+ * the image digest comes from the ECS task metadata endpoint.
+ */
+export async function resolveBuildInfo(): Promise<BuildInfo> {
+  const gitSha = process.env.GIT_SHA || readGitSha();
+  const imageDigest = await readImageDigest();
+
+  return {
+    ...(gitSha ? { gitSha } : {}),
+    ...(imageDigest ? { imageDigest } : {}),
+  };
+}
+
+function readGitSha(): string | undefined {
+  try {
+    return execFileSync("git", ["rev-parse", "HEAD"], {
+      encoding: "utf8",
+      stdio: ["ignore", "pipe", "ignore"],
+    }).trim();
+  } catch (error) {
+    // Not a git checkout, or git is not installed
+    return undefined;
+  }
+}
+
+async function readImageDigest(): Promise<string | undefined> {
+  const metadataUri = process.env.ECS_CONTAINER_METADATA_URI_V4;
+  if (!metadataUri) {
+    return undefined;
+  }
+
+  try {
+    const response = await fetch(metadataUri);
+    const metadata = (await response.json()) as { ImageID?: string };
+    return metadata.ImageID;
+  } catch (error) {
+    console.warn("Could not read the image digest from ECS metadata:", error);
+    return undefined;
+  }
+}
@@ -0,0 +1,373 @@
+import { convert } from "html-to-text";
+import { countWords } from "./evaluation-metrics";
+import { detectLanguage } from "./language-detection";
+import { TaskDefinition, getTarget } from "./task-definitions";
+import { CleaningConfig, TrainingExample } from "./types";
+
+const TITLE_MIN_WORDS = 2;
+const TITLE_MAX_WORDS = 25;
+const TITLE_MIN_CHARS = 5;
+// Short titles are allowed to be mostly capitals, e.g. acronyms
+const ALL_CAPS_MIN_CHARS = 20;
+const ALL_CAPS_RATIO = 0.8;
+// Lines longer than this are article text even if they match a pattern
+const MAX_STRIPPED_LINE_WORDS = 25;
+// Bylines are only looked for this many lines from either end
+const BYLINE_LINES = 3;
+
+const REQUIRED_FIELDS: Array<keyof TrainingExample> = [
+  "articleId",
+  "title",
+  "content",
+  "publication",
+  "publishedDate",
+];
+
+const HTML_TO_TEXT_OPTIONS = {
+  wordwrap: null,
+  preserveNewlines: true,
+  selectors: [
+    { selector: "img", format: "skip" },
+    { selector: "a", options: { ignoreHref: true } },
+  ],
+};
+
+const LEADING_BYLINE_PATTERNS = [
+  /^(by|By|BY)\s+\p{Lu}/u,
+  /^(published|updated|last updated|posted)\b/i,
+];
+
+const TRAILING_BYLINE_PATTERNS = [
+  /^(additional )?(reporting|writing|editing) by\b/i,
+];
+
+/**
+ * Lines publishing systems add around article text
+ */
+export const BOILERPLATE_PATTERNS = [
+  /^(advertisement|advert|sponsored content)$/i,
+  /^(read more|related|see also|more on this story)\s*:/i,
+  /^(sign up|subscribe)\b.*\b(newsletter|updates|free)\b/i,
+  /^follow us\b/i,
+  /^share (this|on)\b/i,
+  /^click here\b/i,
+  /^(copyright|©)/i,
+  /\ball rights reserved\.?$/i,
+  /^this (article|story) (was|is) (originally )?published\b/i,
+  /^(photo|photograph|image|picture)( credit)?\s*:/i,
+];
+
+export type RuleOutcome =
+  | { action: "keep" }
+  | { action: "drop"; reason: string; detail?: string }
+  | { action: "transform"; reason: string; example: TrainingExample };
+
+/**
+ * One cleaning step. Each article is kept as it is, dropped, or replaced by
+ * a cleaned copy, with a reason code for anything but keep.
+ */
+export interface CleaningRule {
+  name: string;
+  apply(example: TrainingExample): RuleOutcome;
+}
+
+const KEEP: RuleOutcome = { action: "keep" };
+
+export const DEFAULT_CLEANING_CONFIG: CleaningConfig = {
+  rules: [
+    "required-fields",
+    "strip-html",
+    "duplicate-id",
+    "strip-bylines",
+    "strip-boilerplate",
+    "word-count",
+    "language",
+    "headline-style",
+    "balanced-quotes",
+  ],
+  languages: ["en"],
+  minContentWords: 30,
+  maxContentWords: 10000,
+};
+
+/**
+ * Replace the content when stripping lines changed it
+ */
+function transformContent(
+  example: TrainingExample,
+  content: string,
+  reason: string
+): RuleOutcome {
+  return content === example.content
+    ? KEEP
+    : { action: "transform", reason, example: { ...example, content } };
+}
+
+function isStrippable(line: string, patterns: RegExp[]): boolean {
+  return (
+    countWords(line) <= MAX_STRIPPED_LINE_WORDS &&
+    patterns.some((pattern) => pattern.test(line.trim()))
+  );
+}
+
+function joinLines(lines: string[]): string {
+  return lines
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function requiredFields(task?: TaskDefinition): CleaningRule {
+  return {
+    name: "required-fields",
+    apply(example) {
+      const missing = REQUIRED_FIELDS.find((field) => {
+        const value = example[field];
+        return typeof value !== "string" || value.trim() === "";
+      });
+      if (missing) {
+        return { action: "drop", reason: `missing-${missing}` };
+      }
+
+      if (task && getTarget(task, example) === undefined) {
+        return {
+          action: "drop",
+          reason: "missing-target",
+          detail: task.targetField,
+        };
+      }
+
+      return KEEP;
+    },
+  };
+}
+
+function stripHtml(): CleaningRule {
+  return {
+    name: "strip-html",
+    apply(example) {
+      const title = convert(example.title, HTML_TO_TEXT_OPTIONS).trim();
+      const content = convert(example.content, HTML_TO_TEXT_OPTIONS).trim();
+
+      return title === example.title && content === example.content
+        ? KEEP
+        : {
+            action: "transform",
+            reason: "html-stripped",
+            example: { ...example, title, content },
+          };
+    },
+  };
+}
+
+/**
+ * Keeps the first article with each ID. State is per rule instance, so
+ * rules are created afresh for every cleaning run.
+ */
+function duplicateId(): CleaningRule {
+  const seen = new Set<string>();
+
+  return {
+    name: "duplicate-id",
+    apply(example) {
+      if (seen.has(example.articleId)) {
+        return { action: "drop", reason: "duplicate-id" };
+      }
+      seen.add(example.articleId);
+      return KEEP;
+    },
+  };
+}
+
+/**
+ * Remove author and dateline lines at the top ("By Jane Smith", "Updated
+ * 3 March") and credit lines at the bottom ("Reporting by ...")
+ */
+function stripBylines(): CleaningRule {
+  return {
+    name: "strip-bylines",
+    apply(example) {
+      const lines = example.content.split("\n");
+      let start = 0;
+      let end = lines.length;
+
+      while (
+        start < Math.min(BYLINE_LINES, end) &&
+        (lines[start].trim() === "" ||
+          isStrippable(lines[start], LEADING_BYLINE_PATTERNS))
+      ) {
+        start++;
+      }
+      while (
+        end > Math.max(start, lines.length - BYLINE_LINES) &&
+        (lines[end - 1].trim() === "" ||
+          isStrippable(lines[end - 1], TRAILING_BYLINE_PATTERNS))
+      ) {
+        end--;
+      }
+
+      return transformContent(
+        example,
+        joinLines(lines.slice(start, end)),
+        "byline-stripped"
+      );
+    },
+  };
+}
+
+function stripBoilerplate(): CleaningRule {
+  return {
+    name: "strip-boilerplate",
+    apply(example) {
+      const lines = example.content
+        .split("\n")
+        .filter((line) => !isStrippable(line, BOILERPLATE_PATTERNS));
+
+      return transformContent(
+        example,
+        joinLines(lines),
+        "boilerplate-stripped"
+      );
+    },
+  };
+}
+
+function wordCount(config: CleaningConfig): CleaningRule {
+  return {
+    name: "word-count",
+    apply(example) {
+      const words = countWords(example.content);
+
+      if (words < config.minContentWords) {
+        return {
+          action: "drop",
+          reason: "too-short",
+          detail: `${words} words`,
+        };
+      }
+      if (words > config.maxContentWords) {
+        return { action: "drop", reason: "too-long", detail: `${words} words` };
+      }
+      return KEEP;
+    },
+  };
+}
+
+function language(config: CleaningConfig): CleaningRule {
+  return {
+    name: "language",
+    apply(example) {
+      const detected = detectLanguage(example.content);
+
+      if (detected === undefined) {
+        return { action: "drop", reason: "unknown-language" };
+      }
+      if (!config.languages.includes(detected)) {
+        return { action: "drop", reason: "wrong-language", detail: detected };
+      }
+      return KEEP;
+    },
+  };
+}
+
+/**
+ * Titles that cannot be headlines: too short or long, or shouting in
+ * capitals (usually feed noise or spam)
+ */
+function headlineStyle(): CleaningRule {
+  return {
+    name: "headline-style",
+    apply(example) {
+      const { title } = example;
+      const words = countWords(title);
+
+      if (words < TITLE_MIN_WORDS || title.length < TITLE_MIN_CHARS) {
+        return { action: "drop", reason: "title-too-short" };
+      }
+      if (words > TITLE_MAX_WORDS) {
+        return {
+          action: "drop",
+          reason: "title-too-long",
+          detail: `${words} words`,
+        };
+      }
+
+      const capitals = (title.match(/\p{Lu}/gu) || []).length;
+      if (
+        title.length > ALL_CAPS_MIN_CHARS &&
+        capitals / title.length > ALL_CAPS_RATIO
+      ) {
+        return { action: "drop", reason: "all-caps" };
+      }
+
+      return KEEP;
+    },
+  };
+}
+
+function hasBalancedQuotes(text: string): boolean {
+  const count = (pattern: RegExp) => (text.match(pattern) || []).length;
+
+  return count(/"/g) % 2 === 0 && count(/“/g) === count(/”/g);
+}
+
+/**
+ * Unbalanced quotes usually mean text was cut mid-quote on export, which
+ * would teach the model to misquote
+ */
+function balancedQuotes(): CleaningRule {
+  return {
+    name: "balanced-quotes",
+    apply(example) {
+      if (!hasBalancedQuotes(example.title)) {
+        return { action: "drop", reason: "unbalanced-quotes", detail: "title" };
+      }
+      if (!hasBalancedQuotes(example.content)) {
+        return {
+          action: "drop",
+          reason: "unbalanced-quotes",
+          detail: "content",
+        };
+      }
+      return KEEP;
+    },
+  };
+}
+
+const RULE_FACTORIES: Record<
+  string,
+  (config: CleaningConfig, task?: TaskDefinition) => CleaningRule
+> = {
+  "required-fields": (_, task) => requiredFields(task),
+  "strip-html": stripHtml,
+  "duplicate-id": duplicateId,
+  "strip-bylines": stripBylines,
+  "strip-boilerplate": stripBoilerplate,
+  "word-count": wordCount,
+  language,
+  "headline-style": headlineStyle,
+  "balanced-quotes": balancedQuotes,
+};
+
+export const CLEANING_RULE_NAMES = Object.keys(RULE_FACTORIES);
+
+/**
+ * Fresh instances of the configured rules, in order. When a task is given,
+ * articles without its target are dropped as missing a required field.
+ */
+export function createCleaningRules(
+  config: CleaningConfig,
+  task?: TaskDefinition
+): CleaningRule[] {
+  return config.rules.map((name) => {
+    const factory = RULE_FACTORIES[name];
+    if (!factory) {
+      throw new Error(
+        `Unknown cleaning rule "${name}", expected one of ${CLEANING_RULE_NAMES.join(
+          ", "
+        )}`
+      );
+    }
+    return factory(config, task);
+  });
+}
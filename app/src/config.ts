@@ -0,0 +1,576 @@
+import { parseSplitRatios } from "./dataset-splitter";
+import { CLEANING_RULE_NAMES, DEFAULT_CLEANING_CONFIG } from "./cleaning-rules";
+import { SUPPORTED_LANGUAGES } from "./language-detection";
+import { REDACTION_DETECTOR_NAMES } from "./redaction";
+import { DEFAULT_SCHEMA_MAPPING } from "./athena-query-builder";
+import { ConfigError } from "./errors";
+import { validateBedrockNames } from "./bedrock-names";
+import { getTaskDefinition } from "./task-definitions";
+import {
+  PipelineMode,
+  TeacherInferenceParams,
+  TeacherRateLimits,
+  TeacherFailurePolicy,
+  TrainingConfig,
+  TruncationStrategy,
+  ContentTruncationConfig,
+  NearDuplicateSurvivorRule,
+  NearDuplicateConfig,
+  CleaningConfig,
+  RedactionMode,
+  RedactionConfig,
+  FactCheckPolicy,
+  FactCheckConfig,
+  AthenaSchemaMapping,
+  TrainingDataFilters,
+  DatasetMode,
+  RetentionSampling,
+  DatasetRetentionConfig,
+  TimeBucket,
+  SamplingConfig,
+} from "./types";
+
+const TEACHER_FAILURE_POLICIES: TeacherFailurePolicy[] = [
+  "drop",
+  "keep-as-human",
+  "fail-run",
+];
+
+const TRUNCATION_STRATEGIES: TruncationStrategy[] = ["lead", "lead-plus-key"];
+
+const FACT_CHECK_POLICIES: FactCheckPolicy[] = ["off", "flag", "drop"];
+
+const REDACTION_MODES: RedactionMode[] = ["mask", "exclude"];
+
+const SURVIVOR_RULES: NearDuplicateSurvivorRule[] = [
+  "earliest-published",
+  "canonical-publication",
+];
+
+const DATASET_MODES: DatasetMode[] = ["full", "incremental"];
+
+const RETENTION_SAMPLINGS: RetentionSampling[] = ["newest", "recency-weighted"];
+
+const TIME_BUCKETS: TimeBucket[] = ["day", "week", "month"];
+
+export function getPipelineMode(): PipelineMode {
+  const mode = process.env.PIPELINE_MODE || "aws";
+
+  if (mode !== "aws" && mode !== "local") {
+    throw new ConfigError(
+      `Invalid PIPELINE_MODE "${mode}", expected "aws" or "local"`
+    );
+  }
+
+  return mode;
+}
+
+function parseOptionalInt(value: string | undefined): number | undefined {
+  return value ? parseInt(value, 10) : undefined;
+}
+
+function parsePositiveInt(name: string, defaultValue: number): number {
+  const value = process.env[name];
+  if (value === undefined || value === "") {
+    return defaultValue;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(
+      `Invalid ${name} "${value}", expected a whole number of at least 1`
+    );
+  }
+  return parsed;
+}
+
+/**
+ * A share between 0 and 1, e.g. "0.1"
+ */
+function parseRate(name: string, defaultValue: number): number {
+  const value = process.env[name];
+  if (value === undefined || value === "") {
+    return defaultValue;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0 || parsed > 1) {
+    throw new Error(
+      `Invalid ${name} "${value}", expected a number between 0 and 1`
+    );
+  }
+  return parsed;
+}
+
+function parseTeacherFailurePolicy(value: string): TeacherFailurePolicy {
+  if (!TEACHER_FAILURE_POLICIES.includes(value as TeacherFailurePolicy)) {
+    throw new Error(
+      `Invalid TEACHER_FAILURE_POLICY "${value}", expected one of ${TEACHER_FAILURE_POLICIES.join(
+        ", "
+      )}`
+    );
+  }
+
+  return value as TeacherFailurePolicy;
+}
+
+function parseTruncationStrategy(value: string): TruncationStrategy {
+  if (!TRUNCATION_STRATEGIES.includes(value as TruncationStrategy)) {
+    throw new Error(
+      `Invalid CONTENT_TRUNCATION_STRATEGY "${value}", expected one of ${TRUNCATION_STRATEGIES.join(
+        ", "
+      )}`
+    );
+  }
+
+  return value as TruncationStrategy;
+}
+
+function parseSurvivorRule(value: string): NearDuplicateSurvivorRule {
+  if (!SURVIVOR_RULES.includes(value as NearDuplicateSurvivorRule)) {
+    throw new Error(
+      `Invalid NEAR_DUPLICATE_SURVIVOR "${value}", expected one of ${SURVIVOR_RULES.join(
+        ", "
+      )}`
+    );
+  }
+
+  return value as NearDuplicateSurvivorRule;
+}
+
+function parseDatasetMode(value: string): DatasetMode {
+  if (!DATASET_MODES.includes(value as DatasetMode)) {
+    throw new Error(
+      `Invalid DATASET_MODE "${value}", expected one of ${DATASET_MODES.join(
+        ", "
+      )}`
+    );
+  }
+
+  return value as DatasetMode;
+}
+
+function parseRetentionSampling(value: string): RetentionSampling {
+  if (!RETENTION_SAMPLINGS.includes(value as RetentionSampling)) {
+    throw new Error(
+      `Invalid RETENTION_SAMPLING "${value}", expected one of ${RETENTION_SAMPLINGS.join(
+        ", "
+      )}`
+    );
+  }
+
+  return value as RetentionSampling;
+}
+
+function parseTimeBucket(value: string): TimeBucket {
+  if (!TIME_BUCKETS.includes(value as TimeBucket)) {
+    throw new Error(
+      `Invalid SAMPLING_TIME_BUCKET "${value}", expected one of ${TIME_BUCKETS.join(
+        ", "
+      )}`
+    );
+  }
+
+  return value as TimeBucket;
+}
+
+function parseList(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item !== "");
+}
+
+function parseCleaningRules(value: string): string[] {
+  const rules = parseList(value);
+  const unknown = rules.filter((rule) => !CLEANING_RULE_NAMES.includes(rule));
+
+  if (unknown.length > 0) {
+    throw new Error(
+      `Invalid CLEANING_RULES "${unknown.join(
+        ", "
+      )}", expected any of ${CLEANING_RULE_NAMES.join(", ")}`
+    );
+  }
+
+  return rules;
+}
+
+function parseLanguages(value: string): string[] {
+  const languages = parseList(value);
+  const unknown = languages.filter(
+    (language) => !SUPPORTED_LANGUAGES.includes(language)
+  );
+
+  if (unknown.length > 0) {
+    throw new Error(
+      `Invalid CLEANING_LANGUAGES "${unknown.join(
+        ", "
+      )}", expected any of ${SUPPORTED_LANGUAGES.join(", ")}`
+    );
+  }
+
+  return languages;
+}
+
+function parseFactCheckPolicy(value: string): FactCheckPolicy {
+  if (!FACT_CHECK_POLICIES.includes(value as FactCheckPolicy)) {
+    throw new Error(
+      `Invalid FACT_CHECK_POLICY "${value}", expected one of ${FACT_CHECK_POLICIES.join(
+        ", "
+      )}`
+    );
+  }
+
+  return value as FactCheckPolicy;
+}
+
+function parseRedactionMode(value: string): RedactionMode {
+  if (!REDACTION_MODES.includes(value as RedactionMode)) {
+    throw new Error(
+      `Invalid redaction mode "${value}", expected one of ${REDACTION_MODES.join(
+        ", "
+      )}`
+    );
+  }
+
+  return value as RedactionMode;
+}
+
+/**
+ * `name` or `name:mode` entries, e.g. "email,phone:exclude,deny-list"
+ */
+function parseRedactionDetectors(
+  value: string,
+  defaultMode: RedactionMode
+): RedactionConfig["detectors"] {
+  return parseList(value).map((entry) => {
+    const [name, mode] = entry.split(":").map((part) => part.trim());
+
+    if (!REDACTION_DETECTOR_NAMES.includes(name)) {
+      throw new Error(
+        `Invalid REDACTION_DETECTORS "${name}", expected any of ${REDACTION_DETECTOR_NAMES.join(
+          ", "
+        )}`
+      );
+    }
+
+    return { name, mode: mode ? parseRedactionMode(mode) : defaultMode };
+  });
+}
+
+function parseDate(
+  name: string,
+  value: string | undefined
+): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(Date.parse(value))) {
+    throw new Error(`Invalid ${name} "${value}", expected YYYY-MM-DD`);
+  }
+
+  return value;
+}
+
+/**
+ * `publication:share` entries, e.g. "pub-1:0.5,pub-2:0.25"
+ */
+function parsePublicationQuotas(
+  value: string,
+  maxExamples: number | undefined
+): Record<string, number> {
+  const quotas: Record<string, number> = {};
+
+  for (const entry of parseList(value)) {
+    const [publication, share] = entry.split(":").map((part) => part.trim());
+    const quota = parseFloat(share);
+    if (!publication || isNaN(quota) || quota <= 0 || quota > 1) {
+      throw new Error(
+        `Invalid SAMPLING_PUBLICATION_QUOTAS "${entry}", expected publication:share with a share between 0 and 1`
+      );
+    }
+    quotas[publication] = quota;
+  }
+
+  const total = Object.values(quotas).reduce((sum, quota) => sum + quota, 0);
+  if (total > 1 + 1e-9) {
+    throw new Error(
+      `Invalid SAMPLING_PUBLICATION_QUOTAS "${value}", shares add up to more than 1`
+    );
+  }
+  if (total > 0 && maxExamples === undefined) {
+    throw new Error(
+      "SAMPLING_PUBLICATION_QUOTAS requires SAMPLING_MAX_EXAMPLES"
+    );
+  }
+
+  return quotas;
+}
+
+/**
+ * JSON object of column names overriding the default mapping, by
+ * TrainingExample field or filter, e.g. `{"articleId": "id"}`.
+ * `metadata.<key>` entries copy a column into metadata.
+ */
+function parseSchemaMapping(value: string | undefined): AthenaSchemaMapping {
+  const schema: AthenaSchemaMapping = {
+    ...DEFAULT_SCHEMA_MAPPING,
+    metadataColumns: {},
+  };
+  if (!value) {
+    return schema;
+  }
+
+  const fields = Object.keys(DEFAULT_SCHEMA_MAPPING).filter(
+    (field) => field !== "metadataColumns"
+  );
+  for (const [key, column] of Object.entries(JSON.parse(value))) {
+    if (typeof column !== "string") {
+      throw new Error(
+        `Invalid ATHENA_SCHEMA_MAPPING "${key}", expected a column name`
+      );
+    }
+
+    if (key.startsWith("metadata.")) {
+      schema.metadataColumns[key.substring("metadata.".length)] = column;
+    } else if (fields.includes(key)) {
+      schema[key as Exclude<keyof AthenaSchemaMapping, "metadataColumns">] =
+        column;
+    } else {
+      throw new Error(
+        `Invalid ATHENA_SCHEMA_MAPPING field "${key}", expected one of ${fields.join(
+          ", "
+        )} or metadata.<key>`
+      );
+    }
+  }
+
+  // An empty string means the table has no JSON metadata column
+  if (schema.metadata === "") {
+    delete schema.metadata;
+  }
+  return schema;
+}
+
+/**
+ * Build the training config from environment variables. An invalid value
+ * is reported as a ConfigError, which the state machine does not retry.
+ */
+export function loadTrainingConfig(mode: PipelineMode): TrainingConfig {
+  try {
+    return buildTrainingConfig(mode);
+  } catch (error) {
+    throw error instanceof Error && !(error instanceof ConfigError)
+      ? new ConfigError(error.message)
+      : error;
+  }
+}
+
+function buildTrainingConfig(mode: PipelineMode): TrainingConfig {
+  const trainingDataBucket =
+    mode === "local" ? "local" : process.env.TRAINING_DATA_BUCKET;
+  const taskName = process.env.TASK_NAME || "headline";
+  const minPromptCount = parseInt(process.env.MIN_PROMPT_COUNT || "100", 10);
+  const defaultLookBackDays = parseInt(
+    process.env.DEFAULT_LOOK_BACK_DAYS || "30",
+    10
+  );
+  const lookBackDays = parseInt(
+    process.env.LOOK_BACK_DAYS || defaultLookBackDays.toString(),
+    10
+  );
+  const trainingRunId = process.env.TRAINING_RUN_ID || `run-${Date.now()}`;
+  const dataFilters: TrainingDataFilters = {
+    publicationIds: parseList(process.env.PUBLICATION_ID || ""),
+    sections: parseList(process.env.SECTIONS || ""),
+    authors: parseList(process.env.AUTHORS || ""),
+    contentTypes: parseList(process.env.CONTENT_TYPES || ""),
+    excludeArticleIds: parseList(process.env.EXCLUDE_ARTICLE_IDS || ""),
+    startDate: parseDate("START_DATE", process.env.START_DATE),
+    endDate: parseDate("END_DATE", process.env.END_DATE),
+  };
+  if (
+    dataFilters.startDate &&
+    dataFilters.endDate &&
+    dataFilters.startDate > dataFilters.endDate
+  ) {
+    throw new Error(
+      `START_DATE ${dataFilters.startDate} is after END_DATE ${dataFilters.endDate}`
+    );
+  }
+  const publicationId =
+    dataFilters.publicationIds.length > 0
+      ? [...dataFilters.publicationIds].sort().join("_")
+      : undefined;
+  const datasetMode = parseDatasetMode(process.env.DATASET_MODE || "full");
+  const retention: DatasetRetentionConfig = {
+    maxAgeDays: parseOptionalInt(process.env.RETENTION_MAX_AGE_DAYS),
+    maxExamples: parseOptionalInt(process.env.RETENTION_MAX_EXAMPLES),
+    sampling: parseRetentionSampling(
+      process.env.RETENTION_SAMPLING || "newest"
+    ),
+    halfLifeDays: parseFloat(process.env.RETENTION_HALF_LIFE_DAYS || "90"),
+  };
+  const splitRatios = parseSplitRatios(process.env.DATASET_SPLIT || "90/5/5");
+  const baseModelId = process.env.BEDROCK_BASE_MODEL_ARN || "";
+  const teacherModelId =
+    process.env.TEACHER_MODEL_ID || "anthropic.claude-3-5-sonnet-20241022-v2:0";
+  const teacherInferenceParams: TeacherInferenceParams = {
+    maxTokens: parseInt(process.env.TEACHER_MAX_TOKENS || "200", 10),
+    temperature: process.env.TEACHER_TEMPERATURE
+      ? parseFloat(process.env.TEACHER_TEMPERATURE)
+      : undefined,
+  };
+  const teacherRateLimits: TeacherRateLimits = {
+    maxConcurrency: parsePositiveInt("TEACHER_MAX_CONCURRENCY", 5),
+    requestsPerMinute: parseOptionalInt(
+      process.env.TEACHER_REQUESTS_PER_MINUTE
+    ),
+    tokensPerMinute: parseOptionalInt(process.env.TEACHER_TOKENS_PER_MINUTE),
+    maxAttempts: parsePositiveInt("TEACHER_MAX_ATTEMPTS", 5),
+  };
+  const teacherFailurePolicy = parseTeacherFailurePolicy(
+    process.env.TEACHER_FAILURE_POLICY || "drop"
+  );
+  const maxTeacherFailureRate = parseRate("MAX_TEACHER_FAILURE_RATE", 0.1);
+  const teacherCacheRefresh = process.env.TEACHER_CACHE_REFRESH === "true";
+  const batchDistillationThreshold = parseInt(
+    process.env.BATCH_DISTILLATION_THRESHOLD || "1000",
+    10
+  );
+  const datasetFormat = process.env.DATASET_FORMAT;
+  const promptTemplatesUri = process.env.PROMPT_TEMPLATES_URI;
+  const nearDuplicates: NearDuplicateConfig = {
+    enabled: process.env.NEAR_DUPLICATE_DETECTION !== "false",
+    threshold: parseFloat(process.env.NEAR_DUPLICATE_THRESHOLD || "0.8"),
+    survivorRule: parseSurvivorRule(
+      process.env.NEAR_DUPLICATE_SURVIVOR || "earliest-published"
+    ),
+    canonicalPublications: parseList(process.env.CANONICAL_PUBLICATIONS || ""),
+  };
+  const cleaning: CleaningConfig = {
+    rules: process.env.CLEANING_RULES
+      ? parseCleaningRules(process.env.CLEANING_RULES)
+      : DEFAULT_CLEANING_CONFIG.rules,
+    languages: process.env.CLEANING_LANGUAGES
+      ? parseLanguages(process.env.CLEANING_LANGUAGES)
+      : DEFAULT_CLEANING_CONFIG.languages,
+    minContentWords: parseInt(
+      process.env.MIN_CONTENT_WORDS ||
+        DEFAULT_CLEANING_CONFIG.minContentWords.toString(),
+      10
+    ),
+    maxContentWords: parseInt(
+      process.env.MAX_CONTENT_WORDS ||
+        DEFAULT_CLEANING_CONFIG.maxContentWords.toString(),
+      10
+    ),
+  };
+  const samplingMaxExamples = parseOptionalInt(
+    process.env.SAMPLING_MAX_EXAMPLES
+  );
+  const sampling: SamplingConfig = {
+    maxExamples: samplingMaxExamples,
+    maxPerPublication: parseOptionalInt(
+      process.env.SAMPLING_MAX_PER_PUBLICATION
+    ),
+    publicationQuotas: parsePublicationQuotas(
+      process.env.SAMPLING_PUBLICATION_QUOTAS || "",
+      samplingMaxExamples
+    ),
+    stratifyBy: process.env.SAMPLING_STRATIFY_BY || undefined,
+    timeBucket: process.env.SAMPLING_TIME_BUCKET
+      ? parseTimeBucket(process.env.SAMPLING_TIME_BUCKET)
+      : undefined,
+    seed: process.env.SAMPLING_SEED || "0",
+  };
+  // Strata and time buckets only share out the maximum, so without one
+  // they would silently do nothing
+  for (const name of ["SAMPLING_STRATIFY_BY", "SAMPLING_TIME_BUCKET"]) {
+    if (process.env[name] && samplingMaxExamples === undefined) {
+      throw new Error(`${name} requires SAMPLING_MAX_EXAMPLES`);
+    }
+  }
+  const redaction: RedactionConfig = {
+    detectors: parseRedactionDetectors(
+      process.env.REDACTION_DETECTORS ?? REDACTION_DETECTOR_NAMES.join(","),
+      parseRedactionMode(process.env.REDACTION_MODE || "mask")
+    ),
+    denyListUri: process.env.DENY_LIST_URI,
+    metadataFlags: parseList(
+      process.env.REDACTION_METADATA_FLAGS ?? "legal_hold,embargo_until"
+    ),
+  };
+  const factCheck: FactCheckConfig = {
+    policy: parseFactCheckPolicy(process.env.FACT_CHECK_POLICY || "drop"),
+    judgeBorderline: process.env.FACT_CHECK_JUDGE === "true",
+  };
+  const contentTruncation: ContentTruncationConfig = {
+    strategy: parseTruncationStrategy(
+      process.env.CONTENT_TRUNCATION_STRATEGY || "lead"
+    ),
+    maxTokens: {
+      teacher: parseOptionalInt(process.env.TEACHER_CONTENT_TOKENS),
+      student: parseOptionalInt(process.env.STUDENT_CONTENT_TOKENS),
+    },
+  };
+
+  // Athena configuration - adjust these based on your setup
+  const athenaDatabase = process.env.ATHENA_DATABASE || "default";
+  const athenaTable = process.env.ATHENA_TABLE || "articles";
+  const athenaWorkgroup = process.env.ATHENA_WORKGROUP || "primary";
+  const athenaOutputLocation =
+    process.env.ATHENA_OUTPUT_LOCATION ||
+    `s3://${trainingDataBucket}/athena-results/`;
+  const athenaSchema = parseSchemaMapping(process.env.ATHENA_SCHEMA_MAPPING);
+
+  if (!trainingDataBucket) {
+    throw new Error("TRAINING_DATA_BUCKET environment variable is required");
+  }
+
+  // Throws for an unknown task
+  getTaskDefinition(taskName);
+  validateBedrockNames(
+    taskName,
+    publicationId,
+    trainingRunId,
+    process.env.STAGE || "dev"
+  );
+
+  return {
+    taskName,
+    lookBackDays,
+    publicationId,
+    dataFilters,
+    trainingRunId,
+    executionArn: process.env.EXECUTION_ARN || undefined,
+    executionInput: process.env.EXECUTION_INPUT || undefined,
+    minPromptCount,
+    datasetMode,
+    retention,
+    trainingDataBucket,
+    athenaDatabase,
+    athenaTable,
+    athenaWorkgroup,
+    athenaOutputLocation,
+    athenaSchema,
+    splitRatios,
+    baseModelId,
+    teacherModelId,
+    teacherInferenceParams,
+    teacherRateLimits,
+    teacherFailurePolicy,
+    maxTeacherFailureRate,
+    teacherCacheRefresh,
+    batchDistillationThreshold,
+    datasetFormat,
+    contentTruncation,
+    cleaning,
+    nearDuplicates,
+    sampling,
+    redaction,
+    factCheck,
+    promptTemplatesUri,
+  };
+}
@@ -0,0 +1,199 @@
+import { estimateTokens } from "./token-estimator";
+import { keywordOverlap } from "./evaluation-metrics";
+import { TruncationStrategy } from "./types";
+
+const PARAGRAPH_SEPARATOR = "\n\n";
+// Marks where lead-plus-key skipped paragraphs
+const GAP_MARKER = "[...]";
+
+export interface TruncationOptions {
+  maxTokens: number;
+  strategy?: TruncationStrategy;
+  /**
+   * Paragraphs sharing keywords with the title rank first under
+   * lead-plus-key
+   */
+  title?: string;
+}
+
+export interface TruncatedContent {
+  text: string;
+  keptTokens: number;
+  droppedTokens: number;
+}
+
+/**
+ * Split article text into paragraphs. Cleaned content keeps the line breaks
+ * of the original markup, so every non-empty line counts as a paragraph.
+ */
+export function splitParagraphs(content: string): string[] {
+  return content
+    .split(/\s*\n\s*/)
+    .map((paragraph) => paragraph.trim())
+    .filter((paragraph) => paragraph !== "");
+}
+
+export function splitSentences(paragraph: string): string[] {
+  return paragraph
+    .split(/(?<=[.!?]["'”’)]?)\s+(?=["'“‘(]?[\p{Lu}\p{N}])/u)
+    .filter((sentence) => sentence !== "");
+}
+
+function joinParagraphs(paragraphs: string[]): string {
+  return paragraphs.join(PARAGRAPH_SEPARATOR);
+}
+
+/**
+ * The longest run of whole sentences from the start of the paragraph that
+ * fits the budget
+ */
+function fitSentences(paragraph: string, maxTokens: number): string {
+  let text = "";
+
+  for (const sentence of splitSentences(paragraph)) {
+    const candidate = text ? `${text} ${sentence}` : sentence;
+    if (estimateTokens(candidate) > maxTokens) {
+      break;
+    }
+    text = candidate;
+  }
+
+  return text;
+}
+
+/**
+ * Last resort for an opening sentence longer than the whole budget: cut at
+ * a word boundary, or mid-word if even the first word is too long
+ */
+function fitWords(paragraph: string, maxTokens: number): string {
+  let text = "";
+
+  for (const word of paragraph.split(/\s+/)) {
+    const candidate = text ? `${text} ${word}` : word;
+    if (estimateTokens(`${candidate}...`) > maxTokens) {
+      break;
+    }
+    text = candidate;
+  }
+
+  if (text === "") {
+    text = paragraph;
+    while (text !== "" && estimateTokens(`${text}...`) > maxTokens) {
+      text = text.slice(0, -1);
+    }
+  }
+
+  return text ? `${text}...` : "";
+}
+
+/**
+ * Whole paragraphs from the start, then as many sentences of the next
+ * paragraph as still fit
+ */
+function truncateLead(paragraphs: string[], maxTokens: number): string {
+  const kept: string[] = [];
+
+  for (const paragraph of paragraphs) {
+    const candidate = joinParagraphs([...kept, paragraph]);
+    if (estimateTokens(candidate) <= maxTokens) {
+      kept.push(paragraph);
+      continue;
+    }
+
+    const used = kept.length
+      ? estimateTokens(joinParagraphs(kept) + PARAGRAPH_SEPARATOR)
+      : 0;
+    // Only the opening paragraph is cut mid-sentence, so that some text
+    // always survives
+    const partial =
+      fitSentences(paragraph, maxTokens - used) ||
+      (kept.length === 0 ? fitWords(paragraph, maxTokens) : "");
+    if (partial) {
+      kept.push(partial);
+    }
+    break;
+  }
+
+  return joinParagraphs(kept);
+}
+
+/**
+ * The lead paragraph, then the paragraphs sharing most keywords with the
+ * title, then the rest in article order while the budget lasts. Paragraphs
+ * stay in article order, with a marker where any were skipped.
+ */
+function truncateLeadPlusKey(
+  paragraphs: string[],
+  maxTokens: number,
+  title: string
+): string {
+  const [lead, ...rest] = paragraphs;
+  const leadText = truncateLead([lead], maxTokens);
+
+  if (leadText !== lead) {
+    return leadText;
+  }
+
+  const ranked = rest
+    .map((paragraph, i) => ({
+      index: i + 1,
+      score: title ? keywordOverlap(title, paragraph) : 0,
+    }))
+    .sort((a, b) => b.score - a.score || a.index - b.index);
+
+  const selected = new Map<number, string>([[0, leadText]]);
+  let used = estimateTokens(leadText);
+  // Budget every paragraph as if a gap marker came before it, so the
+  // markers added below never push the result over
+  for (const { index } of ranked) {
+    const cost = estimateTokens(
+      PARAGRAPH_SEPARATOR + GAP_MARKER + PARAGRAPH_SEPARATOR + paragraphs[index]
+    );
+    if (used + cost <= maxTokens) {
+      selected.set(index, paragraphs[index]);
+      used += cost;
+    }
+  }
+
+  const indexes = Array.from(selected.keys()).sort((a, b) => a - b);
+  const parts: string[] = [];
+  indexes.forEach((index, i) => {
+    if (i > 0 && index !== indexes[i - 1] + 1) {
+      parts.push(GAP_MARKER);
+    }
+    parts.push(selected.get(index) as string);
+  });
+
+  return joinParagraphs(parts);
+}
+
+/**
+ * Cut article text to a token budget at paragraph or sentence boundaries
+ */
+export function truncateContent(
+  content: string,
+  options: TruncationOptions
+): TruncatedContent {
+  const totalTokens = estimateTokens(content);
+  const paragraphs = splitParagraphs(content);
+  let text: string;
+
+  if (totalTokens <= options.maxTokens || paragraphs.length === 0) {
+    text = content;
+  } else if (options.strategy === "lead-plus-key") {
+    text = truncateLeadPlusKey(
+      paragraphs,
+      options.maxTokens,
+      options.title || ""
+    );
+  } else {
+    text = truncateLead(paragraphs, options.maxTokens);
+  }
+
+  const keptTokens = estimateTokens(text);
+  return {
+    text,
+    keptTokens,
+    droppedTokens: Math.max(0, totalTokens - keptTokens),
+  };
+}
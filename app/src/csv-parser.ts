@@ -0,0 +1,111 @@
+/**
+ * Incremental RFC 4180 CSV parser. Quoted fields may contain commas,
+ * escaped quotes ("") and line breaks, and may be split across chunks.
+ */
+export class CsvParser {
+  private rows: string[][] = [];
+  private row: string[] = [];
+  private field = "";
+  private inQuotes = false;
+  // A quote or carriage return ending a chunk needs the next character to
+  // decide what it means
+  private carry = "";
+
+  /**
+   * Feed the next chunk of text and take the rows it completed
+   */
+  push(chunk: string): string[][] {
+    this.parse(this.carry + chunk, false);
+    return this.takeRows();
+  }
+
+  /**
+   * Finish the input and take the remaining rows
+   */
+  end(): string[][] {
+    this.parse(this.carry, true);
+    if (this.field !== "" || this.row.length > 0) {
+      this.endRow();
+    }
+    return this.takeRows();
+  }
+
+  private parse(text: string, final: boolean): void {
+    this.carry = "";
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      const isLast = i === text.length - 1;
+
+      if (
+        !final &&
+        isLast &&
+        ((this.inQuotes && char === '"') || (!this.inQuotes && char === "\r"))
+      ) {
+        this.carry = char;
+        return;
+      }
+
+      if (this.inQuotes) {
+        if (char === '"' && text[i + 1] === '"') {
+          this.field += '"';
+          i++;
+        } else if (char === '"') {
+          this.inQuotes = false;
+        } else {
+          this.field += char;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        this.inQuotes = true;
+      } else if (char === ",") {
+        this.row.push(this.field);
+        this.field = "";
+      } else if (char === "\n" || char === "\r") {
+        if (char === "\r" && text[i + 1] === "\n") {
+          i++;
+        }
+        this.endRow();
+      } else {
+        this.field += char;
+      }
+    }
+  }
+
+  private endRow(): void {
+    this.row.push(this.field);
+    this.rows.push(this.row);
+    this.row = [];
+    this.field = "";
+  }
+
+  private takeRows(): string[][] {
+    const rows = this.rows;
+    this.rows = [];
+    return rows;
+  }
+}
+
+/**
+ * Parse RFC 4180 CSV text into rows of fields
+ */
+export function parseCsv(text: string): string[][] {
+  const parser = new CsvParser();
+  return [...parser.push(text), ...parser.end()];
+}
+
+/**
+ * Parse a stream of CSV text chunks, yielding rows as they complete
+ */
+export async function* parseCsvStream(
+  chunks: AsyncIterable<string>
+): AsyncGenerator<string[]> {
+  const parser = new CsvParser();
+
+  for await (const chunk of chunks) {
+    yield* parser.push(chunk);
+  }
+  yield* parser.end();
+}
@@ -1,161 +1,273 @@
-import { convert } from "html-to-text";
-import { TrainingExample, PromptExample } from "./types";
+import {
+  TrainingExample,
+  PromptExample,
+  NearDuplicateConfig,
+  CleaningConfig,
+  CleaningRuleCounts,
+} from "./types";
+import { TaskDefinition, getTarget } from "./task-definitions";
+import { PromptTemplateSet } from "./prompt-templates";
+import { NearDuplicateCluster, removeNearDuplicates } from "./near-duplicates";
+import {
+  CleaningRule,
+  DEFAULT_CLEANING_CONFIG,
+  createCleaningRules,
+} from "./cleaning-rules";
 
-export class DataCleaner {
-  private seenArticleIds: Set<string> = new Set();
+const NEAR_DUPLICATE_RULE = "near-duplicates";
 
+export interface DataCleanerConfig {
+  /**
+   * Rules to run and their settings, otherwise all rules with defaults
+   */
+  cleaning?: CleaningConfig;
   /**
-   * Clean and validate training examples
+   * Task whose target field every kept article must have
    */
-  cleanExamples(examples: TrainingExample[]): TrainingExample[] {
-    console.log(`Starting cleaning process for ${examples.length} examples`);
+  task?: TaskDefinition;
+  /**
+   * Content-based detection of syndicated and republished copies; off when
+   * omitted
+   */
+  nearDuplicates?: NearDuplicateConfig;
+}
 
-    // Step 1: Remove null/empty values
-    let cleaned = this.removeNulls(examples);
-    console.log(`After null removal: ${cleaned.length} examples`);
+/**
+ * An article a cleaning rule dropped, as listed in the rejection report
+ */
+export interface CleaningRejection {
+  articleId: string;
+  publication: string;
+  publishedDate: string;
+  title: string;
+  rule: string;
+  reason: string;
+  detail?: string;
+}
 
-    // Step 2: Strip HTML
-    cleaned = this.stripHtml(cleaned);
-    console.log(`After HTML stripping: ${cleaned.length} examples`);
+export interface CleaningReport {
+  input: number;
+  kept: number;
+  /**
+   * Counts per rule, in the order the rules ran
+   */
+  rules: Record<string, CleaningRuleCounts>;
+  rejections: CleaningRejection[];
+}
 
-    // Step 3: Filter duplicates
-    cleaned = this.filterDuplicates(cleaned);
-    console.log(`After duplicate filtering: ${cleaned.length} examples`);
+export class DataCleaner {
+  private cleaning: CleaningConfig;
+  private task?: TaskDefinition;
+  private nearDuplicates?: NearDuplicateConfig;
+  private nearDuplicateClusters: NearDuplicateCluster[] = [];
+  private report: CleaningReport = {
+    input: 0,
+    kept: 0,
+    rules: {},
+    rejections: [],
+  };
 
-    // Step 4: Validate entities and quotes
-    cleaned = this.validateEntitiesAndQuotes(cleaned);
-    console.log(`After entity/quote validation: ${cleaned.length} examples`);
+  constructor(config: DataCleanerConfig = {}) {
+    this.cleaning = config.cleaning || DEFAULT_CLEANING_CONFIG;
+    this.task = config.task;
+    this.nearDuplicates = config.nearDuplicates;
+  }
 
-    return cleaned;
+  /**
+   * Groups of near-duplicates found by the last cleanExamples call
+   */
+  getNearDuplicateClusters(): NearDuplicateCluster[] {
+    return this.nearDuplicateClusters;
   }
 
   /**
-   * Remove examples with null or empty values
+   * Why articles were dropped or changed by the last cleanExamples call
    */
-  private removeNulls(examples: TrainingExample[]): TrainingExample[] {
-    return examples.filter(
-      (example) =>
-        example.articleId &&
-        example.title &&
-        example.content &&
-        example.title.trim() !== "" &&
-        example.content.trim() !== "" &&
-        example.publication &&
-        example.publishedDate
-    );
+  getReport(): CleaningReport {
+    return this.report;
   }
 
   /**
-   * Strip HTML markup from content
+   * Run each article through the cleaning rules in order as it arrives,
+   * then remove near-duplicates among the survivors. Only survivors are
+   * held in memory.
    */
-  private stripHtml(examples: TrainingExample[]): TrainingExample[] {
-    const htmlToTextOptions = {
-      wordwrap: null,
-      preserveNewlines: true,
-      selectors: [
-        { selector: "img", format: "skip" },
-        { selector: "a", options: { ignoreHref: true } },
-      ],
+  async cleanExamples(
+    examples: AsyncIterable<TrainingExample> | Iterable<TrainingExample>
+  ): Promise<TrainingExample[]> {
+    console.log("Starting cleaning process");
+    this.report = {
+      input: 0,
+      kept: 0,
+      rules: {},
+      rejections: [],
     };
 
-    return examples.map((example) => ({
-      ...example,
-      title: convert(example.title, htmlToTextOptions).trim(),
-      content: convert(example.content, htmlToTextOptions).trim(),
-    }));
+    const rules = createCleaningRules(this.cleaning, this.task);
+    for (const rule of rules) {
+      this.countsFor(rule.name);
+    }
+
+    let cleaned: TrainingExample[] = [];
+    for await (const example of examples) {
+      this.report.input++;
+      const result = this.applyRules(example, rules);
+      if (result) {
+        cleaned.push(result);
+      }
+    }
+
+    let remaining = this.report.input;
+    for (const rule of rules) {
+      const counts = this.report.rules[rule.name];
+      remaining -= counts.dropped;
+      console.log(
+        `After ${rule.name}: ${remaining} examples (${counts.dropped} dropped, ${counts.transformed} changed)`
+      );
+    }
+
+    cleaned = this.filterNearDuplicates(cleaned);
+    console.log(`After near-duplicate filtering: ${cleaned.length} examples`);
+
+    this.report.kept = cleaned.length;
+    return cleaned;
   }
 
   /**
-   * Filter duplicate examples based on article ID
+   * The article as the rules leave it, or undefined when one drops it
    */
-  private filterDuplicates(examples: TrainingExample[]): TrainingExample[] {
-    this.seenArticleIds.clear();
-    const unique: TrainingExample[] = [];
-
-    for (const example of examples) {
-      if (!this.seenArticleIds.has(example.articleId)) {
-        this.seenArticleIds.add(example.articleId);
-        unique.push(example);
+  private applyRules(
+    example: TrainingExample,
+    rules: CleaningRule[]
+  ): TrainingExample | undefined {
+    let current = example;
+
+    for (const rule of rules) {
+      const counts = this.report.rules[rule.name];
+      const outcome = rule.apply(current);
+      counts.checked++;
+
+      if (outcome.action === "keep") {
+        continue;
+      }
+
+      counts.reasons[outcome.reason] =
+        (counts.reasons[outcome.reason] || 0) + 1;
+      if (outcome.action === "transform") {
+        counts.transformed++;
+        current = outcome.example;
+      } else {
+        counts.dropped++;
+        this.reject(current, rule.name, outcome.reason, outcome.detail);
+        return undefined;
       }
     }
 
-    return unique;
+    return current;
+  }
+
+  private countsFor(rule: string): CleaningRuleCounts {
+    if (!this.report.rules[rule]) {
+      this.report.rules[rule] = {
+        checked: 0,
+        dropped: 0,
+        transformed: 0,
+        reasons: {},
+      };
+    }
+    return this.report.rules[rule];
+  }
+
+  private reject(
+    example: TrainingExample,
+    rule: string,
+    reason: string,
+    detail?: string
+  ): void {
+    this.report.rejections.push({
+      articleId: example.articleId,
+      publication: example.publication,
+      publishedDate: example.publishedDate,
+      title: example.title,
+      rule,
+      reason,
+      ...(detail ? { detail } : {}),
+    });
   }
 
   /**
-   * Validate entities and quotes for factual consistency
+   * Filter syndicated, republished and lightly edited copies that arrive
+   * under different article IDs, keeping one copy per group
    */
-  private validateEntitiesAndQuotes(
-    examples: TrainingExample[]
-  ): TrainingExample[] {
-    return examples.filter((example) => {
-      // Basic validation: check for balanced quotes
-      const quoteCount =
-        (example.title.match(/"/g) || []).length +
-        (example.content.match(/"/g) || []).length;
-      if (quoteCount % 2 !== 0) {
-        console.warn(
-          `Unbalanced quotes detected in example: ${example.title.substring(
-            0,
-            50
-          )}`
-        );
-        // You can choose to exclude or include - for now we'll include but log
-      }
+  private filterNearDuplicates(examples: TrainingExample[]): TrainingExample[] {
+    this.nearDuplicateClusters = [];
 
-      // Check for minimum content length
-      if (example.content.length < 50 || example.title.length < 5) {
-        return false;
-      }
+    if (!this.nearDuplicates?.enabled) {
+      return examples;
+    }
 
-      // Check for suspicious patterns (all caps, too many special chars, etc.)
-      const allCapsRatio =
-        (example.title.match(/[A-Z]/g) || []).length / example.title.length;
-      if (allCapsRatio > 0.8 && example.title.length > 20) {
-        return false; // Likely a spam/noise entry
+    const { kept, clusters } = removeNearDuplicates(
+      examples,
+      this.nearDuplicates
+    );
+    this.nearDuplicateClusters = clusters;
+
+    const counts = this.countsFor(NEAR_DUPLICATE_RULE);
+    counts.checked = examples.length;
+    const byId = new Map(
+      examples.map((example) => [example.articleId, example])
+    );
+    for (const cluster of clusters) {
+      for (const removed of cluster.removed) {
+        counts.dropped++;
+        counts.reasons["near-duplicate"] = counts.dropped;
+        this.reject(
+          byId.get(removed.articleId) as TrainingExample,
+          NEAR_DUPLICATE_RULE,
+          "near-duplicate",
+          `${removed.similarity.toFixed(2)} similar to ${
+            cluster.survivor.articleId
+          }`
+        );
       }
+    }
 
-      return true;
-    });
+    if (clusters.length > 0) {
+      console.log(
+        `Removed ${examples.length - kept.length} near-duplicates in ${
+          clusters.length
+        } clusters`
+      );
+    }
+    return kept;
   }
 
   /**
-   * Transform cleaned examples into prompt format for training
+   * Transform cleaned examples into prompt format for training, using the
+   * human-written output as the completion
    */
-  transformToPrompts(examples: TrainingExample[]): PromptExample[] {
+  transformToPrompts(
+    examples: TrainingExample[],
+    task: TaskDefinition,
+    prompts: PromptTemplateSet
+  ): PromptExample[] {
     return examples.map((example, index) => {
-      // Create a structured prompt based on the journalism use case
-      // Adjust this format based on your specific needs
-      const prompt = this.createPrompt(example);
-      const completion = this.createCompletion(example);
+      const prompt = prompts.render("student", example);
 
       return {
-        prompt,
-        completion,
+        prompt: prompt.text,
+        completion: getTarget(task, example) || "",
         metadata: {
           articleId: example.articleId,
           publication: example.publication,
           publishedDate: example.publishedDate,
           exampleIndex: index,
+          task: task.name,
+          promptTemplates: { student: prompt.template },
+          contentTokens: { student: prompt.contentTokens },
           ...example.metadata,
         },
       };
     });
   }
-
-  private createPrompt(example: TrainingExample): string {
-    // Format: Instructions + context
-    return `Generate a headline for the following article:
-
-Article content:
-${example.content.substring(0, 500)}...
-
-Publication: ${example.publication}
-Style requirements: Editorial quality, SEO-optimized, engaging`;
-  }
-
-  private createCompletion(example: TrainingExample): string {
-    // The expected output (the actual headline)
-    return example.title;
-  }
 }
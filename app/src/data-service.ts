@@ -2,53 +2,76 @@ import {
   AthenaClient,
   StartQueryExecutionCommand,
   GetQueryExecutionCommand,
-  GetQueryResultsCommand,
   QueryExecutionState,
 } from "@aws-sdk/client-athena";
-import { TrainingExample, TrainingConfig } from "./types";
+import { parseCsvStream } from "./csv-parser";
+import { S3ObjectStore } from "./object-store";
+import {
+  buildTrainingDataQuery,
+  lookBackStartDate,
+  QueryColumn,
+} from "./athena-query-builder";
+import {
+  DataSourceLineage,
+  QuarantinedRow,
+  TrainingExample,
+  TrainingConfig,
+  TrainingDataSource,
+} from "./types";
 
-export class DataService {
+const EXCERPT_LENGTH = 200;
+
+/**
+ * Queries articles with Athena and streams them from the query's result CSV
+ * in S3, so large windows are never held in memory at once
+ */
+export class DataService implements TrainingDataSource {
   private athenaClient: AthenaClient;
+  private region: string;
+  private quarantine: QuarantinedRow[] = [];
+  private lineage: DataSourceLineage = {};
 
   constructor(region: string) {
     this.athenaClient = new AthenaClient({ region });
+    this.region = region;
   }
 
-  async queryTrainingData(config: TrainingConfig): Promise<TrainingExample[]> {
-    const lookBackDate = new Date();
-    lookBackDate.setDate(lookBackDate.getDate() - config.lookBackDays);
-
-    // Build SQL query - adjust based on your actual Athena schema
-    let query = `
-      SELECT 
-        article_id as articleId,
-        title,
-        content,
-        publication_id as publication,
-        published_date as publishedDate,
-        metadata
-      FROM ${config.athenaDatabase}.${config.athenaTable}
-      WHERE published_date >= DATE('${
-        lookBackDate.toISOString().split("T")[0]
-      }')
-        AND content IS NOT NULL
-        AND title IS NOT NULL
-        AND content != ''
-        AND title != ''
-    `;
-
-    // Add publication filter if specified
-    if (config.publicationId) {
-      query += ` AND publication_id = '${config.publicationId}'`;
-    }
+  getQuarantinedRows(): QuarantinedRow[] {
+    return this.quarantine;
+  }
+
+  getLineage(): DataSourceLineage {
+    return this.lineage;
+  }
 
-    query += ` ORDER BY published_date DESC`;
+  async *queryTrainingData(
+    config: TrainingConfig
+  ): AsyncIterable<TrainingExample> {
+    this.quarantine = [];
+    this.lineage = {};
+    const { sql, parameters, columns } = buildTrainingDataQuery({
+      database: config.athenaDatabase,
+      table: config.athenaTable,
+      schema: config.athenaSchema,
+      filters: {
+        ...config.dataFilters,
+        startDate:
+          config.dataFilters.startDate ||
+          lookBackStartDate(config.lookBackDays),
+      },
+    });
 
-    console.log(`Executing Athena query: ${query}`);
+    console.log(
+      `Executing Athena query with parameters ${JSON.stringify(
+        parameters
+      )}:\n${sql}`
+    );
 
     // Start query execution
     const startCommand = new StartQueryExecutionCommand({
-      QueryString: query,
+      QueryString: sql,
+      // The API rejects an empty parameter list
+      ExecutionParameters: parameters.length > 0 ? parameters : undefined,
       QueryExecutionContext: {
         Database: config.athenaDatabase,
       },
@@ -66,22 +89,28 @@ export class DataService {
     }
 
     console.log(`Query execution started: ${queryExecutionId}`);
+    this.lineage = { queryExecutionId, sql, parameters };
 
     // Wait for query to complete
-    await this.waitForQueryCompletion(queryExecutionId);
-
-    // Get query results
-    const results = await this.getQueryResults(queryExecutionId);
+    const resultLocation = await this.waitForQueryCompletion(queryExecutionId);
+    this.lineage.uri = resultLocation;
 
-    console.log(`Retrieved ${results.length} examples from Athena`);
+    // Stream the results
+    let count = 0;
+    for await (const example of this.readResults(resultLocation, columns)) {
+      count++;
+      yield example;
+    }
 
-    return results;
+    console.log(
+      `Retrieved ${count} examples from Athena (${this.quarantine.length} rows quarantined)`
+    );
   }
 
   private async waitForQueryCompletion(
     queryExecutionId: string,
     maxWaitTime: number = 300000
-  ): Promise<void> {
+  ): Promise<string> {
     const startTime = Date.now();
 
     while (Date.now() - startTime < maxWaitTime) {
@@ -93,7 +122,12 @@ export class DataService {
       const state = response.QueryExecution?.Status?.State;
 
       if (state === QueryExecutionState.SUCCEEDED) {
-        return;
+        const location =
+          response.QueryExecution?.ResultConfiguration?.OutputLocation;
+        if (!location) {
+          throw new Error(`Query execution ${queryExecutionId} has no results`);
+        }
+        return location;
       }
 
       if (
@@ -112,48 +146,119 @@ export class DataService {
     throw new Error("Query execution timeout");
   }
 
-  private async getQueryResults(
-    queryExecutionId: string
-  ): Promise<TrainingExample[]> {
-    const results: TrainingExample[] = [];
-    let nextToken: string | undefined;
+  /**
+   * Read the result CSV row by row, mapping columns by header name.
+   * Malformed rows are quarantined rather than failing the run.
+   */
+  private async *readResults(
+    resultLocation: string,
+    columns: QueryColumn[]
+  ): AsyncIterable<TrainingExample> {
+    const match = resultLocation.match(/^s3:\/\/([^/]+)\/(.+)$/);
+    if (!match) {
+      throw new Error(`Unexpected Athena result location ${resultLocation}`);
+    }
 
-    do {
-      const command = new GetQueryResultsCommand({
-        QueryExecutionId: queryExecutionId,
-        NextToken: nextToken,
-      });
+    const store = new S3ObjectStore(this.region, match[1]);
+    let header: string[] | undefined;
+    let indexes: number[] = [];
+    let rowNumber = 0;
 
-      const response = await this.athenaClient.send(command);
-      const rows = response.ResultSet?.Rows || [];
-
-      // Skip header row
-      for (let i = 1; i < rows.length; i++) {
-        const row = rows[i];
-        const data = row.Data || [];
-
-        if (data.length >= 5) {
-          const example: TrainingExample = {
-            articleId: this.extractValue(data[0]),
-            title: this.extractValue(data[1]),
-            content: this.extractValue(data[2]),
-            publication: this.extractValue(data[3]),
-            publishedDate: this.extractValue(data[4]),
-            metadata: data[5]
-              ? JSON.parse(this.extractValue(data[5]) || "{}")
-              : {},
-          };
-          results.push(example);
-        }
+    for await (const row of parseCsvStream(store.streamObject(match[2]))) {
+      if (!header) {
+        header = row.map((name) => name.toLowerCase());
+        indexes = this.mapColumns(header, columns);
+        continue;
       }
 
-      nextToken = response.NextToken;
-    } while (nextToken);
+      rowNumber++;
+      const example = this.toExample(
+        row,
+        rowNumber,
+        header.length,
+        columns,
+        indexes
+      );
+      if (example) {
+        yield example;
+      }
+    }
+  }
 
-    return results;
+  /**
+   * Index in the header of each selected column. Athena reports column
+   * names in lower case.
+   */
+  private mapColumns(header: string[], columns: QueryColumn[]): number[] {
+    return columns.map(({ column }) => {
+      const index = header.indexOf(column.toLowerCase());
+      if (index === -1) {
+        throw new Error(
+          `Athena results have no "${column}" column (got ${header.join(", ")})`
+        );
+      }
+      return index;
+    });
   }
 
-  private extractValue(data: { VarCharValue?: string }): string {
-    return data.VarCharValue || "";
+  private toExample(
+    row: string[],
+    rowNumber: number,
+    expectedFields: number,
+    columns: QueryColumn[],
+    indexes: number[]
+  ): TrainingExample | undefined {
+    const articleIdIndex = columns.findIndex(
+      (column) => column.field === "articleId"
+    );
+    const quarantine = (reason: string, detail: string) => {
+      this.quarantine.push({
+        row: rowNumber,
+        reason,
+        detail,
+        ...(row[indexes[articleIdIndex]]
+          ? { articleId: row[indexes[articleIdIndex]] }
+          : {}),
+        excerpt: row.join(",").slice(0, EXCERPT_LENGTH),
+      });
+      return undefined;
+    };
+
+    if (row.length !== expectedFields) {
+      return quarantine(
+        "field-count",
+        `${row.length} fields, expected ${expectedFields}`
+      );
+    }
+
+    const example: TrainingExample = {
+      articleId: "",
+      title: "",
+      content: "",
+      publication: "",
+      publishedDate: "",
+      metadata: {},
+    };
+    const metadataKeys: Record<string, string> = {};
+
+    for (let i = 0; i < columns.length; i++) {
+      const column = columns[i];
+      const value = row[indexes[i]];
+
+      if (column.field === "metadata") {
+        try {
+          example.metadata = JSON.parse(value || "{}");
+        } catch (error) {
+          return quarantine("invalid-metadata", (error as Error).message);
+        }
+      } else if (column.field === "metadataKey") {
+        metadataKeys[column.key] = value;
+      } else {
+        example[column.field] = value;
+      }
+    }
+
+    example.metadata = { ...example.metadata, ...metadataKeys };
+    return example;
   }
 }
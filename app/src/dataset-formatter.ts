@@ -0,0 +1,252 @@
+import { estimateTokens } from "./token-estimator";
+import { ConfigError, DatasetValidationError } from "./errors";
+import { PromptExample, DatasetSplitName, DatasetSplits } from "./types";
+
+export type ModelFamily = "claude" | "nova" | "llama" | "titan" | "cohere";
+
+/**
+ * Bedrock fine-tuning quotas for a model family. These are the documented
+ * defaults; raise them if your account has higher quotas.
+ */
+export interface DatasetLimits {
+  maxTrainingRecords: number;
+  maxValidationRecords: number;
+  maxRecordTokens: number;
+  maxFileSizeBytes: number;
+}
+
+export type ParsedRecord = Pick<
+  PromptExample,
+  "system" | "prompt" | "completion"
+>;
+
+export interface DatasetFormatter {
+  family: ModelFamily;
+  limits: DatasetLimits;
+  formatRecord(prompt: PromptExample): Record<string, any>;
+  /**
+   * Read a formatted record back, e.g. to evaluate the held-out test split
+   */
+  parseRecord(record: Record<string, any>): ParsedRecord;
+}
+
+const GIB = 1024 * 1024 * 1024;
+
+/**
+ * `{prompt, completion}` records used by Titan and Cohere text models
+ */
+class PromptCompletionFormatter implements DatasetFormatter {
+  family: ModelFamily;
+  limits: DatasetLimits;
+
+  constructor(family: ModelFamily, limits: DatasetLimits) {
+    this.family = family;
+    this.limits = limits;
+  }
+
+  formatRecord(prompt: PromptExample): Record<string, any> {
+    return {
+      prompt: prompt.system
+        ? `${prompt.system}\n\n${prompt.prompt}`
+        : prompt.prompt,
+      completion: prompt.completion,
+    };
+  }
+
+  parseRecord(record: Record<string, any>): ParsedRecord {
+    return { prompt: record.prompt, completion: record.completion };
+  }
+}
+
+/**
+ * Claude messages format: `{system, messages: [{role, content}]}`
+ */
+class ClaudeMessagesFormatter implements DatasetFormatter {
+  family: ModelFamily = "claude";
+  limits: DatasetLimits;
+
+  constructor(limits: DatasetLimits) {
+    this.limits = limits;
+  }
+
+  formatRecord(prompt: PromptExample): Record<string, any> {
+    return {
+      ...(prompt.system ? { system: prompt.system } : {}),
+      messages: [
+        { role: "user", content: prompt.prompt },
+        { role: "assistant", content: prompt.completion },
+      ],
+    };
+  }
+
+  parseRecord(record: Record<string, any>): ParsedRecord {
+    return {
+      system: record.system,
+      prompt: record.messages[0].content,
+      completion: record.messages[1].content,
+    };
+  }
+}
+
+/**
+ * Bedrock conversation schema used by Nova and Llama 3 customization
+ */
+class ConversationFormatter implements DatasetFormatter {
+  family: ModelFamily;
+  limits: DatasetLimits;
+
+  constructor(family: ModelFamily, limits: DatasetLimits) {
+    this.family = family;
+    this.limits = limits;
+  }
+
+  formatRecord(prompt: PromptExample): Record<string, any> {
+    return {
+      schemaVersion: "bedrock-conversation-2024",
+      ...(prompt.system ? { system: [{ text: prompt.system }] } : {}),
+      messages: [
+        { role: "user", content: [{ text: prompt.prompt }] },
+        { role: "assistant", content: [{ text: prompt.completion }] },
+      ],
+    };
+  }
+
+  parseRecord(record: Record<string, any>): ParsedRecord {
+    return {
+      system: record.system?.[0]?.text,
+      prompt: record.messages[0].content[0].text,
+      completion: record.messages[1].content[0].text,
+    };
+  }
+}
+
+const FAMILY_PATTERNS: [RegExp, ModelFamily][] = [
+  [/anthropic\.claude/, "claude"],
+  [/amazon\.nova/, "nova"],
+  [/meta\.llama/, "llama"],
+  [/amazon\.titan/, "titan"],
+  [/cohere\.command/, "cohere"],
+];
+
+/**
+ * Work out the model family from a base model ID or ARN. An explicit
+ * family (DATASET_FORMAT) takes precedence. Throws a ConfigError, which is
+ * not retried, if neither gives a supported family.
+ */
+export function resolveModelFamily(
+  baseModelId: string,
+  override?: string
+): ModelFamily {
+  if (override) {
+    if (!FAMILY_PATTERNS.some(([, family]) => family === override)) {
+      throw new ConfigError(`Unsupported dataset format "${override}"`);
+    }
+    return override as ModelFamily;
+  }
+
+  const match = FAMILY_PATTERNS.find(([pattern]) => pattern.test(baseModelId));
+
+  if (!match) {
+    throw new ConfigError(
+      `Cannot determine dataset format for base model "${baseModelId}", set BEDROCK_BASE_MODEL_ARN or DATASET_FORMAT`
+    );
+  }
+
+  return match[1];
+}
+
+export function createDatasetFormatter(family: ModelFamily): DatasetFormatter {
+  switch (family) {
+    case "claude":
+      return new ClaudeMessagesFormatter({
+        maxTrainingRecords: 10000,
+        maxValidationRecords: 1000,
+        maxRecordTokens: 32000,
+        maxFileSizeBytes: 10 * GIB,
+      });
+    case "nova":
+      return new ConversationFormatter(family, {
+        maxTrainingRecords: 20000,
+        maxValidationRecords: 1000,
+        maxRecordTokens: 32000,
+        maxFileSizeBytes: 10 * GIB,
+      });
+    case "llama":
+      return new ConversationFormatter(family, {
+        maxTrainingRecords: 10000,
+        maxValidationRecords: 1000,
+        maxRecordTokens: 16000,
+        maxFileSizeBytes: 10 * GIB,
+      });
+    case "titan":
+    case "cohere":
+      return new PromptCompletionFormatter(family, {
+        maxTrainingRecords: 10000,
+        maxValidationRecords: 1000,
+        maxRecordTokens: 4096,
+        maxFileSizeBytes: 1 * GIB,
+      });
+  }
+}
+
+export type FormattedSplits = Record<DatasetSplitName, string[]>;
+
+/**
+ * Serialize every split to JSONL lines in the formatter's schema and check
+ * the result against the model's limits. Throws listing every violation so
+ * nothing invalid is uploaded.
+ */
+export function formatDataset(
+  splits: DatasetSplits,
+  formatter: DatasetFormatter
+): FormattedSplits {
+  const { limits } = formatter;
+  const violations: string[] = [];
+  const formatted = {} as FormattedSplits;
+
+  for (const name of Object.keys(splits) as DatasetSplitName[]) {
+    formatted[name] = splits[name].map((prompt, index) => {
+      const line = JSON.stringify(formatter.formatRecord(prompt));
+      const tokens = estimateTokens(
+        `${prompt.system || ""}${prompt.prompt}${prompt.completion}`
+      );
+
+      if (tokens > limits.maxRecordTokens) {
+        violations.push(
+          `${name} record ${index} (article ${prompt.metadata?.articleId}) has ~${tokens} tokens, limit is ${limits.maxRecordTokens}`
+        );
+      }
+
+      return line;
+    });
+
+    const sizeBytes = Buffer.byteLength(formatted[name].join("\n"));
+    if (sizeBytes > limits.maxFileSizeBytes) {
+      violations.push(
+        `${name} file is ${sizeBytes} bytes, limit is ${limits.maxFileSizeBytes}`
+      );
+    }
+  }
+
+  if (formatted.train.length > limits.maxTrainingRecords) {
+    violations.push(
+      `${formatted.train.length} training records, ${formatter.family} allows at most ${limits.maxTrainingRecords}`
+    );
+  }
+
+  if (formatted.validation.length > limits.maxValidationRecords) {
+    violations.push(
+      `${formatted.validation.length} validation records, ${formatter.family} allows at most ${limits.maxValidationRecords}`
+    );
+  }
+
+  if (violations.length > 0) {
+    throw new DatasetValidationError(
+      `Dataset does not meet ${formatter.family} limits:\n${violations.join(
+        "\n"
+      )}`
+    );
+  }
+
+  return formatted;
+}
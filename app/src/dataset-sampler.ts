@@ -0,0 +1,268 @@
+import { hashToUnitInterval } from "./hash-utils";
+import { SamplingConfig, TimeBucket, TrainingExample } from "./types";
+
+const NO_VALUE = "(none)";
+
+/**
+ * Articles per value of one dimension, before and after sampling
+ */
+export type SamplingHistogram = Record<
+  string,
+  { before: number; after: number }
+>;
+
+export interface SamplingReport {
+  input: number;
+  kept: number;
+  droppedByPublicationCap: number;
+  droppedByMaxExamples: number;
+  /**
+   * By publication, by time bucket (month unless configured) and by the
+   * stratification key
+   */
+  histograms: Record<string, SamplingHistogram>;
+}
+
+function getTimeBucket(publishedDate: string, bucket: TimeBucket): string {
+  const date = new Date(publishedDate);
+  if (isNaN(date.getTime())) {
+    return NO_VALUE;
+  }
+
+  if (bucket === "week") {
+    // Weeks are named by their Monday
+    date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  }
+  return date.toISOString().substring(0, bucket === "month" ? 7 : 10);
+}
+
+/**
+ * Share a budget out between groups in proportion to their weights, giving
+ * what a full group cannot take to the others. Leftover single examples go
+ * to groups in the order given.
+ */
+function shareOut(
+  budget: number,
+  sizes: number[],
+  weights: number[]
+): number[] {
+  const counts = sizes.map(() => 0);
+  let remaining = budget;
+  let open = sizes
+    .map((_, i) => i)
+    .filter((i) => sizes[i] > 0 && weights[i] > 0);
+
+  while (remaining > 0 && open.length > 0) {
+    const totalWeight = open.reduce((sum, i) => sum + weights[i], 0);
+    const available = remaining;
+
+    for (const i of open) {
+      const share = Math.max(
+        1,
+        Math.floor((available * weights[i]) / totalWeight)
+      );
+      const added = Math.min(share, sizes[i] - counts[i], remaining);
+      counts[i] += added;
+      remaining -= added;
+    }
+    open = open.filter((i) => counts[i] < sizes[i]);
+  }
+
+  return counts;
+}
+
+/**
+ * Picks the articles a run distils, so that the largest publication and the
+ * most recent days do not dominate the dataset. Articles are taken in a
+ * random order fixed by the seed, so the same input and config always give
+ * the same sample.
+ */
+export class DatasetSampler {
+  private config: SamplingConfig;
+  private report?: SamplingReport;
+
+  constructor(config: SamplingConfig) {
+    this.config = config;
+  }
+
+  /**
+   * The sampled articles, in input order
+   */
+  sample(examples: TrainingExample[]): TrainingExample[] {
+    const priorities = new Map(
+      examples.map((example) => [
+        example,
+        hashToUnitInterval(`${this.config.seed}:${example.articleId}`),
+      ])
+    );
+    const ranked = [...examples].sort(
+      (a, b) => (priorities.get(a) ?? 0) - (priorities.get(b) ?? 0)
+    );
+
+    const capped = this.capPublications(ranked);
+    const { maxExamples } = this.config;
+    const picked =
+      maxExamples !== undefined && capped.length > maxExamples
+        ? this.shareOutMaxExamples(capped, maxExamples)
+        : capped;
+
+    const pickedSet = new Set(picked);
+    const sampled = examples.filter((example) => pickedSet.has(example));
+
+    this.report = {
+      input: examples.length,
+      kept: sampled.length,
+      droppedByPublicationCap: examples.length - capped.length,
+      droppedByMaxExamples: capped.length - picked.length,
+      histograms: this.buildHistograms(examples, sampled),
+    };
+    console.log(
+      `Sampled ${sampled.length} of ${examples.length} examples (${this.report.droppedByPublicationCap} over the publication cap, ${this.report.droppedByMaxExamples} over the maximum)`
+    );
+
+    return sampled;
+  }
+
+  getReport(): SamplingReport | undefined {
+    return this.report;
+  }
+
+  private capPublications(ranked: TrainingExample[]): TrainingExample[] {
+    const { maxPerPublication } = this.config;
+    if (maxPerPublication === undefined) {
+      return ranked;
+    }
+
+    const counts = new Map<string, number>();
+    return ranked.filter((example) => {
+      const count = counts.get(example.publication) ?? 0;
+      counts.set(example.publication, count + 1);
+      return count < maxPerPublication;
+    });
+  }
+
+  /**
+   * Share `maxExamples` between publications by their quotas, then each
+   * publication's share equally between its strata
+   */
+  private shareOutMaxExamples(
+    ranked: TrainingExample[],
+    maxExamples: number
+  ): TrainingExample[] {
+    const quotas = this.config.publicationQuotas;
+    const byPublication = this.groupBy(ranked, (example) =>
+      Object.keys(quotas).length > 0 ? example.publication : ""
+    );
+
+    const unlisted = Array.from(byPublication.keys()).filter(
+      (publication) => quotas[publication] === undefined
+    );
+    const unlistedShare =
+      unlisted.length > 0
+        ? Math.max(
+            0,
+            1 - Object.values(quotas).reduce((sum, quota) => sum + quota, 0)
+          ) / unlisted.length
+        : 0;
+    const publications = Array.from(byPublication.entries());
+    const budgets = shareOut(
+      maxExamples,
+      publications.map(([, examples]) => examples.length),
+      publications.map(([publication]) =>
+        Object.keys(quotas).length > 0
+          ? quotas[publication] ?? unlistedShare
+          : 1
+      )
+    );
+
+    return publications.flatMap(([, examples], i) => {
+      const strata = Array.from(
+        this.groupBy(examples, (example) => this.stratumKey(example)).values()
+      );
+      const counts = shareOut(
+        budgets[i],
+        strata.map((stratum) => stratum.length),
+        strata.map(() => 1)
+      );
+      return strata.flatMap((stratum, j) => stratum.slice(0, counts[j]));
+    });
+  }
+
+  private stratumKey(example: TrainingExample): string {
+    const { stratifyBy, timeBucket } = this.config;
+    return [
+      stratifyBy ? this.metadataValue(example, stratifyBy) : "",
+      timeBucket ? getTimeBucket(example.publishedDate, timeBucket) : "",
+    ].join("|");
+  }
+
+  private metadataValue(example: TrainingExample, key: string): string {
+    const value = example.metadata?.[key];
+    return value === undefined || value === null || value === ""
+      ? NO_VALUE
+      : String(value);
+  }
+
+  /**
+   * Groups in a random order fixed by the seed, each keeping the order of
+   * its examples
+   */
+  private groupBy(
+    examples: TrainingExample[],
+    keyOf: (example: TrainingExample) => string
+  ): Map<string, TrainingExample[]> {
+    const groups = new Map<string, TrainingExample[]>();
+    for (const example of examples) {
+      const key = keyOf(example);
+      const group = groups.get(key);
+      if (group) {
+        group.push(example);
+      } else {
+        groups.set(key, [example]);
+      }
+    }
+
+    return new Map(
+      Array.from(groups.entries()).sort(
+        ([a], [b]) =>
+          hashToUnitInterval(`${this.config.seed}:${a}`) -
+          hashToUnitInterval(`${this.config.seed}:${b}`)
+      )
+    );
+  }
+
+  private buildHistograms(
+    before: TrainingExample[],
+    after: TrainingExample[]
+  ): Record<string, SamplingHistogram> {
+    const timeBucket = this.config.timeBucket ?? "month";
+    const dimensions: Record<string, (example: TrainingExample) => string> = {
+      publication: (example) => example.publication,
+      [timeBucket]: (example) =>
+        getTimeBucket(example.publishedDate, timeBucket),
+    };
+    const { stratifyBy } = this.config;
+    if (stratifyBy) {
+      dimensions[`metadata.${stratifyBy}`] = (example) =>
+        this.metadataValue(example, stratifyBy);
+    }
+
+    const histograms: Record<string, SamplingHistogram> = {};
+    for (const [name, keyOf] of Object.entries(dimensions)) {
+      const histogram: SamplingHistogram = {};
+      for (const example of before) {
+        const key = keyOf(example);
+        histogram[key] = histogram[key] ?? { before: 0, after: 0 };
+        histogram[key].before++;
+      }
+      for (const example of after) {
+        histogram[keyOf(example)].after++;
+      }
+      histograms[name] = Object.fromEntries(
+        Object.entries(histogram).sort(([a], [b]) => a.localeCompare(b))
+      );
+    }
+
+    return histograms;
+  }
+}
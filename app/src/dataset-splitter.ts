@@ -0,0 +1,139 @@
+import { hashToUnitInterval } from "./hash-utils";
+import {
+  PromptExample,
+  SplitRatios,
+  DatasetSplits,
+  DatasetSplitName,
+} from "./types";
+
+/**
+ * Parse a split spec such as "90/5/5" (train/validation/test)
+ */
+export function parseSplitRatios(value: string): SplitRatios {
+  const parts = value.split("/").map((part) => parseFloat(part));
+
+  if (
+    parts.length !== 3 ||
+    parts.some((part) => isNaN(part) || part < 0) ||
+    parts[0] <= 0
+  ) {
+    throw new Error(
+      `Invalid dataset split "${value}", expected train/validation/test such as 90/5/5`
+    );
+  }
+
+  const total = parts[0] + parts[1] + parts[2];
+
+  return {
+    train: parts[0] / total,
+    validation: parts[1] / total,
+    test: parts[2] / total,
+  };
+}
+
+/**
+ * Split each publication into train, validation and test in the given
+ * proportions. An article goes to test when the hash of its ID is below the
+ * test ratio, to validation when it is below the test and validation ratios
+ * together, and to train otherwise, so it keeps its split across runs
+ * however many articles there are. A publication whose hashes leave
+ * validation or test empty gets one from its train articles, as long as
+ * train keeps at least one.
+ */
+export function splitDataset(
+  prompts: PromptExample[],
+  ratios: SplitRatios
+): DatasetSplits {
+  const splits: DatasetSplits = { train: [], validation: [], test: [] };
+
+  const byPublication = new Map<string, PromptExample[]>();
+  for (const prompt of prompts) {
+    const publication = getPublication(prompt);
+    const group = byPublication.get(publication);
+    if (group) {
+      group.push(prompt);
+    } else {
+      byPublication.set(publication, [prompt]);
+    }
+  }
+
+  for (const group of byPublication.values()) {
+    const groupSplits = splitPublication(group, ratios);
+    for (const name of Object.keys(splits) as DatasetSplitName[]) {
+      splits[name].push(...groupSplits[name]);
+    }
+  }
+
+  logSplitsByPublication(splits);
+
+  return splits;
+}
+
+function splitPublication(
+  prompts: PromptExample[],
+  ratios: SplitRatios
+): DatasetSplits {
+  const splits: DatasetSplits = { train: [], validation: [], test: [] };
+
+  // Ranked by hash so the train articles closest to the held-out splits are
+  // the ones moved into an empty split
+  const ranked = prompts
+    .map((prompt) => ({ prompt, articleId: getArticleId(prompt) }))
+    .map((entry) => ({
+      ...entry,
+      position: hashToUnitInterval(entry.articleId),
+    }))
+    .sort(
+      (a, b) =>
+        a.position - b.position || a.articleId.localeCompare(b.articleId)
+    );
+
+  for (const { prompt, position } of ranked) {
+    if (position < ratios.test) {
+      splits.test.push(prompt);
+    } else if (position < ratios.test + ratios.validation) {
+      splits.validation.push(prompt);
+    } else {
+      splits.train.push(prompt);
+    }
+  }
+
+  // Test is filled before validation
+  for (const name of ["test", "validation"] as const) {
+    if (
+      ratios[name] > 0 &&
+      splits[name].length === 0 &&
+      splits.train.length > 1
+    ) {
+      splits[name].push(splits.train.shift()!);
+    }
+  }
+
+  return splits;
+}
+
+function getArticleId(prompt: PromptExample): string {
+  return String(prompt.metadata?.articleId ?? prompt.prompt);
+}
+
+function getPublication(prompt: PromptExample): string {
+  return String(prompt.metadata?.publication ?? "unknown");
+}
+
+function logSplitsByPublication(splits: DatasetSplits): void {
+  const counts: Record<string, Record<DatasetSplitName, number>> = {};
+
+  for (const name of Object.keys(splits) as DatasetSplitName[]) {
+    for (const prompt of splits[name]) {
+      const publication = getPublication(prompt);
+      counts[publication] = counts[publication] || {
+        train: 0,
+        validation: 0,
+        test: 0,
+      };
+      counts[publication][name]++;
+    }
+  }
+
+  console.log("Dataset split counts by publication:", counts);
+}
@@ -0,0 +1,66 @@
+import { ObjectStore, PromptExample } from "./types";
+
+/**
+ * Incremental JSONL shards of successful teacher completions for a training
+ * run, so a restarted or retried task only pays for the articles it has not
+ * distilled yet
+ */
+export class DistillationCheckpoint {
+  private objectStore: ObjectStore;
+  private prefix: string;
+  private shardCount = 0;
+
+  constructor(objectStore: ObjectStore, trainingRunId: string) {
+    this.objectStore = objectStore;
+    this.prefix = `checkpoints/${trainingRunId}/distillation/`;
+  }
+
+  /**
+   * Load completions from earlier attempts, keyed by article ID
+   */
+  async load(): Promise<Map<string, PromptExample>> {
+    const completed = new Map<string, PromptExample>();
+    const keys = await this.objectStore.listKeys(this.prefix);
+
+    for (const key of keys) {
+      const body = await this.objectStore.getObject(key);
+
+      for (const line of (body || "").split("\n")) {
+        if (line.trim() === "") {
+          continue;
+        }
+
+        const prompt: PromptExample = JSON.parse(line);
+        completed.set(String(prompt.metadata?.articleId), prompt);
+      }
+    }
+
+    this.shardCount = keys.length;
+
+    if (completed.size > 0) {
+      console.log(
+        `Resuming distillation: ${completed.size} completions found in ${keys.length} checkpoint shards`
+      );
+    }
+
+    return completed;
+  }
+
+  async saveShard(prompts: PromptExample[]): Promise<void> {
+    if (prompts.length === 0) {
+      return;
+    }
+
+    const key = `${this.prefix}shard-${String(this.shardCount).padStart(
+      5,
+      "0"
+    )}.jsonl`;
+    this.shardCount++;
+
+    await this.objectStore.putObject(
+      key,
+      prompts.map((prompt) => JSON.stringify(prompt)).join("\n"),
+      { contentType: "application/jsonl" }
+    );
+  }
+}
@@ -1,24 +1,126 @@
+import { BedrockTeacherClient } from "./bedrock-teacher-client";
+import { DistillationCheckpoint } from "./distillation-checkpoint";
+import { TeacherResponseCache } from "./teacher-response-cache";
+import { RequestScheduler, RequestFailedError } from "./request-scheduler";
+import { estimateTokens } from "./token-estimator";
+import { TeacherFailureRateError } from "./errors";
+import { TaskDefinition, getTarget, validateOutput } from "./task-definitions";
+import { PromptTemplateSet, RenderedPrompt } from "./prompt-templates";
 import {
-  BedrockRuntimeClient,
-  InvokeModelCommand,
-} from "@aws-sdk/client-bedrock-runtime";
-import { TrainingExample, PromptExample } from "./types";
+  BatchDistillationRunner,
+  batchRecordId,
+  joinBatchResults,
+} from "./batch-distillation";
+import {
+  TrainingExample,
+  PromptExample,
+  TeacherModelClient,
+  TeacherInferenceParams,
+  TeacherRateLimits,
+  TeacherFailurePolicy,
+  DistillationOutcome,
+  DistillationStats,
+} from "./types";
+
+const PROGRESS_LOG_INTERVAL = 50;
+
+type ResultHandler = (
+  example: TrainingExample,
+  prompt: PromptExample
+) => Promise<void>;
 
 export interface DistillationConfig {
+  task: TaskDefinition;
+  promptTemplates: PromptTemplateSet;
   teacherModelId: string;
+  teacherInferenceParams: TeacherInferenceParams;
   region: string;
-  maxConcurrentRequests?: number;
+  rateLimits: TeacherRateLimits;
+  failurePolicy?: TeacherFailurePolicy;
+  /**
+   * Abort once teacher failures exceed this share of the articles to distil
+   */
+  maxFailureRate?: number;
+  /**
+   * Number of successful completions per checkpoint shard
+   */
+  checkpointInterval?: number;
+  /**
+   * Minimum number of articles to distil with batch inference when a batch
+   * runner is available
+   */
+  batchThreshold?: number;
+}
+
+export interface DistillationDependencies {
+  /**
+   * Defaults to Bedrock; replaced by a stub in local mode
+   */
+  teacherClient?: TeacherModelClient;
+  checkpoint?: DistillationCheckpoint;
+  cache?: TeacherResponseCache;
+  /**
+   * Defaults to a scheduler built from the rate limits
+   */
+  scheduler?: RequestScheduler;
+  batchRunner?: BatchDistillationRunner;
 }
 
 export class DistillationService {
-  private bedrockClient: BedrockRuntimeClient;
+  private task: TaskDefinition;
+  private templates: PromptTemplateSet;
+  private teacherClient: TeacherModelClient;
   private teacherModelId: string;
-  private maxConcurrentRequests: number;
+  private teacherInferenceParams: TeacherInferenceParams;
+  private scheduler: RequestScheduler;
+  private failurePolicy: TeacherFailurePolicy;
+  private maxFailureRate: number;
+  private outcomes: Record<DistillationOutcome, number> = {
+    distilled: 0,
+    resumed: 0,
+    dropped: 0,
+    keptAsHuman: 0,
+  };
+  private checkpointInterval: number;
+  private checkpoint?: DistillationCheckpoint;
+  private cache?: TeacherResponseCache;
+  private batchRunner?: BatchDistillationRunner;
+  private batchThreshold: number;
 
-  constructor(config: DistillationConfig) {
-    this.bedrockClient = new BedrockRuntimeClient({ region: config.region });
+  constructor(
+    config: DistillationConfig,
+    dependencies: DistillationDependencies = {}
+  ) {
+    this.teacherClient =
+      dependencies.teacherClient ||
+      new BedrockTeacherClient(
+        config.region,
+        config.teacherModelId,
+        config.teacherInferenceParams
+      );
+    this.task = config.task;
+    this.templates = config.promptTemplates;
     this.teacherModelId = config.teacherModelId;
-    this.maxConcurrentRequests = config.maxConcurrentRequests || 5;
+    this.teacherInferenceParams = config.teacherInferenceParams;
+    this.scheduler =
+      dependencies.scheduler || new RequestScheduler(config.rateLimits);
+    this.failurePolicy = config.failurePolicy || "drop";
+    this.maxFailureRate =
+      this.failurePolicy === "fail-run" ? 0 : config.maxFailureRate ?? 1;
+    this.checkpointInterval = config.checkpointInterval || 100;
+    this.checkpoint = dependencies.checkpoint;
+    this.cache = dependencies.cache;
+    this.batchRunner = dependencies.batchRunner;
+    this.batchThreshold = config.batchThreshold ?? 1000;
+  }
+
+  getStats(): DistillationStats {
+    const cacheStats = this.cache?.getStats();
+    return {
+      cacheHits: cacheStats?.hits || 0,
+      cacheMisses: cacheStats?.misses || 0,
+      outcomes: { ...this.outcomes },
+    };
   }
 
   /**
@@ -30,128 +132,398 @@ export class DistillationService {
     console.log(
       `Starting distillation with teacher model: ${this.teacherModelId}`
     );
-    console.log(`Processing ${examples.length} examples...`);
 
-    const prompts: PromptExample[] = [];
+    // Skip articles a previous attempt of this run already distilled
+    const results = this.checkpoint
+      ? await this.checkpoint.load()
+      : new Map<string, PromptExample>();
+    const remaining = examples.filter(
+      (example) => !results.has(example.articleId)
+    );
+    this.outcomes.resumed = examples.length - remaining.length;
+    console.log(
+      `Processing ${remaining.length} examples (${this.outcomes.resumed} already distilled)...`
+    );
 
-    // Process in batches to avoid rate limits
-    for (let i = 0; i < examples.length; i += this.maxConcurrentRequests) {
-      const batch = examples.slice(i, i + this.maxConcurrentRequests);
-      const batchPromises = batch.map((example) =>
-        this.generateTeacherOutput(example)
-      );
+    // Failures allowed across this attempt; exceeding it means the final
+    // rate is already over the limit, so there is no point continuing.
+    // Rounded up so a small run can still lose one article.
+    const maxFailures = Math.ceil(this.maxFailureRate * remaining.length);
+    let failures = 0;
+    let pendingShard: PromptExample[] = [];
+    let checkpointWrite = Promise.resolve();
+
+    const handleResult = async (
+      example: TrainingExample,
+      prompt: PromptExample
+    ): Promise<void> => {
+      // Failed calls aren't checkpointed so a retry asks the teacher again
+      if (!prompt.metadata?.teacherModelError) {
+        this.outcomes.distilled++;
+        results.set(example.articleId, prompt);
+        pendingShard.push(prompt);
+      } else {
+        failures++;
+        if (failures > maxFailures) {
+          // Keep the completions paid for so far before aborting
+          await this.checkpoint?.saveShard(pendingShard);
+          pendingShard = [];
+          throw new TeacherFailureRateError(
+            `Teacher failed on ${failures} of ${remaining.length} articles, ` +
+              `above the ${this.failurePolicy} limit of ${maxFailures} ` +
+              `(last error: ${prompt.metadata?.teacherModelError})`
+          );
+        }
 
-      const batchResults = await Promise.all(batchPromises);
-      prompts.push(...batchResults);
+        if (this.failurePolicy === "keep-as-human") {
+          this.outcomes.keptAsHuman++;
+          results.set(example.articleId, prompt);
+        } else {
+          this.outcomes.dropped++;
+        }
+      }
 
-      console.log(
-        `Processed ${Math.min(
-          i + this.maxConcurrentRequests,
-          examples.length
-        )}/${examples.length} examples`
+      if (this.checkpoint && pendingShard.length >= this.checkpointInterval) {
+        const checkpoint = this.checkpoint;
+        const shard = pendingShard;
+        pendingShard = [];
+        checkpointWrite = checkpointWrite.then(() =>
+          checkpoint.saveShard(shard)
+        );
+        await checkpointWrite;
+      }
+    };
+
+    if (this.batchRunner && remaining.length >= this.batchThreshold) {
+      // Decide on the articles the teacher still has to answer, so a mostly
+      // cached run does not submit a job below Bedrock's minimum size
+      const pending = await this.handleCacheHits(remaining, handleResult);
+      const minRecords = Math.max(
+        this.batchThreshold,
+        this.batchRunner.getMinRecords()
       );
+      if (pending.length >= minRecords) {
+        await this.distillInBatch(pending, handleResult);
+      } else if (pending.length > 0) {
+        console.log(
+          `${pending.length} articles not in the teacher cache, distilling them on demand`
+        );
+        await this.distillOnDemand(pending, handleResult, false);
+      }
+    } else {
+      await this.distillOnDemand(remaining, handleResult);
+    }
+
+    if (this.checkpoint) {
+      await this.checkpoint.saveShard(pendingShard);
     }
 
-    console.log(`Distillation complete: ${prompts.length} prompts generated`);
+    // Merge checkpointed and new completions back into the input order
+    const prompts = examples
+      .map((example) => results.get(example.articleId))
+      .filter((prompt): prompt is PromptExample => prompt !== undefined);
+
+    console.log(
+      `Distillation complete: ${prompts.length} prompts generated ` +
+        `(${JSON.stringify(this.outcomes)})`
+    );
+    if (this.cache) {
+      const { cacheHits, cacheMisses } = this.getStats();
+      console.log(`Teacher cache: ${cacheHits} hits, ${cacheMisses} misses`);
+    }
     return prompts;
   }
 
+  /**
+   * Queue every article at once; the scheduler decides how many run. The
+   * cache lookup is skipped for articles already known to miss it.
+   */
+  private async distillOnDemand(
+    examples: TrainingExample[],
+    handleResult: ResultHandler,
+    lookUpCache = true
+  ): Promise<void> {
+    let completed = 0;
+
+    await Promise.all(
+      examples.map(async (example) => {
+        await handleResult(
+          example,
+          await this.generateTeacherOutput(example, lookUpCache)
+        );
+        completed++;
+
+        if (
+          completed % PROGRESS_LOG_INTERVAL === 0 ||
+          completed === examples.length
+        ) {
+          console.log(
+            `Processed ${completed}/${
+              examples.length
+            } examples (concurrency ${this.scheduler.getConcurrency()})`
+          );
+        }
+      })
+    );
+  }
+
+  /**
+   * Handle the articles the teacher cache already answers and return the
+   * rest
+   */
+  private async handleCacheHits(
+    examples: TrainingExample[],
+    handleResult: ResultHandler
+  ): Promise<TrainingExample[]> {
+    const pending: TrainingExample[] = [];
+
+    for (const example of examples) {
+      const cacheKey = this.cacheKey(this.createDistillationPrompt(example));
+      const cached =
+        this.cache && cacheKey ? await this.cache.get(cacheKey) : undefined;
+
+      if (cached !== undefined) {
+        await handleResult(example, this.createTeacherExample(example, cached));
+      } else {
+        pending.push(example);
+      }
+    }
+
+    return pending;
+  }
+
+  /**
+   * Send cache misses to the teacher as batch inference jobs, which are
+   * slower to start but cheaper than on-demand calls for large runs
+   */
+  private async distillInBatch(
+    pending: TrainingExample[],
+    handleResult: ResultHandler
+  ): Promise<void> {
+    const batchRunner = this.batchRunner as BatchDistillationRunner;
+
+    console.log(`Distilling ${pending.length} examples with batch inference`);
+    const recordIdOf = (example: TrainingExample) =>
+      batchRecordId(example.articleId);
+    const batchResults = await batchRunner.run(
+      pending.map((example) => ({
+        recordId: recordIdOf(example),
+        prompt: this.createDistillationPrompt(example),
+      }))
+    );
+
+    for (const { item: example, result } of joinBatchResults(
+      pending,
+      recordIdOf,
+      batchResults
+    )) {
+      if (result.completion === undefined) {
+        await handleResult(
+          example,
+          this.createFallbackExample(
+            example,
+            result.error || "Unknown batch inference error",
+            "batch_error",
+            1
+          )
+        );
+        continue;
+      }
+
+      const cacheKey = this.cacheKey(this.createDistillationPrompt(example));
+      if (this.cache && cacheKey && result.completion) {
+        await this.cache.put(cacheKey, {
+          teacherModelId: this.teacherModelId,
+          inferenceParams: this.teacherInferenceParams,
+          completion: result.completion,
+        });
+      }
+      await handleResult(
+        example,
+        this.createTeacherExample(example, result.completion)
+      );
+    }
+  }
+
   /**
    * Generate output from teacher model for a single example
    */
   private async generateTeacherOutput(
-    example: TrainingExample
+    example: TrainingExample,
+    lookUpCache = true
   ): Promise<PromptExample> {
     const prompt = this.createDistillationPrompt(example);
 
     try {
-      // Invoke teacher model to generate headline
-      const command = new InvokeModelCommand({
-        modelId: this.teacherModelId,
-        contentType: "application/json",
-        accept: "application/json",
-        body: JSON.stringify({
-          anthropic_version: "bedrock-2023-05-31",
-          max_tokens: 200,
-          messages: [
-            {
-              role: "user",
-              content: prompt,
-            },
-          ],
-        }),
-      });
+      const teacherCompletion = await this.generateCachedCompletion(
+        prompt,
+        example,
+        lookUpCache
+      );
 
-      const response = await this.bedrockClient.send(command);
-      const responseBody = JSON.parse(new TextDecoder().decode(response.body));
-
-      // Extract the generated completion from teacher model
-      const teacherCompletion =
-        responseBody.content?.[0]?.text?.trim() || example.title;
-
-      return {
-        prompt: this.createStudentPrompt(example),
-        completion: teacherCompletion, // Use teacher's output as the target
-        metadata: {
-          articleId: example.articleId,
-          publication: example.publication,
-          publishedDate: example.publishedDate,
-          originalTitle: example.title, // Keep original for reference
-          teacherModel: this.teacherModelId,
-          ...example.metadata,
-        },
-      };
+      return this.createTeacherExample(example, teacherCompletion);
     } catch (error) {
       console.error(
         `Error generating teacher output for article ${example.articleId}:`,
         error
       );
-      // Fallback to original title if teacher model fails
-      return {
-        prompt: this.createStudentPrompt(example),
-        completion: example.title,
-        metadata: {
-          articleId: example.articleId,
-          publication: example.publication,
-          publishedDate: example.publishedDate,
-          teacherModelError:
-            error instanceof Error ? error.message : String(error),
-          ...example.metadata,
-        },
-      };
+      const failure = error instanceof RequestFailedError ? error : undefined;
+      return this.createFallbackExample(
+        example,
+        error instanceof Error ? error.message : String(error),
+        failure?.kind || "client_error",
+        failure?.attempts || 1
+      );
     }
   }
 
   /**
-   * Create prompt for teacher model to generate high-quality output
+   * Use the teacher's output as the target, unless it fails the task's
+   * validators
    */
-  private createDistillationPrompt(example: TrainingExample): string {
-    return `You are an expert headline writer for ${example.publication}. 
-      Generate a high-quality, SEO-optimized headline for the following article content. The headline should be:
-      - Editorial quality and engaging
-      - SEO-optimized with relevant keywords
-      - Appropriate for the publication's style
-      - Between 8-15 words
-
-      Article content:
-      ${example.content.substring(0, 1000)}${
-      example.content.length > 1000 ? "..." : ""
+  private createTeacherExample(
+    example: TrainingExample,
+    completion: string
+  ): PromptExample {
+    const invalidReason = validateOutput(this.task, completion);
+    if (invalidReason) {
+      console.warn(
+        `Invalid teacher output for article ${example.articleId}: ${invalidReason}`
+      );
+      return this.createFallbackExample(
+        example,
+        `Invalid teacher output (${invalidReason})`,
+        "invalid_output",
+        1
+      );
     }
 
-      Generate the headline:`;
+    const studentPrompt = this.createStudentPrompt(example);
+    return {
+      prompt: studentPrompt.text,
+      completion, // Use teacher's output as the target
+      // Article metadata first, so it cannot overwrite the reserved keys
+      metadata: {
+        ...example.metadata,
+        articleId: example.articleId,
+        publication: example.publication,
+        publishedDate: example.publishedDate,
+        originalTitle: example.title, // Keep original for reference
+        originalTarget: getTarget(this.task, example),
+        task: this.task.name,
+        ...this.promptMetadata(example, studentPrompt),
+        teacherModel: this.teacherModelId,
+      },
+    };
+  }
+
+  /**
+   * Fallback to the human-written target; the failure policy decides
+   * whether the example is kept
+   */
+  private createFallbackExample(
+    example: TrainingExample,
+    errorMessage: string,
+    reason: string,
+    attempts: number
+  ): PromptExample {
+    const studentPrompt = this.createStudentPrompt(example);
+    return {
+      prompt: studentPrompt.text,
+      completion: getTarget(this.task, example) || "",
+      metadata: {
+        ...example.metadata,
+        articleId: example.articleId,
+        publication: example.publication,
+        publishedDate: example.publishedDate,
+        task: this.task.name,
+        ...this.promptMetadata(example, studentPrompt),
+        teacherModelError: errorMessage,
+        teacherFallbackReason: reason,
+        teacherAttempts: attempts,
+      },
+    };
+  }
+
+  private cacheKey(prompt: string): string | undefined {
+    return this.cache?.createKey(
+      this.teacherModelId,
+      prompt,
+      this.teacherInferenceParams
+    );
+  }
+
+  /**
+   * Return a cached teacher response for the prompt, otherwise invoke the
+   * teacher and cache a non-empty response
+   */
+  private async generateCachedCompletion(
+    prompt: string,
+    example: TrainingExample,
+    lookUpCache = true
+  ): Promise<string> {
+    const cacheKey = this.cacheKey(prompt);
+
+    if (this.cache && cacheKey && lookUpCache) {
+      const cached = await this.cache.get(cacheKey);
+      if (cached !== undefined) {
+        return cached;
+      }
+    }
+
+    // Invoke teacher model to generate the task output
+    const completion = (
+      await this.scheduler.schedule(
+        () => this.teacherClient.generate(prompt, example),
+        estimateTokens(prompt) + this.teacherInferenceParams.maxTokens
+      )
+    ).trim();
+
+    if (this.cache && cacheKey && completion) {
+      await this.cache.put(cacheKey, {
+        teacherModelId: this.teacherModelId,
+        inferenceParams: this.teacherInferenceParams,
+        completion,
+      });
+    }
+
+    return completion;
+  }
+
+  /**
+   * Create prompt for teacher model to generate high-quality output
+   */
+  private createDistillationPrompt(example: TrainingExample): string {
+    return this.templates.render("teacher", example).text;
   }
 
   /**
    * Create prompt format for student model training
    * This is what the smaller student model will see during training
    */
-  private createStudentPrompt(example: TrainingExample): string {
-    return `Generate a headline for the following article:
-
-Article content:
-${example.content.substring(0, 500)}${example.content.length > 500 ? "..." : ""}
+  private createStudentPrompt(example: TrainingExample): RenderedPrompt {
+    return this.templates.render("student", example);
+  }
 
-Publication: ${example.publication}
-Style requirements: Editorial quality, SEO-optimized, engaging`;
+  /**
+   * Template versions behind the example, so a dataset can be traced back
+   * to the prompt wording that produced it, and how much of the article
+   * each prompt kept
+   */
+  private promptMetadata(
+    example: TrainingExample,
+    studentPrompt: RenderedPrompt
+  ): Record<string, any> {
+    const teacherPrompt = this.templates.render("teacher", example);
+    return {
+      promptTemplates: {
+        teacher: teacherPrompt.template,
+        student: studentPrompt.template,
+      },
+      contentTokens: {
+        teacher: teacherPrompt.contentTokens,
+        student: studentPrompt.contentTokens,
+      },
+    };
   }
 }
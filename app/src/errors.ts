@@ -0,0 +1,87 @@
+/**
+ * Errors reported to Step Functions by name. The state machine does not
+ * retry these because a rerun would fail the same way.
+ */
+
+/**
+ * Too few examples or prompts survived a pipeline stage
+ */
+export class InsufficientDataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InsufficientDataError";
+  }
+}
+
+/**
+ * The dataset does not meet the base model's customization limits
+ */
+export class DatasetValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DatasetValidationError";
+  }
+}
+
+/**
+ * The teacher failed on more articles than the failure policy allows
+ */
+export class TeacherFailureRateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TeacherFailureRateError";
+  }
+}
+
+/**
+ * A prompt template is missing or refers to an unknown variable
+ */
+export class PromptTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PromptTemplateError";
+  }
+}
+
+/**
+ * Redaction is configured with an unknown detector or a deny-list that
+ * cannot be read
+ */
+export class RedactionConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RedactionConfigError";
+  }
+}
+
+/**
+ * The Athena query is configured with a table or column name that is not a
+ * plain identifier
+ */
+export class QueryConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QueryConfigError";
+  }
+}
+
+/**
+ * The student model cannot be invoked at all, e.g. a custom model without
+ * Provisioned Throughput, so evaluating it would only measure errors
+ */
+export class StudentModelError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StudentModelError";
+  }
+}
+
+/**
+ * An environment variable holds a value the task cannot run with
+ */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
@@ -0,0 +1,178 @@
+import { getPipelineMode, loadTrainingConfig } from "./config";
+import {
+  createObjectStore,
+  createEvaluationClients,
+} from "./pipeline-services";
+import { EvaluationService } from "./evaluation-service";
+import {
+  evaluateQualityGate,
+  parseQualityGateThresholds,
+  restrictThresholds,
+  promotedPointerKey,
+} from "./quality-gate";
+import { getTaskDefinition } from "./task-definitions";
+import { TaskCallbackService } from "./task-callback";
+import { RunRegistry } from "./run-registry";
+import { EvaluationTaskOutput, PromotionRecord } from "./types";
+
+/**
+ * Entry point for the evaluation task, run after the Bedrock job completes
+ */
+async function main() {
+  const region = process.env.AWS_REGION || "eu-west-1";
+  const callback = new TaskCallbackService(region, process.env.TASK_TOKEN);
+  let registry: RunRegistry | undefined;
+  let trainingRunId: string | undefined;
+
+  try {
+    // Inside the try, so an invalid config fails the task instead of
+    // leaving Step Functions waiting for the callback
+    const mode = getPipelineMode();
+    const config = loadTrainingConfig(mode);
+
+    const manifestUri = process.env.MANIFEST_S3_URI;
+    // The student is invoked through the run's Provisioned Throughput; the
+    // custom model behind it is what gets promoted
+    const studentModelId =
+      process.env.STUDENT_MODEL_ID || (mode === "local" ? "local-stub" : "");
+    const modelArn = process.env.MODEL_ARN || studentModelId;
+    const judgeModelId = process.env.JUDGE_MODEL_ID || undefined;
+
+    if (!manifestUri) {
+      throw new Error("MANIFEST_S3_URI environment variable is required");
+    }
+
+    if (!studentModelId) {
+      throw new Error("STUDENT_MODEL_ID environment variable is required");
+    }
+
+    const clients = createEvaluationClients(
+      mode,
+      region,
+      studentModelId,
+      judgeModelId
+    );
+    const objectStore = createObjectStore(mode, config, region);
+    registry = new RunRegistry(objectStore);
+    trainingRunId = config.trainingRunId;
+    const evaluationService = new EvaluationService(
+      objectStore,
+      clients.student,
+      clients.judge
+    );
+
+    const result = await evaluationService.evaluate({
+      manifestUri,
+      studentModelId,
+      teacherModelId: config.teacherModelId,
+      judgeModelId,
+      maxExamples: process.env.EVALUATION_MAX_EXAMPLES
+        ? parseInt(process.env.EVALUATION_MAX_EXAMPLES, 10)
+        : undefined,
+    });
+
+    // Compare against the scores the current production model was promoted with
+    const task = getTaskDefinition(result.report.taskName);
+    const baselineBody = await objectStore.getObject(
+      promotedPointerKey(task.name, config.publicationId)
+    );
+    const baseline: PromotionRecord | undefined = baselineBody
+      ? JSON.parse(baselineBody)
+      : undefined;
+
+    const qualityGate = evaluateQualityGate(
+      result.report,
+      baseline,
+      restrictThresholds(
+        parseQualityGateThresholds(process.env.QUALITY_GATE_THRESHOLDS),
+        task.metrics
+      ),
+      {
+        modelArn,
+        jobArn: process.env.BEDROCK_JOB_ARN || "",
+        reportUri: result.reportUri,
+        publicationId: config.publicationId,
+      }
+    );
+
+    const reportKey = objectStore.getKey(result.reportUri);
+    await objectStore.putObject(
+      reportKey.replace(/report\.json$/, "quality-gate.json"),
+      JSON.stringify(qualityGate, null, 2),
+      { contentType: "application/json" }
+    );
+
+    if (qualityGate.passed) {
+      console.log("Quality gate passed, model is promotable");
+    } else {
+      console.warn(
+        `Quality gate failed with ${qualityGate.regressions.length} regressions:`,
+        qualityGate.regressions,
+        qualityGate.failures
+      );
+    }
+
+    await registry.updateRun(trainingRunId, {
+      status: qualityGate.passed ? "succeeded" : "rejected",
+      completedAt: new Date().toISOString(),
+      modelArn,
+      evaluationReportUri: result.reportUri,
+      qualityGate: {
+        passed: qualityGate.passed,
+        regressions: qualityGate.regressions.length,
+        failures: qualityGate.failures,
+      },
+    });
+
+    const output: EvaluationTaskOutput = {
+      reportS3Uri: result.reportUri,
+      markdownS3Uri: result.markdownUri,
+      exampleCount: result.report.overall.exampleCount,
+      scores: result.report.overall.scores,
+      qualityGate,
+    };
+    await callback.sendSuccess(output);
+
+    console.log("Evaluation completed successfully");
+    process.exit(0);
+  } catch (error) {
+    console.error("Evaluation failed:", error);
+    await recordFailedEvaluation(registry, trainingRunId, error);
+    await callback.sendFailure(error);
+    process.exit(1);
+  }
+}
+
+/**
+ * Mark the run failed in the registry. A registry failure is logged but does
+ * not mask the evaluation error.
+ */
+async function recordFailedEvaluation(
+  registry: RunRegistry | undefined,
+  trainingRunId: string | undefined,
+  error: unknown
+): Promise<void> {
+  if (!registry || !trainingRunId) {
+    console.warn("No config loaded, not recording the failed evaluation");
+    return;
+  }
+
+  try {
+    await registry.updateRun(trainingRunId, {
+      status: "failed",
+      completedAt: new Date().toISOString(),
+      error: `Evaluation failed: ${
+        error instanceof Error
+          ? `${error.name}: ${error.message}`
+          : String(error)
+      }`,
+    });
+  } catch (registryError) {
+    console.error("Failed to record the failed evaluation:", registryError);
+  }
+}
+
+main().catch((error) => {
+  console.error("Unhandled error:", error);
+  process.exit(1);
+});
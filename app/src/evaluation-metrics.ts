@@ -0,0 +1,175 @@
+/**
+ * Pure scoring functions for generated headlines. Everything here works on
+ * plain strings so it can be computed from local fixtures.
+ */
+
+export const HEADLINE_MIN_WORDS = 8;
+export const HEADLINE_MAX_WORDS = 15;
+
+const STOPWORDS = new Set(
+  (
+    "a an and are as at be but by for from has have he her his in is it " +
+    "its of on or she that the their they this to was were will with " +
+    "after over into new says said"
+  ).split(" ")
+);
+
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+export function countWords(text: string): number {
+  return text.trim() === "" ? 0 : text.trim().split(/\s+/).length;
+}
+
+function ngrams(tokens: string[], n: number): Map<string, number> {
+  const counts = new Map<string, number>();
+
+  for (let i = 0; i + n <= tokens.length; i++) {
+    const gram = tokens.slice(i, i + n).join(" ");
+    counts.set(gram, (counts.get(gram) || 0) + 1);
+  }
+
+  return counts;
+}
+
+function clippedOverlap(
+  candidate: Map<string, number>,
+  reference: Map<string, number>
+): number {
+  let overlap = 0;
+
+  for (const [gram, count] of candidate) {
+    overlap += Math.min(count, reference.get(gram) || 0);
+  }
+
+  return overlap;
+}
+
+function f1(overlap: number, candidateLength: number, referenceLength: number) {
+  if (overlap === 0 || candidateLength === 0 || referenceLength === 0) {
+    return 0;
+  }
+
+  const precision = overlap / candidateLength;
+  const recall = overlap / referenceLength;
+
+  return (2 * precision * recall) / (precision + recall);
+}
+
+/**
+ * ROUGE-1 F1: unigram overlap between candidate and reference
+ */
+export function rouge1(candidate: string, reference: string): number {
+  const candidateTokens = tokenize(candidate);
+  const referenceTokens = tokenize(reference);
+  const overlap = clippedOverlap(
+    ngrams(candidateTokens, 1),
+    ngrams(referenceTokens, 1)
+  );
+
+  return f1(overlap, candidateTokens.length, referenceTokens.length);
+}
+
+function longestCommonSubsequence(a: string[], b: string[]): number {
+  const previous = new Array(b.length + 1).fill(0);
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = 0;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] =
+        a[i - 1] === b[j - 1]
+          ? diagonal + 1
+          : Math.max(previous[j], previous[j - 1]);
+      diagonal = above;
+    }
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * ROUGE-L F1: longest common subsequence of tokens
+ */
+export function rougeL(candidate: string, reference: string): number {
+  const candidateTokens = tokenize(candidate);
+  const referenceTokens = tokenize(reference);
+
+  return f1(
+    longestCommonSubsequence(candidateTokens, referenceTokens),
+    candidateTokens.length,
+    referenceTokens.length
+  );
+}
+
+/**
+ * Sentence-level BLEU-4 with add-one smoothing for higher-order n-grams,
+ * which headlines are often too short to match
+ */
+export function bleu(candidate: string, reference: string): number {
+  const candidateTokens = tokenize(candidate);
+  const referenceTokens = tokenize(reference);
+
+  if (candidateTokens.length === 0 || referenceTokens.length === 0) {
+    return 0;
+  }
+
+  let logPrecisionSum = 0;
+  for (let n = 1; n <= 4; n++) {
+    const candidateGrams = ngrams(candidateTokens, n);
+    const total = Math.max(candidateTokens.length - n + 1, 0);
+    const overlap = clippedOverlap(candidateGrams, ngrams(referenceTokens, n));
+
+    if (n === 1 && overlap === 0) {
+      return 0;
+    }
+
+    const precision = n === 1 ? overlap / total : (overlap + 1) / (total + 1);
+    logPrecisionSum += Math.log(precision) / 4;
+  }
+
+  const brevityPenalty =
+    candidateTokens.length >= referenceTokens.length
+      ? 1
+      : Math.exp(1 - referenceTokens.length / candidateTokens.length);
+
+  return brevityPenalty * Math.exp(logPrecisionSum);
+}
+
+/**
+ * 1 when the headline is within the target word range, otherwise 0
+ */
+export function lengthInRange(
+  headline: string,
+  minWords: number = HEADLINE_MIN_WORDS,
+  maxWords: number = HEADLINE_MAX_WORDS
+): number {
+  const words = countWords(headline);
+  return words >= minWords && words <= maxWords ? 1 : 0;
+}
+
+/**
+ * Share of the headline's keywords (non-stopwords) that appear in the source
+ * text. Low values suggest the headline drifts from the article.
+ */
+export function keywordOverlap(headline: string, source: string): number {
+  const keywords = tokenize(headline).filter(
+    (token) => token.length > 2 && !STOPWORDS.has(token)
+  );
+
+  if (keywords.length === 0) {
+    return 0;
+  }
+
+  const sourceTokens = new Set(tokenize(source));
+  const matched = keywords.filter((token) => sourceTokens.has(token)).length;
+
+  return matched / keywords.length;
+}
+
+export function mean(values: number[]): number {
+  return values.length === 0
+    ? 0
+    : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
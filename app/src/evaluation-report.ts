@@ -0,0 +1,210 @@
+import {
+  rouge1,
+  rougeL,
+  bleu,
+  lengthInRange,
+  keywordOverlap,
+  mean,
+  HEADLINE_MIN_WORDS,
+  HEADLINE_MAX_WORDS,
+} from "./evaluation-metrics";
+import { getTaskDefinition } from "./task-definitions";
+import {
+  HeadlineScores,
+  EvaluatedExample,
+  EvaluationSummary,
+  EvaluationReport,
+  EvaluationCandidate,
+} from "./types";
+
+const CANDIDATES: EvaluationCandidate[] = ["student", "teacher", "human"];
+
+/**
+ * Score one output against the article text and, when given, the
+ * reference (human) output
+ */
+export function scoreOutput(
+  headline: string,
+  source: string,
+  reference?: string,
+  judgeScore?: number,
+  minWords: number = HEADLINE_MIN_WORDS,
+  maxWords: number = HEADLINE_MAX_WORDS
+): HeadlineScores {
+  return {
+    ...(reference !== undefined
+      ? {
+          rouge1: rouge1(headline, reference),
+          rougeL: rougeL(headline, reference),
+          bleu: bleu(headline, reference),
+        }
+      : {}),
+    lengthInRange: lengthInRange(headline, minWords, maxWords),
+    keywordOverlap: keywordOverlap(headline, source),
+    ...(judgeScore !== undefined ? { judgeScore } : {}),
+  };
+}
+
+function averageScores(scores: HeadlineScores[]): HeadlineScores {
+  const average = (field: keyof HeadlineScores) => {
+    const values = scores
+      .map((score) => score[field])
+      .filter((value): value is number => value !== undefined);
+    return values.length > 0 ? mean(values) : undefined;
+  };
+
+  const summary: HeadlineScores = {
+    lengthInRange: average("lengthInRange") ?? 0,
+    keywordOverlap: average("keywordOverlap") ?? 0,
+  };
+
+  for (const field of ["rouge1", "rougeL", "bleu", "judgeScore"] as const) {
+    const value = average(field);
+    if (value !== undefined) {
+      summary[field] = value;
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Average scores over the examples. Examples whose student call failed have
+ * no student output, so they only count towards the teacher and human
+ * scores and are reported in `studentErrors`.
+ */
+export function summarizeExamples(
+  examples: EvaluatedExample[]
+): EvaluationSummary {
+  const scores = {} as Record<EvaluationCandidate, HeadlineScores>;
+  for (const candidate of CANDIDATES) {
+    scores[candidate] = averageScores(
+      examples
+        .map((example) => example.scores[candidate])
+        .filter((score): score is HeadlineScores => score !== undefined)
+    );
+  }
+  const answered = examples.filter((example) => !example.studentError);
+
+  return {
+    exampleCount: examples.length,
+    studentErrors: examples.length - answered.length,
+    scores,
+    studentVsTeacher: {
+      rouge1: mean(
+        answered.map((e) => rouge1(e.headlines.student, e.headlines.teacher))
+      ),
+      rougeL: mean(
+        answered.map((e) => rougeL(e.headlines.student, e.headlines.teacher))
+      ),
+      bleu: mean(
+        answered.map((e) => bleu(e.headlines.student, e.headlines.teacher))
+      ),
+    },
+  };
+}
+
+export function summarizeByPublication(
+  examples: EvaluatedExample[]
+): Record<string, EvaluationSummary> {
+  const groups: Record<string, EvaluatedExample[]> = {};
+
+  for (const example of examples) {
+    groups[example.publication] = groups[example.publication] || [];
+    groups[example.publication].push(example);
+  }
+
+  return Object.fromEntries(
+    Object.entries(groups).map(([publication, group]) => [
+      publication,
+      summarizeExamples(group),
+    ])
+  );
+}
+
+function formatScore(value?: number): string {
+  return value === undefined ? "-" : value.toFixed(3);
+}
+
+function renderScoresTable(summary: EvaluationSummary): string[] {
+  const lines = [
+    "| Candidate | ROUGE-1 | ROUGE-L | BLEU | Length in range | Keyword overlap | Judge |",
+    "| --- | --- | --- | --- | --- | --- | --- |",
+  ];
+
+  for (const candidate of CANDIDATES) {
+    const scores = summary.scores[candidate];
+    lines.push(
+      `| ${candidate} | ${formatScore(scores.rouge1)} | ${formatScore(
+        scores.rougeL
+      )} | ${formatScore(scores.bleu)} | ${formatScore(
+        scores.lengthInRange
+      )} | ${formatScore(scores.keywordOverlap)} | ${formatScore(
+        scores.judgeScore
+      )} |`
+    );
+  }
+
+  return lines;
+}
+
+/**
+ * Human-readable version of the report for editors
+ */
+export function renderEvaluationMarkdown(report: EvaluationReport): string {
+  const task = getTaskDefinition(report.taskName);
+  const lines = [
+    `# Evaluation report: ${report.datasetVersion}`,
+    "",
+    `- Task: ${task.name}`,
+    `- Student model: \`${report.studentModelId}\``,
+    `- Teacher model: \`${report.teacherModelId}\``,
+    `- Judge model: ${
+      report.judgeModelId ? `\`${report.judgeModelId}\`` : "not used"
+    }`,
+    `- Test examples: ${report.overall.exampleCount}`,
+    `- Student errors: ${report.studentErrors} (left out of the student scores)`,
+    `- Created: ${report.createdAt}`,
+    "",
+    `ROUGE and BLEU are measured against the original human ${task.outputLabel}. Length in range is the share of outputs with ${task.minWords}-${task.maxWords} words.`,
+    "",
+    "## Overall",
+    "",
+    ...renderScoresTable(report.overall),
+    "",
+    `Student vs teacher: ROUGE-1 ${formatScore(
+      report.overall.studentVsTeacher.rouge1
+    )}, ROUGE-L ${formatScore(
+      report.overall.studentVsTeacher.rougeL
+    )}, BLEU ${formatScore(report.overall.studentVsTeacher.bleu)}`,
+  ];
+
+  for (const [publication, summary] of Object.entries(report.byPublication)) {
+    lines.push(
+      "",
+      `## ${publication} (${summary.exampleCount} examples, ${summary.studentErrors} student errors)`,
+      "",
+      ...renderScoresTable(summary)
+    );
+  }
+
+  const failed = report.examples.filter((example) => example.studentError);
+  if (failed.length > 0) {
+    lines.push("", "## Student errors", "");
+    for (const example of failed.slice(0, 20)) {
+      lines.push(`- **${example.articleId}**: ${example.studentError}`);
+    }
+  }
+
+  lines.push("", "## Examples", "");
+  for (const example of report.examples.slice(0, 20)) {
+    lines.push(
+      `- **${example.articleId}**`,
+      `  - Human: ${example.headlines.human}`,
+      `  - Teacher: ${example.headlines.teacher}`,
+      `  - Student: ${example.headlines.student || "(no output)"}`
+    );
+  }
+
+  return lines.join("\n") + "\n";
+}
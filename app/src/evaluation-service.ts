@@ -0,0 +1,286 @@
+import { createDatasetFormatter, ModelFamily } from "./dataset-formatter";
+import { StudentModelError } from "./errors";
+import {
+  scoreOutput,
+  summarizeExamples,
+  summarizeByPublication,
+  renderEvaluationMarkdown,
+} from "./evaluation-report";
+import { TaskDefinition, getTaskDefinition } from "./task-definitions";
+import {
+  ObjectStore,
+  TextModelClient,
+  DatasetManifest,
+  EvaluatedExample,
+  EvaluationReport,
+} from "./types";
+
+export interface EvaluationConfig {
+  manifestUri: string;
+  studentModelId: string;
+  teacherModelId: string;
+  judgeModelId?: string;
+  maxExamples?: number;
+  maxConcurrentRequests?: number;
+}
+
+export interface EvaluationResult {
+  report: EvaluationReport;
+  reportUri: string;
+  markdownUri: string;
+}
+
+interface TestExample {
+  articleId: string;
+  publication: string;
+  system?: string;
+  prompt: string;
+  teacher: string;
+  human: string;
+}
+
+export class EvaluationService {
+  private objectStore: ObjectStore;
+  private studentClient: TextModelClient;
+  private judgeClient?: TextModelClient;
+
+  constructor(
+    objectStore: ObjectStore,
+    studentClient: TextModelClient,
+    judgeClient?: TextModelClient
+  ) {
+    this.objectStore = objectStore;
+    this.studentClient = studentClient;
+    this.judgeClient = judgeClient;
+  }
+
+  /**
+   * Run the held-out test split through the student model and score the
+   * student, teacher and human outputs. The report is written as JSON and
+   * Markdown next to the dataset. Fails with a StudentModelError if every
+   * student call in the first batch fails.
+   */
+  async evaluate(config: EvaluationConfig): Promise<EvaluationResult> {
+    const manifestKey = this.objectStore.getKey(config.manifestUri);
+    const manifest: DatasetManifest = JSON.parse(
+      await this.readObject(manifestKey)
+    );
+    // Manifests written before tasks were pluggable are headline datasets
+    const task = getTaskDefinition(manifest.taskName || "headline");
+
+    let testExamples = await this.loadTestExamples(manifest);
+    if (config.maxExamples) {
+      testExamples = testExamples.slice(0, config.maxExamples);
+    }
+
+    console.log(
+      `Evaluating ${testExamples.length} test examples with student model ${config.studentModelId}`
+    );
+
+    const batchSize = config.maxConcurrentRequests || 5;
+    const examples: EvaluatedExample[] = [];
+    for (let i = 0; i < testExamples.length; i += batchSize) {
+      const batch = testExamples.slice(i, i + batchSize);
+      const evaluated = await Promise.all(
+        batch.map((e) => this.evaluateExample(e, task))
+      );
+      // Custom models only answer through Provisioned Throughput or a
+      // deployment, so stop before scoring a whole test split of errors
+      if (i === 0 && evaluated.every((e) => e.studentError)) {
+        throw new StudentModelError(
+          `Student model ${config.studentModelId} could not be invoked (${evaluated[0].studentError}). Custom models need Provisioned Throughput or a deployment before they can be evaluated.`
+        );
+      }
+      examples.push(...evaluated);
+      console.log(
+        `Evaluated ${Math.min(i + batchSize, testExamples.length)}/${
+          testExamples.length
+        } examples`
+      );
+    }
+
+    const report: EvaluationReport = {
+      taskName: task.name,
+      datasetVersion: manifest.datasetVersion,
+      manifestUri: config.manifestUri,
+      studentModelId: config.studentModelId,
+      teacherModelId: config.teacherModelId,
+      judgeModelId: this.judgeClient ? config.judgeModelId : undefined,
+      createdAt: new Date().toISOString(),
+      studentErrors: examples.filter((e) => e.studentError).length,
+      overall: summarizeExamples(examples),
+      byPublication: summarizeByPublication(examples),
+      examples,
+    };
+
+    const prefix = manifestKey.substring(0, manifestKey.lastIndexOf("/"));
+    const reportKey = `${prefix}/evaluation/report.json`;
+    const markdownKey = `${prefix}/evaluation/report.md`;
+
+    await this.objectStore.putObject(
+      reportKey,
+      JSON.stringify(report, null, 2),
+      { contentType: "application/json" }
+    );
+    await this.objectStore.putObject(
+      markdownKey,
+      renderEvaluationMarkdown(report),
+      { contentType: "text/markdown" }
+    );
+
+    console.log(
+      `Evaluation report written to ${this.objectStore.getUri(reportKey)}`
+    );
+
+    return {
+      report,
+      reportUri: this.objectStore.getUri(reportKey),
+      markdownUri: this.objectStore.getUri(markdownKey),
+    };
+  }
+
+  private async readObject(key: string): Promise<string> {
+    const body = await this.objectStore.getObject(key);
+
+    if (body === undefined) {
+      throw new Error(`${this.objectStore.getUri(key)} not found`);
+    }
+
+    return body;
+  }
+
+  /**
+   * Join the formatted test split with its metadata sidecar rows
+   */
+  private async loadTestExamples(
+    manifest: DatasetManifest
+  ): Promise<TestExample[]> {
+    const formatter = createDatasetFormatter(
+      manifest.modelFamily as ModelFamily
+    );
+    const records = (
+      await this.readObject(this.objectStore.getKey(manifest.files.test.uri))
+    )
+      .split("\n")
+      .filter((line) => line.trim() !== "")
+      .map((line) => formatter.parseRecord(JSON.parse(line)));
+
+    const metadata = (
+      await this.readObject(this.objectStore.getKey(manifest.metadataUri))
+    )
+      .split("\n")
+      .filter((line) => line.trim() !== "")
+      .map((line) => JSON.parse(line))
+      .filter((row) => row.split === "test");
+
+    const metadataByIndex = new Map<number, Record<string, any>>(
+      metadata.map((row) => [row.index, row])
+    );
+
+    return records.map((record, index) => {
+      const row = metadataByIndex.get(index) || {};
+      return {
+        articleId: String(row.articleId ?? index),
+        publication: String(row.publication ?? "unknown"),
+        system: record.system,
+        prompt: record.prompt,
+        teacher: record.completion,
+        human: String(row.originalTarget ?? row.originalTitle ?? ""),
+      };
+    });
+  }
+
+  private async evaluateExample(
+    example: TestExample,
+    task: TaskDefinition
+  ): Promise<EvaluatedExample> {
+    let student = "";
+    let studentError: string | undefined;
+
+    try {
+      student = await this.studentClient.generate(
+        example.prompt,
+        example.system
+      );
+    } catch (error) {
+      studentError = error instanceof Error ? error.message : String(error);
+      console.error(
+        `Student model failed for article ${example.articleId}:`,
+        error
+      );
+    }
+
+    // The prompt holds the article text the models saw
+    const source = example.prompt;
+    const score = (output: string, reference?: string, judgeScore?: number) =>
+      scoreOutput(
+        output,
+        source,
+        reference,
+        judgeScore,
+        task.minWords,
+        task.maxWords
+      );
+
+    return {
+      articleId: example.articleId,
+      publication: example.publication,
+      headlines: { student, teacher: example.teacher, human: example.human },
+      scores: {
+        // A failed call has no output to score, see studentErrors
+        ...(studentError
+          ? {}
+          : {
+              student: score(
+                student,
+                example.human,
+                await this.judge(task, source, student)
+              ),
+            }),
+        teacher: score(
+          example.teacher,
+          example.human,
+          await this.judge(task, source, example.teacher)
+        ),
+        human: score(
+          example.human,
+          undefined,
+          await this.judge(task, source, example.human)
+        ),
+      },
+      ...(studentError ? { studentError } : {}),
+    };
+  }
+
+  /**
+   * Optional LLM-as-judge rubric score from 1 to 5
+   */
+  private async judge(
+    task: TaskDefinition,
+    source: string,
+    output: string
+  ): Promise<number | undefined> {
+    if (!this.judgeClient) {
+      return undefined;
+    }
+
+    const label = task.outputLabel;
+    const prompt = `You are reviewing ${label}s for a news publication. Rate the ${label} for the article below from 1 (poor) to 5 (excellent), considering:
+${task.judgeCriteria.map((criterion) => `- ${criterion}`).join("\n")}
+
+${source}
+
+${label.charAt(0).toUpperCase()}${label.slice(1)}: ${output}
+
+Rate the ${label} with a single number from 1 to 5.`;
+
+    try {
+      const response = await this.judgeClient.generate(prompt);
+      const match = response.match(/[1-5]/);
+      return match ? parseInt(match[0], 10) : undefined;
+    } catch (error) {
+      console.error("Judge model failed:", error);
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,412 @@
+import { BedrockTeacherClient } from "./bedrock-teacher-client";
+import { RequestScheduler } from "./request-scheduler";
+import { estimateTokens } from "./token-estimator";
+import { TaskDefinition } from "./task-definitions";
+import {
+  FactCheckConfig,
+  FactCheckPolicy,
+  PromptExample,
+  TeacherModelClient,
+  TeacherRateLimits,
+  TrainingExample,
+} from "./types";
+
+const JUDGE_MAX_TOKENS = 10;
+
+// Position is the value: "zero" is 0, "twenty" is 20
+const UNIT_WORDS = (
+  "zero one two three four five six seven eight nine ten eleven twelve " +
+  "thirteen fourteen fifteen sixteen seventeen eighteen nineteen twenty"
+).split(" ");
+const TENS_WORDS = "thirty forty fifty sixty seventy eighty ninety".split(" ");
+
+const NUMBER_SCALES: Record<string, number> = {
+  hundred: 100,
+  thousand: 1000,
+  k: 1000,
+  million: 1000000,
+  m: 1000000,
+  billion: 1000000000,
+  bn: 1000000000,
+};
+
+const QUOTE_PATTERNS = [
+  /"([^"]+)"/g,
+  /“([^”]+)”/g,
+  // Single quotes only where they cannot be apostrophes
+  /(?<![\p{L}\p{N}])[‘']([^‘’']+)[’'](?![\p{L}\p{N}])/gu,
+];
+
+export type ClaimKind = "entity" | "number" | "quote";
+
+/**
+ * A checkable statement in a completion: a proper name, a figure or a
+ * direct quote
+ */
+export interface Claim {
+  kind: ClaimKind;
+  value: string;
+}
+
+export type FactCheckStatus =
+  | "supported"
+  | "unsupported"
+  | "judged-supported"
+  | "judged-unsupported";
+
+export interface FactCheckResult {
+  articleId: string;
+  completion: string;
+  status: FactCheckStatus;
+  unsupported: Claim[];
+}
+
+export interface FactCheckStats {
+  checked: number;
+  supported: number;
+  unsupported: number;
+  /**
+   * Borderline completions sent to the judge, and how many it cleared
+   */
+  judged: number;
+  judgedSupported: number;
+  dropped: number;
+}
+
+export interface FactualConsistencyConfig extends FactCheckConfig {
+  task: TaskDefinition;
+  teacherModelId: string;
+  region: string;
+  rateLimits: TeacherRateLimits;
+}
+
+export interface FactualConsistencyDependencies {
+  /**
+   * Defaults to Bedrock; replaced by a stub in local mode
+   */
+  judgeClient?: TeacherModelClient;
+  scheduler?: RequestScheduler;
+}
+
+/**
+ * Lowercase with inflections and possessives removed, so "Approves" in a
+ * title-case headline matches "approved" in the article
+ */
+function stem(word: string): string {
+  const lower = word.toLowerCase().replace(/['’]s?$/, "");
+  const stripped = lower.replace(/(ing|ed|es|s|d)$/, "");
+  return stripped.length >= 3 ? stripped : lower;
+}
+
+function wordStems(text: string): Set<string> {
+  return new Set(
+    (text.match(/[\p{L}\p{N}]+(?:['’][\p{L}]+)?/gu) || []).map(stem)
+  );
+}
+
+/**
+ * Text reduced to lowercase words, so quotes match whatever the
+ * punctuation and quote marks around them
+ */
+function normalizeText(text: string): string {
+  return ` ${text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[^\p{L}\p{N}']+/gu, " ")
+    .trim()} `;
+}
+
+function parseNumber(value: string): number {
+  return parseFloat(value.replace(/,/g, ""));
+}
+
+/**
+ * Every number the text states, in figures or words, including scaled
+ * values such as 4200000 for "4.2 million"
+ */
+function numbersIn(text: string): Set<number> {
+  const numbers = new Set<number>();
+
+  for (const match of text.matchAll(
+    /(\d+(?:[.,]\d+)*)\s*(hundred|thousand|million|billion|bn|m|k)?\b/gi
+  )) {
+    const value = parseNumber(match[1]);
+    numbers.add(value);
+    if (match[2]) {
+      // Rounded so 4.2 million is 4200000 despite floating point
+      numbers.add(Math.round(value * NUMBER_SCALES[match[2].toLowerCase()]));
+    }
+  }
+
+  for (const word of text.toLowerCase().match(/\p{L}+/gu) || []) {
+    if (UNIT_WORDS.includes(word)) {
+      numbers.add(UNIT_WORDS.indexOf(word));
+    } else if (TENS_WORDS.includes(word)) {
+      numbers.add((TENS_WORDS.indexOf(word) + 3) * 10);
+    }
+  }
+
+  return numbers;
+}
+
+/**
+ * Runs of capitalised words. A single capitalised word opening a sentence
+ * is ordinary sentence case, not a name.
+ */
+function extractEntities(text: string): string[] {
+  const entities: string[] = [];
+  let run: string[] = [];
+  let runStartsSentence = false;
+  let sentenceStart = true;
+
+  const endRun = () => {
+    if (run.length > 1 || (run.length === 1 && !runStartsSentence)) {
+      entities.push(run.join(" "));
+    }
+    run = [];
+  };
+
+  for (const token of text.split(/\s+/)) {
+    const word = token.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, "");
+
+    if (/^\p{Lu}/u.test(word)) {
+      if (run.length === 0) {
+        runStartsSentence = sentenceStart;
+      }
+      run.push(word);
+    } else {
+      endRun();
+    }
+
+    sentenceStart = /[.!?:]["'”’)]*$/.test(token);
+    // Punctuation after a word ends the name it belongs to
+    if (/[,;:.!?]["'”’)]*$/.test(token)) {
+      endRun();
+    }
+  }
+  endRun();
+
+  return entities;
+}
+
+function extractQuotes(text: string): string[] {
+  return QUOTE_PATTERNS.flatMap((pattern) =>
+    Array.from(text.matchAll(pattern), (match) => match[1].trim())
+  ).filter((quote) => quote.split(/\s+/).length >= 2);
+}
+
+/**
+ * The names, figures and quotes a completion states
+ */
+export function extractClaims(completion: string): Claim[] {
+  return [
+    ...extractEntities(completion).map(
+      (value): Claim => ({ kind: "entity", value })
+    ),
+    ...(completion.match(/\d+(?:[.,]\d+)*/g) || []).map(
+      (value): Claim => ({ kind: "number", value })
+    ),
+    ...extractQuotes(completion).map(
+      (value): Claim => ({ kind: "quote", value })
+    ),
+  ];
+}
+
+/**
+ * Claims in the completion that the source does not contain. Names need
+ * every word present, figures the same number, and quotes the same words
+ * in order (each part separately when the quote is elided with "...").
+ */
+export function findUnsupportedClaims(
+  completion: string,
+  source: string
+): Claim[] {
+  const sourceStems = wordStems(source);
+  const sourceNumbers = numbersIn(source);
+  const sourceText = normalizeText(source);
+
+  return extractClaims(completion).filter((claim) => {
+    switch (claim.kind) {
+      case "entity":
+        return Array.from(wordStems(claim.value)).some(
+          (word) => !sourceStems.has(word)
+        );
+      case "number":
+        return !sourceNumbers.has(parseNumber(claim.value));
+      case "quote":
+        return claim.value
+          .split(/\.{3}|…/)
+          .map(normalizeText)
+          .some((part) => part.trim() !== "" && !sourceText.includes(part));
+    }
+  });
+}
+
+/**
+ * Checks teacher completions against the article they came from, so names,
+ * figures and quotes the teacher invented are flagged or dropped before
+ * they become training targets
+ */
+export class FactualConsistencyValidator {
+  private task: TaskDefinition;
+  private policy: FactCheckPolicy;
+  private judgeClient?: TeacherModelClient;
+  private scheduler: RequestScheduler;
+  private results: FactCheckResult[] = [];
+  private stats: FactCheckStats = {
+    checked: 0,
+    supported: 0,
+    unsupported: 0,
+    judged: 0,
+    judgedSupported: 0,
+    dropped: 0,
+  };
+
+  constructor(
+    config: FactualConsistencyConfig,
+    dependencies: FactualConsistencyDependencies = {}
+  ) {
+    this.task = config.task;
+    this.policy = config.policy;
+    if (config.judgeBorderline) {
+      this.judgeClient =
+        dependencies.judgeClient ||
+        new BedrockTeacherClient(config.region, config.teacherModelId, {
+          maxTokens: JUDGE_MAX_TOKENS,
+          temperature: 0,
+        });
+    }
+    this.scheduler =
+      dependencies.scheduler || new RequestScheduler(config.rateLimits);
+  }
+
+  getStats(): FactCheckStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Results for completions that were not plainly supported
+   */
+  getFailures(): FactCheckResult[] {
+    return this.results.filter((result) => result.status !== "supported");
+  }
+
+  /**
+   * Check every teacher completion. Human-written fallbacks are left alone.
+   * Under "drop" failing completions are removed; under "flag" they are
+   * kept with the result in their metadata.
+   */
+  async validate(
+    prompts: PromptExample[],
+    examples: TrainingExample[]
+  ): Promise<PromptExample[]> {
+    if (this.policy === "off") {
+      return prompts;
+    }
+
+    const sources = new Map(
+      examples.map((example) => [example.articleId, example])
+    );
+    const checked = await Promise.all(
+      prompts.map(async (prompt) => {
+        const example = sources.get(prompt.metadata?.articleId);
+        if (!example || prompt.metadata?.teacherModelError) {
+          return prompt;
+        }
+
+        const result = await this.check(prompt.completion, example);
+        this.results.push(result);
+        return {
+          ...prompt,
+          metadata: {
+            ...prompt.metadata,
+            factCheck: {
+              status: result.status,
+              ...(result.unsupported.length > 0
+                ? { unsupported: result.unsupported }
+                : {}),
+            },
+          },
+        };
+      })
+    );
+
+    const kept = checked.filter((prompt) => {
+      const status = prompt.metadata?.factCheck?.status;
+      const failed =
+        status === "unsupported" || status === "judged-unsupported";
+      if (failed && this.policy === "drop") {
+        this.stats.dropped++;
+        return false;
+      }
+      return true;
+    });
+
+    console.log(`Fact check (${this.policy}): ${JSON.stringify(this.stats)}`);
+    return kept;
+  }
+
+  private async check(
+    completion: string,
+    example: TrainingExample
+  ): Promise<FactCheckResult> {
+    const unsupported = findUnsupportedClaims(completion, example.content);
+    let status: FactCheckStatus =
+      unsupported.length === 0 ? "supported" : "unsupported";
+
+    // Name matching is the least reliable check, so a completion whose
+    // figures and quotes all hold up gets a second opinion
+    const borderline =
+      unsupported.length > 0 &&
+      unsupported.every((claim) => claim.kind === "entity");
+    if (borderline && this.judgeClient) {
+      this.stats.judged++;
+      status = (await this.judge(completion, example))
+        ? "judged-supported"
+        : "judged-unsupported";
+    }
+
+    this.stats.checked++;
+    if (status === "supported" || status === "judged-supported") {
+      this.stats.supported++;
+      this.stats.judgedSupported += status === "judged-supported" ? 1 : 0;
+    } else {
+      this.stats.unsupported++;
+    }
+
+    return { articleId: example.articleId, completion, status, unsupported };
+  }
+
+  /**
+   * Ask the teacher whether the article backs the completion. A failed or
+   * unclear answer counts as not supported.
+   */
+  private async judge(
+    completion: string,
+    example: TrainingExample
+  ): Promise<boolean> {
+    const judgeClient = this.judgeClient as TeacherModelClient;
+    const label = this.task.outputLabel;
+    const prompt = `Check a ${label} written for the news article below against the article.
+
+${example.content}
+
+${label.charAt(0).toUpperCase()}${label.slice(1)}: ${completion}
+
+Is every name, number and quote in the ${label} supported by the article? Answer with a single word: SUPPORTED or UNSUPPORTED.`;
+
+    try {
+      const response = await this.scheduler.schedule(
+        () => judgeClient.generate(prompt, example),
+        estimateTokens(prompt) + JUDGE_MAX_TOKENS
+      );
+      return /\bSUPPORTED\b/i.test(response) && !/UNSUPPORTED/i.test(response);
+    } catch (error) {
+      console.error(
+        `Fact-check judge failed for article ${example.articleId}:`,
+        error
+      );
+      return false;
+    }
+  }
+}
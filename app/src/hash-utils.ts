@@ -0,0 +1,12 @@
+import { createHash } from "crypto";
+
+export function sha256Hex(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+/**
+ * Map a string to a stable number in [0, 1)
+ */
+export function hashToUnitInterval(value: string): number {
+  return parseInt(sha256Hex(value).substring(0, 8), 16) / 0x100000000;
+}
@@ -0,0 +1,136 @@
+import { hashToUnitInterval } from "./hash-utils";
+import { DatasetRetentionConfig, PromptExample } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface MergeResult {
+  examples: PromptExample[];
+  /**
+   * Parent examples replaced by a new example for the same article
+   */
+  replaced: number;
+  /**
+   * Parent examples of articles the run excludes
+   */
+  excluded: number;
+}
+
+export interface RetentionResult {
+  kept: PromptExample[];
+  droppedByAge: number;
+  droppedBySize: number;
+}
+
+export function getArticleId(prompt: PromptExample): string {
+  return String(prompt.metadata?.articleId ?? prompt.prompt);
+}
+
+/**
+ * Publication time of the example's article, or NaN when it has none
+ */
+function getPublishedTime(prompt: PromptExample): number {
+  return Date.parse(String(prompt.metadata?.publishedDate ?? ""));
+}
+
+/**
+ * Latest publication date among the examples and the previous high-water
+ * mark
+ */
+export function findHighWaterMark(
+  examples: PromptExample[],
+  previous?: string
+): string | undefined {
+  return examples.reduce<string | undefined>((latest, prompt) => {
+    const publishedDate = prompt.metadata?.publishedDate;
+    return typeof publishedDate === "string" &&
+      (!latest || publishedDate > latest)
+      ? publishedDate
+      : latest;
+  }, previous);
+}
+
+/**
+ * One example per article: the parent's examples, then the new ones. A new
+ * example replaces the parent's for the same article, and excluded articles
+ * are removed from the parent too.
+ */
+export function mergeExamples(
+  parent: PromptExample[],
+  added: PromptExample[],
+  excludeArticleIds: string[]
+): MergeResult {
+  const excludedIds = new Set(excludeArticleIds);
+  const addedIds = new Set(added.map(getArticleId));
+  const examples = new Map<string, PromptExample>();
+  let replaced = 0;
+  let excluded = 0;
+
+  for (const prompt of parent) {
+    const articleId = getArticleId(prompt);
+    if (excludedIds.has(articleId)) {
+      excluded++;
+    } else if (addedIds.has(articleId)) {
+      replaced++;
+    } else {
+      examples.set(articleId, prompt);
+    }
+  }
+  for (const prompt of added) {
+    examples.set(getArticleId(prompt), prompt);
+  }
+
+  return { examples: Array.from(examples.values()), replaced, excluded };
+}
+
+/**
+ * Drop examples older than the maximum age, then cut the rest down to the
+ * maximum size. Under "recency-weighted" the examples kept are a weighted
+ * sample without replacement (Efraimidis-Spirakis), where the weight halves
+ * every `halfLifeDays` and the seed makes the sample repeatable. Examples
+ * without a publication date count as the oldest.
+ */
+export function applyRetention(
+  examples: PromptExample[],
+  retention: DatasetRetentionConfig,
+  seed: string
+): RetentionResult {
+  const times = examples.map(getPublishedTime);
+  const newest = times.reduce(
+    (latest, time) => (time > latest ? time : latest),
+    Number.NEGATIVE_INFINITY
+  );
+  const ages = times.map((time) =>
+    isNaN(time) ? Number.POSITIVE_INFINITY : (newest - time) / DAY_MS
+  );
+
+  let candidates = examples.map((_, index) => index);
+  if (retention.maxAgeDays !== undefined) {
+    const maxAgeDays = retention.maxAgeDays;
+    candidates = candidates.filter((index) => ages[index] <= maxAgeDays);
+  }
+  const droppedByAge = examples.length - candidates.length;
+
+  const maxExamples = retention.maxExamples ?? candidates.length;
+  if (candidates.length > maxExamples) {
+    const keys = candidates.map((index) => {
+      if (retention.sampling === "newest") {
+        return -ages[index];
+      }
+      const weight = Math.pow(0.5, ages[index] / retention.halfLifeDays);
+      const u = hashToUnitInterval(`${seed}:${getArticleId(examples[index])}`);
+      return Math.log(u) / weight;
+    });
+    candidates = candidates
+      .map((index, i) => ({ index, key: keys[i] }))
+      .sort((a, b) => b.key - a.key || a.index - b.index)
+      .slice(0, maxExamples)
+      .map(({ index }) => index)
+      .sort((a, b) => a - b);
+  }
+
+  return {
+    kept: candidates.map((index) => examples[index]),
+    droppedByAge,
+    droppedBySize: examples.length - droppedByAge - candidates.length,
+  };
+}
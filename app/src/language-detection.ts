@@ -0,0 +1,72 @@
+import { tokenize } from "./evaluation-metrics";
+
+// Enough words to be confident without scanning whole long-reads
+const SAMPLE_WORDS = 300;
+// Below this share of stopwords no language is recognised
+const MIN_STOPWORD_RATIO = 0.15;
+
+/**
+ * The most frequent function words of each language. Running text is
+ * roughly a third stopwords, while the lists barely overlap.
+ */
+const STOPWORDS: Record<string, string> = {
+  en:
+    "the and of to in is that it was for on with he she as his her at by " +
+    "this had from are were have has been which their they will would an but " +
+    "not after said",
+  de:
+    "der die und das ist nicht ein eine zu den von mit sich des auf für im " +
+    "dem auch es an werden aus er hat dass sie nach wird bei noch wie einem " +
+    "über einen so zum war",
+  fr:
+    "le la les de des et un une du est que qui dans pour pas au sur ne se " +
+    "par avec il elle sont ce cette aux ont été mais plus ou son sa leur " +
+    "nous vous a",
+  es:
+    "el la los las de del y en que un una es por con para se no al lo como " +
+    "más su sus pero fue ha este esta son también entre cuando muy sin sobre " +
+    "ya han",
+  it:
+    "il lo la gli le di del della e che un una per non con sono nel nella " +
+    "alla si da al dei ha ma come anche più questo questa era essere stato " +
+    "sua suo degli delle",
+  nl:
+    "de het een en van is dat op te niet zijn voor met die ook aan er maar " +
+    "om bij nog naar wordt heeft hij ze werd door dan zo als uit worden wel " +
+    "geen deze meer",
+  pt:
+    "o a os as de do da dos das e que em no na um uma para com não por se " +
+    "mais foi ao como mas ele ela seu sua são também pelo pela nos nas já " +
+    "está",
+};
+
+const STOPWORD_SETS = Object.entries(STOPWORDS).map(
+  ([language, words]) => [language, new Set(words.split(" "))] as const
+);
+
+export const SUPPORTED_LANGUAGES = Object.keys(STOPWORDS);
+
+/**
+ * ISO 639-1 code of the language the text is most likely written in, by the
+ * share of its words that are that language's stopwords, or undefined when
+ * no language stands out
+ */
+export function detectLanguage(text: string): string | undefined {
+  const words = tokenize(text).slice(0, SAMPLE_WORDS);
+  if (words.length === 0) {
+    return undefined;
+  }
+
+  let best: string | undefined;
+  let bestRatio = MIN_STOPWORD_RATIO;
+  for (const [language, stopwords] of STOPWORD_SETS) {
+    const ratio =
+      words.filter((word) => stopwords.has(word)).length / words.length;
+    if (ratio > bestRatio) {
+      best = language;
+      bestRatio = ratio;
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,106 @@
+import { getPipelineMode, loadTrainingConfig } from "./config";
+import { ConfigError } from "./errors";
+import {
+  createObjectStore,
+  createModelLifecycleService,
+} from "./pipeline-services";
+import { ModelLifecycleManager } from "./model-lifecycle";
+import { RunRegistry } from "./run-registry";
+import { TaskCallbackService } from "./task-callback";
+
+const STEPS = ["provision", "release", "alias", "cleanup"];
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new ConfigError(`${name} environment variable is required`);
+  }
+  return value;
+}
+
+function parsePositiveInt(name: string, defaultValue: number): number {
+  const value = process.env[name];
+  if (value === undefined || value === "") {
+    return defaultValue;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new ConfigError(
+      `Invalid ${name} "${value}", expected a whole number of at least 1`
+    );
+  }
+  return parsed;
+}
+
+/**
+ * Entry point for the model lifecycle tasks: `lifecycle.js provision` once
+ * a model is trained, `release` if it is rejected, `alias` and `cleanup`
+ * once it is promoted
+ */
+async function main() {
+  const region = process.env.AWS_REGION || "eu-west-1";
+  const callback = new TaskCallbackService(region, process.env.TASK_TOKEN);
+
+  try {
+    // Inside the try, so an invalid config fails the step instead of
+    // leaving Step Functions waiting for the callback
+    const mode = getPipelineMode();
+    const config = loadTrainingConfig(mode);
+
+    const step = process.argv[2];
+    if (!STEPS.includes(step)) {
+      throw new ConfigError(
+        `Unknown lifecycle step "${step}", expected one of ${STEPS.join(", ")}`
+      );
+    }
+
+    const objectStore = createObjectStore(mode, config, region);
+    const manager = new ModelLifecycleManager(
+      {
+        taskName: config.taskName,
+        publicationId: config.publicationId,
+        stage: process.env.STAGE || "dev",
+        trainingRunId: config.trainingRunId,
+      },
+      {
+        bedrock: createModelLifecycleService(mode, region),
+        objectStore,
+        registry: new RunRegistry(objectStore),
+      }
+    );
+
+    let output: object;
+    if (step === "provision") {
+      output = await manager.provisionThroughput(requireEnv("MODEL_ARN"), {
+        modelUnits: parsePositiveInt("PROVISIONED_MODEL_UNITS", 1),
+      });
+    } else if (step === "release") {
+      output = await manager.releaseThroughput();
+    } else if (step === "alias") {
+      output = await manager.updateAlias({
+        modelArn: requireEnv("MODEL_ARN"),
+        provisionedModelArn: process.env.PROVISIONED_MODEL_ARN || undefined,
+        jobArn: process.env.BEDROCK_JOB_ARN || "",
+        datasetVersion: process.env.DATASET_VERSION || "",
+      });
+    } else {
+      output = await manager.cleanup(
+        parsePositiveInt("MODEL_RETENTION_COUNT", 3)
+      );
+    }
+    await callback.sendSuccess(output);
+
+    console.log(`Model lifecycle step ${step} completed successfully`);
+    process.exit(0);
+  } catch (error) {
+    console.error("Model lifecycle step failed:", error);
+    await callback.sendFailure(error);
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error("Unhandled error:", error);
+  process.exit(1);
+});
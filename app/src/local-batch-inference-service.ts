@@ -0,0 +1,61 @@
+import {
+  BatchInferenceJobRequest,
+  BatchInferenceJobStatus,
+  BatchInferenceService,
+  ObjectStore,
+  TextModelClient,
+} from "./types";
+
+/**
+ * Simulates a batch inference job in local mode. The input file is answered
+ * straight away by a local model and the output written where Bedrock would
+ * put it, so the batch code path can run without AWS.
+ */
+export class LocalBatchInferenceService implements BatchInferenceService {
+  // No minimum, so the fixtures can exercise the batch path
+  readonly minRecords = 1;
+  private objectStore: ObjectStore;
+  private client: TextModelClient;
+
+  constructor(objectStore: ObjectStore, client: TextModelClient) {
+    this.objectStore = objectStore;
+    this.client = client;
+  }
+
+  async submitJob(request: BatchInferenceJobRequest): Promise<string> {
+    const jobId = request.jobName;
+    const inputKey = this.objectStore.getKey(request.inputS3Uri);
+    const input = (await this.objectStore.getObject(inputKey)) || "";
+
+    const outputLines: string[] = [];
+    for (const line of input.split("\n")) {
+      if (line.trim() === "") {
+        continue;
+      }
+
+      const record = JSON.parse(line);
+      const text = await this.client.generate(
+        record.modelInput.messages[0].content
+      );
+      outputLines.push(
+        JSON.stringify({
+          ...record,
+          modelOutput: { content: [{ type: "text", text }] },
+        })
+      );
+    }
+
+    const inputFileName = inputKey.split("/").pop();
+    const outputPrefix = this.objectStore
+      .getKey(request.outputS3Uri)
+      .replace(/\/$/, "");
+    const outputKey = `${outputPrefix}/${jobId}/${inputFileName}.out`;
+    await this.objectStore.putObject(outputKey, outputLines.join("\n"));
+
+    return `arn:local:bedrock:::model-invocation-job/${jobId}`;
+  }
+
+  async getJobStatus(_jobArn: string): Promise<BatchInferenceJobStatus> {
+    return { status: "Completed" };
+  }
+}
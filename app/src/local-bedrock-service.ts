@@ -0,0 +1,87 @@
+import {
+  TrainingConfig,
+  ProcessingResult,
+  BedrockTrainingJobConfig,
+  ModelCustomizationService,
+  ModelLifecycleService,
+  ProvisionedThroughput,
+  ProvisionedThroughputOptions,
+  CustomModelSummary,
+} from "./types";
+
+/**
+ * Simulates job submission in local mode. Logs the request that would have
+ * been sent to Bedrock and returns a placeholder job ARN. Provisioned
+ * Throughput is created in service straight away, and there are no earlier
+ * custom models to clean up.
+ */
+export class LocalBedrockService
+  implements ModelCustomizationService, ModelLifecycleService
+{
+  async createModelCustomizationJob(
+    config: TrainingConfig,
+    result: ProcessingResult,
+    bedrockConfig: BedrockTrainingJobConfig
+  ): Promise<string> {
+    const jobArn = `arn:local:bedrock:::model-customization-job/${config.trainingRunId}`;
+
+    console.log("Simulated Bedrock model customization job:", {
+      jobArn,
+      baseModelArn: bedrockConfig.baseModelArn,
+      trainingDataS3Uri: result.s3Location,
+      validationDataS3Uri: result.validationS3Location,
+      outputDataConfigS3Uri: bedrockConfig.outputDataConfigS3Uri,
+      promptCount: result.promptCount,
+    });
+
+    return jobArn;
+  }
+
+  async getJobStatus(_jobArn: string): Promise<string> {
+    return "COMPLETED";
+  }
+
+  async getProvisionedThroughput(
+    _name: string
+  ): Promise<ProvisionedThroughput | undefined> {
+    return undefined;
+  }
+
+  async createProvisionedThroughput(
+    name: string,
+    modelArn: string,
+    options: ProvisionedThroughputOptions
+  ): Promise<ProvisionedThroughput> {
+    const throughput: ProvisionedThroughput = {
+      provisionedModelName: name,
+      provisionedModelArn: `arn:local:bedrock:::provisioned-model/${name}`,
+      modelArn,
+      status: "InService",
+    };
+    console.log("Simulated Provisioned Throughput:", {
+      ...throughput,
+      options,
+    });
+    return throughput;
+  }
+
+  async listProvisionedThroughputs(
+    _modelArn: string
+  ): Promise<ProvisionedThroughput[]> {
+    return [];
+  }
+
+  async deleteProvisionedThroughput(
+    provisionedModelArn: string
+  ): Promise<void> {
+    console.log(`Simulated deletion of ${provisionedModelArn}`);
+  }
+
+  async listCustomModels(_namePrefix: string): Promise<CustomModelSummary[]> {
+    return [];
+  }
+
+  async deleteCustomModel(modelArn: string): Promise<void> {
+    console.log(`Simulated deletion of ${modelArn}`);
+  }
+}
@@ -0,0 +1,219 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { parseCsv } from "./csv-parser";
+import {
+  AthenaSchemaMapping,
+  DataSourceLineage,
+  QuarantinedRow,
+  TrainingExample,
+  TrainingConfig,
+  TrainingDataFilters,
+  TrainingDataSource,
+} from "./types";
+
+const EXCERPT_LENGTH = 200;
+
+// Accept the mapped column names, the default Athena column names and the
+// TrainingExample field names
+const FIELD_ALIASES: Record<keyof TrainingExample, string[]> = {
+  articleId: ["articleId", "article_id"],
+  title: ["title"],
+  content: ["content"],
+  publication: ["publication", "publication_id"],
+  publishedDate: ["publishedDate", "published_date"],
+  metadata: ["metadata"],
+};
+
+/**
+ * Reads training examples from a local JSONL or CSV fixture file, applying
+ * the same filters as the Athena query. The look-back window is not applied
+ * so fixtures don't go stale; an explicit date range is.
+ */
+export class LocalDataService implements TrainingDataSource {
+  private filePath: string;
+  private quarantine: QuarantinedRow[] = [];
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  getQuarantinedRows(): QuarantinedRow[] {
+    return this.quarantine;
+  }
+
+  getLineage(): DataSourceLineage {
+    return { uri: path.resolve(this.filePath) };
+  }
+
+  async *queryTrainingData(
+    config: TrainingConfig
+  ): AsyncIterable<TrainingExample> {
+    console.log(`Reading local training data from ${this.filePath}`);
+    this.quarantine = [];
+
+    // Fixtures are small, so the file is read whole and sorted like the
+    // Athena query
+    const text = await fs.readFile(this.filePath, "utf8");
+    const records =
+      path.extname(this.filePath).toLowerCase() === ".csv"
+        ? this.parseCsvRecords(text)
+        : this.parseJsonlRecords(text);
+
+    const results: TrainingExample[] = [];
+    for (const [row, record] of records) {
+      const example = this.toExample(record, row, config.athenaSchema);
+      if (example && this.matchesFilters(record, example, config)) {
+        results.push(example);
+      }
+    }
+    results.sort((a, b) => b.publishedDate.localeCompare(a.publishedDate));
+
+    console.log(
+      `Retrieved ${results.length} examples from local file (${this.quarantine.length} rows quarantined)`
+    );
+
+    yield* results;
+  }
+
+  private quarantineRow(
+    row: number,
+    reason: string,
+    detail: string,
+    raw: string,
+    articleId?: string
+  ): void {
+    this.quarantine.push({
+      row,
+      reason,
+      detail,
+      ...(articleId ? { articleId } : {}),
+      excerpt: raw.slice(0, EXCERPT_LENGTH),
+    });
+  }
+
+  /**
+   * Records by line number, quarantining lines that are not JSON objects
+   */
+  private parseJsonlRecords(
+    text: string
+  ): Array<[number, Record<string, any>]> {
+    const records: Array<[number, Record<string, any>]> = [];
+
+    text.split("\n").forEach((line, i) => {
+      if (line.trim() === "") {
+        return;
+      }
+      try {
+        records.push([i + 1, JSON.parse(line)]);
+      } catch (error) {
+        this.quarantineRow(
+          i + 1,
+          "invalid-json",
+          (error as Error).message,
+          line
+        );
+      }
+    });
+
+    return records;
+  }
+
+  /**
+   * Records by row number after the header, quarantining rows with the
+   * wrong number of fields
+   */
+  private parseCsvRecords(text: string): Array<[number, Record<string, any>]> {
+    const [header, ...rows] = parseCsv(text);
+
+    if (!header) {
+      return [];
+    }
+
+    const records: Array<[number, Record<string, any>]> = [];
+    rows.forEach((row, i) => {
+      if (row.length !== header.length) {
+        this.quarantineRow(
+          i + 1,
+          "field-count",
+          `${row.length} fields, expected ${header.length}`,
+          row.join(",")
+        );
+        return;
+      }
+      records.push([
+        i + 1,
+        Object.fromEntries(header.map((column, j) => [column, row[j]])),
+      ]);
+    });
+
+    return records;
+  }
+
+  private matchesFilters(
+    record: Record<string, any>,
+    example: TrainingExample,
+    config: TrainingConfig
+  ): boolean {
+    const filters: TrainingDataFilters = config.dataFilters;
+    const schema = config.athenaSchema;
+    // Filter columns may be top-level fields or metadata keys in fixtures
+    const matches = (values: string[], column: string) =>
+      values.length === 0 ||
+      values.includes(String(record[column] ?? example.metadata?.[column]));
+    const date = example.publishedDate.slice(0, 10);
+
+    return (
+      (filters.publicationIds.length === 0 ||
+        filters.publicationIds.includes(example.publication)) &&
+      matches(filters.sections, schema.section) &&
+      matches(filters.authors, schema.author) &&
+      matches(filters.contentTypes, schema.contentType) &&
+      !filters.excludeArticleIds.includes(example.articleId) &&
+      (!filters.startDate || date >= filters.startDate) &&
+      (!filters.endDate || date <= filters.endDate)
+    );
+  }
+
+  private toExample(
+    record: Record<string, any>,
+    row: number,
+    schema: AthenaSchemaMapping
+  ): TrainingExample | undefined {
+    const field = (name: keyof TrainingExample) => {
+      const alias = [schema[name], ...FIELD_ALIASES[name]].find(
+        (key) => key !== undefined && key in record
+      );
+      return alias ? record[alias] : undefined;
+    };
+
+    let metadata = field("metadata");
+    if (typeof metadata === "string" && metadata !== "") {
+      try {
+        metadata = JSON.parse(metadata);
+      } catch (error) {
+        this.quarantineRow(
+          row,
+          "invalid-metadata",
+          (error as Error).message,
+          JSON.stringify(record),
+          String(field("articleId") ?? "")
+        );
+        return undefined;
+      }
+    }
+    const metadataColumns = Object.fromEntries(
+      Object.entries(schema.metadataColumns)
+        .filter(([, column]) => column in record)
+        .map(([key, column]) => [key, record[column]])
+    );
+
+    return {
+      articleId: String(field("articleId") ?? ""),
+      title: String(field("title") ?? ""),
+      content: String(field("content") ?? ""),
+      publication: String(field("publication") ?? ""),
+      publishedDate: String(field("publishedDate") ?? ""),
+      metadata: { ...(metadata || {}), ...metadataColumns },
+    };
+  }
+}
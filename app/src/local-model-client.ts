@@ -0,0 +1,19 @@
+import { TextModelClient } from "./types";
+
+/**
+ * Deterministic stand-in for the student and judge models in local mode.
+ * Answers with the first words of the article text in the prompt, or a
+ * fixed score when asked to rate.
+ */
+export class StubTextModelClient implements TextModelClient {
+  async generate(prompt: string): Promise<string> {
+    if (/single number from 1 to 5/i.test(prompt)) {
+      return "3";
+    }
+
+    const article = prompt.split("Article content:")[1] ?? prompt;
+    const words = article.trim().split(/\s+/);
+
+    return words.slice(0, 10).join(" ");
+  }
+}
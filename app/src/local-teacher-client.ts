@@ -0,0 +1,98 @@
+import { readFileSync } from "fs";
+import { TeacherModelClient, TrainingExample } from "./types";
+
+/**
+ * Deterministic stand-in for the teacher model. Builds a headline from the
+ * first sentence of the article so repeated runs produce identical datasets,
+ * and clears every completion it is asked to fact-check.
+ */
+export class StubTeacherClient implements TeacherModelClient {
+  async generate(prompt: string, example: TrainingExample): Promise<string> {
+    if (/SUPPORTED or UNSUPPORTED/.test(prompt)) {
+      return "SUPPORTED";
+    }
+
+    const firstSentence = example.content.split(/(?<=[.!?])\s+/)[0] || "";
+    const words = firstSentence.replace(/[.!?]+$/, "").split(/\s+/);
+
+    return words.slice(0, 12).join(" ").trim() || example.title;
+  }
+}
+
+/**
+ * Replays teacher completions recorded in a JSONL file of
+ * `{"articleId": "...", "completion": "..."}` lines
+ */
+export class RecordedTeacherClient implements TeacherModelClient {
+  private responses: Map<string, string> = new Map();
+
+  constructor(filePath: string) {
+    const lines = readFileSync(filePath, "utf8").split("\n");
+
+    for (const line of lines) {
+      if (line.trim() === "") {
+        continue;
+      }
+
+      const record = JSON.parse(line);
+      this.responses.set(String(record.articleId), String(record.completion));
+    }
+
+    console.log(
+      `Loaded ${this.responses.size} recorded teacher responses from ${filePath}`
+    );
+  }
+
+  async generate(_prompt: string, example: TrainingExample): Promise<string> {
+    const completion = this.responses.get(example.articleId);
+
+    if (completion === undefined) {
+      throw new Error(
+        `No recorded teacher response for article ${example.articleId}`
+      );
+    }
+
+    return completion;
+  }
+}
+
+/**
+ * Wraps another teacher client and fails a share of calls with a Bedrock
+ * ThrottlingException, to exercise retries and adaptive concurrency without
+ * hitting real quotas
+ */
+export class ThrottlingTeacherClient implements TeacherModelClient {
+  private inner: TeacherModelClient;
+  private throttleRate: number;
+  private pendingThrottles = 0;
+  private calls = 0;
+
+  constructor(inner: TeacherModelClient, throttleRate = 0) {
+    this.inner = inner;
+    this.throttleRate = throttleRate;
+  }
+
+  /**
+   * Throttle the next `count` calls regardless of the rate
+   */
+  throttleNext(count: number): void {
+    this.pendingThrottles += count;
+  }
+
+  async generate(prompt: string, example: TrainingExample): Promise<string> {
+    const call = this.calls++;
+    // Spread throttles evenly, e.g. every fourth call at a rate of 0.25
+    const throttledByRate =
+      Math.floor((call + 1) * this.throttleRate) >
+      Math.floor(call * this.throttleRate);
+
+    if (this.pendingThrottles > 0 || throttledByRate) {
+      this.pendingThrottles = Math.max(0, this.pendingThrottles - 1);
+      const error = new Error("Rate exceeded (simulated)");
+      error.name = "ThrottlingException";
+      throw error;
+    }
+
+    return this.inner.generate(prompt, example);
+  }
+}
@@ -0,0 +1,328 @@
+import {
+  customModelNamePrefix,
+  provisionedThroughputName,
+} from "./bedrock-names";
+import { promotedPointerKey } from "./quality-gate";
+import { RunRegistry } from "./run-registry";
+import {
+  ModelAlias,
+  ModelLifecycleService,
+  ModelLifecycleStepName,
+  ObjectStore,
+  PromotionRecord,
+  ProvisionedThroughput,
+  ProvisionedThroughputOptions,
+  RunRecord,
+} from "./types";
+
+export interface ModelLifecycleOptions {
+  taskName: string;
+  publicationId?: string;
+  stage: string;
+  /**
+   * Run whose model is being promoted, where each step is recorded
+   */
+  trainingRunId: string;
+}
+
+export interface ModelLifecycleDependencies {
+  bedrock: ModelLifecycleService;
+  objectStore: ObjectStore;
+  registry: RunRegistry;
+}
+
+export interface AliasUpdate {
+  modelArn: string;
+  provisionedModelArn?: string;
+  jobArn: string;
+  datasetVersion: string;
+}
+
+export interface CleanupResult {
+  keptModels: string[];
+  deletedModels: string[];
+  deletedThroughputs: string[];
+  /**
+   * Models that could not be deleted, e.g. throughput still under a
+   * commitment term from before throughput was created per run
+   */
+  failed: Array<{ modelArn: string; error: string }>;
+}
+
+/**
+ * Takes a trained custom model into service: serves it from Provisioned
+ * Throughput for evaluation, points the task's alias at it once it is
+ * promoted and deletes old models beyond the retention count. Each step is
+ * recorded on the run in the registry.
+ */
+export class ModelLifecycleManager {
+  private options: ModelLifecycleOptions;
+  private bedrock: ModelLifecycleService;
+  private objectStore: ObjectStore;
+  private registry: RunRegistry;
+
+  constructor(
+    options: ModelLifecycleOptions,
+    dependencies: ModelLifecycleDependencies
+  ) {
+    this.options = options;
+    this.bedrock = dependencies.bedrock;
+    this.objectStore = dependencies.objectStore;
+    this.registry = dependencies.registry;
+  }
+
+  /**
+   * Create the run's Provisioned Throughput for the model, which the
+   * evaluation invokes the model through and the alias points at once the
+   * model is promoted. It has no commitment term, so it can be deleted when
+   * the model is not promoted.
+   */
+  async provisionThroughput(
+    modelArn: string,
+    throughputOptions: ProvisionedThroughputOptions
+  ): Promise<ProvisionedThroughput> {
+    const name = this.throughputName();
+    const existing = await this.bedrock.getProvisionedThroughput(name);
+
+    let throughput: ProvisionedThroughput;
+    let action: string;
+    if (!existing) {
+      throughput = await this.bedrock.createProvisionedThroughput(
+        name,
+        modelArn,
+        throughputOptions
+      );
+      action = "Created";
+    } else if (existing.modelArn === modelArn) {
+      // A retried task already created it
+      throughput = existing;
+      action = "Kept";
+    } else {
+      throw new Error(
+        `Provisioned throughput ${name} already serves ${existing.modelArn}`
+      );
+    }
+
+    console.log(
+      `${action} provisioned throughput ${name} (${throughput.status}) for ${modelArn}`
+    );
+    await this.recordStep(
+      "provision-throughput",
+      `${action} provisioned throughput ${throughput.provisionedModelArn} for ${modelArn}`,
+      { modelArn, provisionedModelArn: throughput.provisionedModelArn }
+    );
+    return throughput;
+  }
+
+  /**
+   * Delete the run's throughput after its model failed evaluation or the
+   * quality gate, so a rejected model is not billed for
+   */
+  async releaseThroughput(): Promise<{ deletedThroughput: string | null }> {
+    const name = this.throughputName();
+    const throughput = await this.bedrock.getProvisionedThroughput(name);
+    if (!throughput) {
+      console.log(`Provisioned throughput ${name} does not exist`);
+      return { deletedThroughput: null };
+    }
+
+    await this.bedrock.deleteProvisionedThroughput(
+      throughput.provisionedModelArn
+    );
+    console.log(`Deleted provisioned throughput ${name}`);
+    await this.recordStep(
+      "release-throughput",
+      `Deleted provisioned throughput ${throughput.provisionedModelArn} serving the rejected model ${throughput.modelArn}`
+    );
+    return { deletedThroughput: throughput.provisionedModelArn };
+  }
+
+  /**
+   * Point the alias consumers read at the model, keeping what it pointed at
+   * before for rollback. The throughput of the model that drops out as the
+   * rollback target is deleted.
+   */
+  async updateAlias(
+    update: AliasUpdate
+  ): Promise<{ aliasUri: string; alias: ModelAlias }> {
+    const key = this.aliasKey();
+    const current = await this.readAlias();
+    const previous =
+      current && current.modelArn !== update.modelArn
+        ? {
+            invokeModelId: current.invokeModelId,
+            modelArn: current.modelArn,
+            trainingRunId: current.trainingRunId,
+          }
+        : current?.previous;
+
+    const alias: ModelAlias = {
+      taskName: this.options.taskName,
+      publicationId: this.options.publicationId || "all",
+      stage: this.options.stage,
+      invokeModelId: update.provisionedModelArn || update.modelArn,
+      modelArn: update.modelArn,
+      ...(update.provisionedModelArn
+        ? { provisionedModelArn: update.provisionedModelArn }
+        : {}),
+      jobArn: update.jobArn,
+      datasetVersion: update.datasetVersion,
+      trainingRunId: this.options.trainingRunId,
+      updatedAt: new Date().toISOString(),
+      ...(previous ? { previous } : {}),
+    };
+    await this.objectStore.putObject(key, JSON.stringify(alias, null, 2), {
+      contentType: "application/json",
+    });
+
+    const aliasUri = this.objectStore.getUri(key);
+    console.log(`Alias ${aliasUri} now points at ${alias.invokeModelId}`);
+
+    const dropped =
+      current && current.modelArn !== update.modelArn
+        ? current.previous
+        : undefined;
+    const deletedThroughputs =
+      dropped && dropped.modelArn !== update.modelArn
+        ? await this.deleteThroughputs(dropped.modelArn)
+        : [];
+
+    await this.recordStep(
+      "update-alias",
+      `Pointed ${aliasUri} at ${alias.invokeModelId}${
+        previous ? ` (was ${previous.invokeModelId})` : ""
+      }${
+        deletedThroughputs.length > 0
+          ? `, deleted ${deletedThroughputs.join(", ")}`
+          : ""
+      }`,
+      { modelArn: update.modelArn, aliasUri }
+    );
+    return { aliasUri, alias };
+  }
+
+  /**
+   * Delete the task's custom models beyond the newest `retentionCount`,
+   * with any throughput serving them. The models the alias and the
+   * promotion record point at, and the alias's rollback target, are always
+   * kept. A model that cannot be deleted is reported and skipped.
+   */
+  async cleanup(retentionCount: number): Promise<CleanupResult> {
+    const prefix = customModelNamePrefix(
+      this.options.taskName,
+      this.options.publicationId,
+      this.options.stage
+    );
+    // Names end with a timestamp, so another publication whose ID starts
+    // with this one does not match
+    const models = (await this.bedrock.listCustomModels(prefix)).filter(
+      (model) => /^\d+$/.test(model.modelName.substring(prefix.length))
+    );
+
+    const alias = await this.readAlias();
+    const promotion = await this.readPromotion();
+    const protectedArns = new Set(
+      [alias?.modelArn, alias?.previous?.modelArn, promotion?.modelArn].filter(
+        (arn): arn is string => !!arn
+      )
+    );
+
+    const result: CleanupResult = {
+      keptModels: [],
+      deletedModels: [],
+      deletedThroughputs: [],
+      failed: [],
+    };
+    for (const [index, model] of models.entries()) {
+      if (index < retentionCount || protectedArns.has(model.modelArn)) {
+        result.keptModels.push(model.modelArn);
+        continue;
+      }
+
+      try {
+        result.deletedThroughputs.push(
+          ...(await this.deleteThroughputs(model.modelArn))
+        );
+        await this.bedrock.deleteCustomModel(model.modelArn);
+        result.deletedModels.push(model.modelArn);
+      } catch (error) {
+        console.warn(`Could not delete ${model.modelArn}:`, error);
+        result.failed.push({
+          modelArn: model.modelArn,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    console.log(
+      `Kept ${result.keptModels.length} custom models, deleted ${result.deletedModels.length} and ${result.deletedThroughputs.length} provisioned throughputs (${result.failed.length} failed)`
+    );
+    await this.recordStep(
+      "cleanup",
+      `Kept ${result.keptModels.length} custom models, deleted ${
+        result.deletedModels.length
+      } (${result.deletedModels.join(", ") || "none"}) and ${
+        result.deletedThroughputs.length
+      } provisioned throughputs, ${result.failed.length} failed`
+    );
+    return result;
+  }
+
+  /**
+   * Delete every throughput serving the model, returning their ARNs
+   */
+  private async deleteThroughputs(modelArn: string): Promise<string[]> {
+    const deleted: string[] = [];
+    for (const throughput of await this.bedrock.listProvisionedThroughputs(
+      modelArn
+    )) {
+      await this.bedrock.deleteProvisionedThroughput(
+        throughput.provisionedModelArn
+      );
+      deleted.push(throughput.provisionedModelArn);
+    }
+    return deleted;
+  }
+
+  private throughputName(): string {
+    return provisionedThroughputName(
+      this.options.taskName,
+      this.options.publicationId,
+      this.options.trainingRunId,
+      this.options.stage
+    );
+  }
+
+  private aliasKey(): string {
+    return `aliases/${this.options.taskName}/${
+      this.options.publicationId || "all"
+    }/${this.options.stage}.json`;
+  }
+
+  private async readAlias(): Promise<ModelAlias | undefined> {
+    const body = await this.objectStore.getObject(this.aliasKey());
+    return body === undefined ? undefined : JSON.parse(body);
+  }
+
+  private async readPromotion(): Promise<PromotionRecord | undefined> {
+    const body = await this.objectStore.getObject(
+      promotedPointerKey(this.options.taskName, this.options.publicationId)
+    );
+    return body === undefined ? undefined : JSON.parse(body);
+  }
+
+  private async recordStep(
+    step: ModelLifecycleStepName,
+    summary: string,
+    fields: Pick<
+      RunRecord,
+      "modelArn" | "provisionedModelArn" | "aliasUri"
+    > = {}
+  ): Promise<void> {
+    await this.registry.recordLifecycleStep(
+      this.options.trainingRunId,
+      { step, completedAt: new Date().toISOString(), summary },
+      fields
+    );
+  }
+}
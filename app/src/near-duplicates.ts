@@ -0,0 +1,261 @@
+import { tokenize } from "./evaluation-metrics";
+import { NearDuplicateConfig, TrainingExample } from "./types";
+
+const NUM_HASHES = 128;
+const SHINGLE_SIZE = 5;
+// Chance that a pair exactly at the threshold shares at least one LSH bucket
+const MIN_CANDIDATE_RECALL = 0.99;
+
+export interface DuplicateMember {
+  articleId: string;
+  publication: string;
+  publishedDate: string;
+}
+
+/**
+ * Articles whose content is nearly the same: the copy that was kept and the
+ * ones removed, with their estimated Jaccard similarity to the survivor
+ */
+export interface NearDuplicateCluster {
+  survivor: DuplicateMember;
+  removed: Array<DuplicateMember & { similarity: number }>;
+}
+
+export interface NearDuplicateResult {
+  kept: TrainingExample[];
+  clusters: NearDuplicateCluster[];
+}
+
+/**
+ * Murmur3 finalizer, a cheap 32-bit mix with good avalanche
+ */
+function mix32(value: number): number {
+  let h = value;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+function fnv1a(value: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Hashes of the overlapping word n-grams in the text. Texts shorter than
+ * one shingle are a single shingle.
+ */
+export function shingleHashes(text: string, size = SHINGLE_SIZE): Set<number> {
+  const words = tokenize(text);
+  const hashes = new Set<number>();
+
+  for (let i = 0; i + size <= Math.max(words.length, size); i++) {
+    hashes.add(fnv1a(words.slice(i, i + size).join(" ")));
+  }
+
+  return hashes;
+}
+
+/**
+ * MinHash signatures for all texts, NUM_HASHES values per text in one flat
+ * array to keep memory low on large runs
+ */
+export function minHashSignatures(texts: string[]): Uint32Array {
+  const seeds = Array.from({ length: NUM_HASHES }, (_, i) =>
+    mix32(i + 0x9e3779b9)
+  );
+  const signatures = new Uint32Array(texts.length * NUM_HASHES).fill(
+    0xffffffff
+  );
+
+  texts.forEach((text, t) => {
+    const offset = t * NUM_HASHES;
+    for (const shingle of shingleHashes(text)) {
+      for (let i = 0; i < NUM_HASHES; i++) {
+        const h = mix32(shingle ^ seeds[i]);
+        if (h < signatures[offset + i]) {
+          signatures[offset + i] = h;
+        }
+      }
+    }
+  });
+
+  return signatures;
+}
+
+/**
+ * Share of matching signature values, an estimate of Jaccard similarity
+ */
+export function signatureSimilarity(
+  signatures: Uint32Array,
+  a: number,
+  b: number
+): number {
+  let matches = 0;
+  for (let i = 0; i < NUM_HASHES; i++) {
+    if (signatures[a * NUM_HASHES + i] === signatures[b * NUM_HASHES + i]) {
+      matches++;
+    }
+  }
+  return matches / NUM_HASHES;
+}
+
+/**
+ * The most rows per LSH band (fewest false candidates) that still makes a
+ * pair at the threshold a candidate with MIN_CANDIDATE_RECALL probability
+ */
+function rowsPerBand(threshold: number): number {
+  for (let rows = NUM_HASHES; rows > 1; rows /= 2) {
+    const bands = NUM_HASHES / rows;
+    if (
+      1 - Math.pow(1 - Math.pow(threshold, rows), bands) >=
+      MIN_CANDIDATE_RECALL
+    ) {
+      return rows;
+    }
+  }
+  return 1;
+}
+
+/**
+ * The LSH buckets each text falls in. Texts sharing a bucket are candidate
+ * duplicates; texts that share none are never compared.
+ */
+function bucketTexts(
+  signatures: Uint32Array,
+  count: number,
+  threshold: number
+): number[][][] {
+  const rows = rowsPerBand(threshold);
+  const bucketsOf: number[][][] = Array.from({ length: count }, () => []);
+
+  for (let band = 0; band < NUM_HASHES / rows; band++) {
+    const buckets = new Map<string, number[]>();
+    for (let t = 0; t < count; t++) {
+      const start = t * NUM_HASHES + band * rows;
+      const key = signatures.subarray(start, start + rows).join(",");
+      let bucket = buckets.get(key);
+      if (!bucket) {
+        bucket = [];
+        buckets.set(key, bucket);
+      }
+      bucket.push(t);
+      bucketsOf[t].push(bucket);
+    }
+  }
+
+  return bucketsOf;
+}
+
+/**
+ * Walk the texts in order of preference. Each text not yet claimed becomes
+ * a survivor and claims the unclaimed candidates at or above the threshold,
+ * so every removed text is similar to its survivor rather than only to
+ * another removed text. Returns groups with at least one removed text.
+ */
+export function clusterSimilarTexts(
+  signatures: Uint32Array,
+  order: number[],
+  threshold: number
+): Array<{ survivor: number; removed: number[] }> {
+  const bucketsOf = bucketTexts(signatures, order.length, threshold);
+  const claimed = new Uint8Array(order.length);
+  const clusters: Array<{ survivor: number; removed: number[] }> = [];
+
+  for (const survivor of order) {
+    if (claimed[survivor]) {
+      continue;
+    }
+    claimed[survivor] = 1;
+
+    const removed: number[] = [];
+    for (const bucket of bucketsOf[survivor]) {
+      for (const candidate of bucket) {
+        if (
+          !claimed[candidate] &&
+          signatureSimilarity(signatures, survivor, candidate) >= threshold
+        ) {
+          claimed[candidate] = 1;
+          removed.push(candidate);
+        }
+      }
+    }
+
+    if (removed.length > 0) {
+      clusters.push({ survivor, removed });
+    }
+  }
+
+  return clusters;
+}
+
+/**
+ * Order of preference for the copy that survives: a canonical publication
+ * (earlier in the list first) when that rule is configured, then the
+ * earliest published, then the lowest article ID so runs are repeatable
+ */
+function compareSurvivors(
+  config: NearDuplicateConfig
+): (a: TrainingExample, b: TrainingExample) => number {
+  const rank = (example: TrainingExample) => {
+    const index = config.canonicalPublications.indexOf(example.publication);
+    return index === -1 ? config.canonicalPublications.length : index;
+  };
+
+  return (a, b) =>
+    (config.survivorRule === "canonical-publication" ? rank(a) - rank(b) : 0) ||
+    a.publishedDate.localeCompare(b.publishedDate) ||
+    a.articleId.localeCompare(b.articleId);
+}
+
+function member(example: TrainingExample): DuplicateMember {
+  return {
+    articleId: example.articleId,
+    publication: example.publication,
+    publishedDate: example.publishedDate,
+  };
+}
+
+/**
+ * Keep one copy of each group of syndicated, republished or lightly edited
+ * articles, compared on content
+ */
+export function removeNearDuplicates(
+  examples: TrainingExample[],
+  config: NearDuplicateConfig
+): NearDuplicateResult {
+  const signatures = minHashSignatures(
+    examples.map((example) => example.content)
+  );
+  const compare = compareSurvivors(config);
+  const order = examples
+    .map((_, index) => index)
+    .sort((a, b) => compare(examples[a], examples[b]));
+
+  const removed = new Set<number>();
+  const clusters = clusterSimilarTexts(signatures, order, config.threshold).map(
+    (cluster) => {
+      cluster.removed.forEach((index) => removed.add(index));
+
+      return {
+        survivor: member(examples[cluster.survivor]),
+        removed: cluster.removed.map((index) => ({
+          ...member(examples[index]),
+          similarity: signatureSimilarity(signatures, cluster.survivor, index),
+        })),
+      };
+    }
+  );
+
+  return {
+    kept: examples.filter((_, index) => !removed.has(index)),
+    clusters,
+  };
+}
@@ -0,0 +1,177 @@
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  NoSuchKey,
+} from "@aws-sdk/client-s3";
+import { createReadStream, promises as fs } from "fs";
+import * as path from "path";
+import { ObjectStore, PutObjectOptions } from "./types";
+
+export class S3ObjectStore implements ObjectStore {
+  private s3Client: S3Client;
+  private bucket: string;
+
+  constructor(region: string, bucket: string) {
+    this.s3Client = new S3Client({ region });
+    this.bucket = bucket;
+  }
+
+  async putObject(
+    key: string,
+    body: string,
+    options: PutObjectOptions = {}
+  ): Promise<void> {
+    const command = new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: body,
+      ContentType: options.contentType,
+      Metadata: options.metadata,
+    });
+
+    await this.s3Client.send(command);
+  }
+
+  async getObject(key: string): Promise<string | undefined> {
+    const command = new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+    });
+
+    try {
+      const response = await this.s3Client.send(command);
+      return await response.Body?.transformToString("utf8");
+    } catch (error) {
+      if (error instanceof NoSuchKey) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async *streamObject(key: string): AsyncIterable<string> {
+    const command = new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+    });
+
+    const response = await this.s3Client.send(command);
+    // Decoded across chunks so a character split between them survives
+    const decoder = new TextDecoder("utf-8");
+    for await (const chunk of response.Body as AsyncIterable<Uint8Array>) {
+      yield decoder.decode(chunk, { stream: true });
+    }
+    yield decoder.decode();
+  }
+
+  async listKeys(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const command = new ListObjectsV2Command({
+        Bucket: this.bucket,
+        Prefix: prefix,
+        ContinuationToken: continuationToken,
+      });
+
+      const response = await this.s3Client.send(command);
+      for (const object of response.Contents || []) {
+        if (object.Key) {
+          keys.push(object.Key);
+        }
+      }
+
+      continuationToken = response.NextContinuationToken;
+    } while (continuationToken);
+
+    return keys;
+  }
+
+  getUri(key: string): string {
+    return `s3://${this.bucket}/${key}`;
+  }
+
+  getKey(uri: string): string {
+    const prefix = `s3://${this.bucket}/`;
+
+    if (!uri.startsWith(prefix)) {
+      throw new Error(`${uri} is not in bucket ${this.bucket}`);
+    }
+
+    return uri.substring(prefix.length);
+  }
+}
+
+/**
+ * Stores objects as files under a local directory, used in local mode
+ */
+export class LocalObjectStore implements ObjectStore {
+  private rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  async putObject(key: string, body: string): Promise<void> {
+    const filePath = this.getUri(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body, "utf8");
+  }
+
+  async getObject(key: string): Promise<string | undefined> {
+    try {
+      return await fs.readFile(this.getUri(key), "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async *streamObject(key: string): AsyncIterable<string> {
+    yield* createReadStream(this.getUri(key), { encoding: "utf8" });
+  }
+
+  async listKeys(prefix: string): Promise<string[]> {
+    // Search from the deepest directory named in the prefix
+    const directory = prefix.includes("/")
+      ? prefix.substring(0, prefix.lastIndexOf("/"))
+      : "";
+
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.getUri(directory), { recursive: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    const keys: string[] = [];
+    for (const entry of entries) {
+      const key = path.posix.join(directory, entry.split(path.sep).join("/"));
+      const stat = await fs.stat(this.getUri(key));
+      if (stat.isFile() && key.startsWith(prefix)) {
+        keys.push(key);
+      }
+    }
+
+    return keys.sort();
+  }
+
+  getUri(key: string): string {
+    return path.join(this.rootDir, key);
+  }
+
+  getKey(uri: string): string {
+    return path
+      .relative(this.rootDir, path.resolve(uri))
+      .split(path.sep)
+      .join("/");
+  }
+}
@@ -0,0 +1,199 @@
+import * as path from "path";
+import { DataService } from "./data-service";
+import { BedrockService } from "./bedrock-service";
+import { LocalDataService } from "./local-data-service";
+import { LocalBedrockService } from "./local-bedrock-service";
+import { BedrockBatchInferenceService } from "./bedrock-batch-inference-service";
+import { LocalBatchInferenceService } from "./local-batch-inference-service";
+import {
+  StubTeacherClient,
+  RecordedTeacherClient,
+  ThrottlingTeacherClient,
+} from "./local-teacher-client";
+import { StubTextModelClient } from "./local-model-client";
+import { BedrockConverseClient } from "./bedrock-converse-client";
+import { S3ObjectStore, LocalObjectStore } from "./object-store";
+import { PromptTemplateLocation } from "./prompt-templates";
+import { DenyListLocation } from "./redaction";
+import {
+  PipelineMode,
+  TrainingConfig,
+  TrainingDataSource,
+  TeacherModelClient,
+  TextModelClient,
+  ObjectStore,
+  ModelCustomizationService,
+  ModelLifecycleService,
+  BatchInferenceService,
+} from "./types";
+
+export interface PipelineServices {
+  dataSource: TrainingDataSource;
+  objectStore: ObjectStore;
+  modelCustomization: ModelCustomizationService;
+  batchInference: BatchInferenceService;
+  promptTemplates: PromptTemplateLocation;
+  denyList?: DenyListLocation;
+  /**
+   * Teacher override; the distillation service defaults to Bedrock
+   */
+  teacherClient?: TeacherModelClient;
+}
+
+/**
+ * Build the service implementations for the given mode. Local mode reads
+ * articles from LOCAL_DATA_FILE, writes datasets under LOCAL_OUTPUT_DIR and
+ * never calls AWS.
+ */
+export function createPipelineServices(
+  mode: PipelineMode,
+  config: TrainingConfig,
+  region: string
+): PipelineServices {
+  if (mode === "aws") {
+    return {
+      dataSource: new DataService(region),
+      objectStore: createObjectStore(mode, config, region),
+      modelCustomization: new BedrockService(region),
+      batchInference: new BedrockBatchInferenceService(region),
+      promptTemplates: createPromptTemplateLocation(
+        config.promptTemplatesUri,
+        region
+      ),
+      denyList: createDenyListLocation(config.redaction.denyListUri, region),
+    };
+  }
+
+  const localDataFile = process.env.LOCAL_DATA_FILE;
+  if (!localDataFile) {
+    throw new Error("LOCAL_DATA_FILE environment variable is required");
+  }
+
+  const teacherResponsesFile = process.env.LOCAL_TEACHER_RESPONSES;
+  const teacherClient = teacherResponsesFile
+    ? new RecordedTeacherClient(teacherResponsesFile)
+    : new StubTeacherClient();
+  const throttleRate = parseFloat(
+    process.env.LOCAL_TEACHER_THROTTLE_RATE || "0"
+  );
+
+  const objectStore = createObjectStore(mode, config, region);
+
+  return {
+    dataSource: new LocalDataService(localDataFile),
+    objectStore,
+    modelCustomization: new LocalBedrockService(),
+    batchInference: new LocalBatchInferenceService(
+      objectStore,
+      new StubTextModelClient()
+    ),
+    promptTemplates: createPromptTemplateLocation(
+      config.promptTemplatesUri,
+      region
+    ),
+    denyList: createDenyListLocation(config.redaction.denyListUri, region),
+    teacherClient:
+      throttleRate > 0
+        ? new ThrottlingTeacherClient(teacherClient, throttleRate)
+        : teacherClient,
+  };
+}
+
+export function createObjectStore(
+  mode: PipelineMode,
+  config: Pick<TrainingConfig, "trainingDataBucket">,
+  region: string
+): ObjectStore {
+  return mode === "aws"
+    ? new S3ObjectStore(region, config.trainingDataBucket)
+    : new LocalObjectStore(process.env.LOCAL_OUTPUT_DIR || "./local-output");
+}
+
+/**
+ * Prompt templates come from an `s3://bucket/prefix/` URI or a local
+ * directory, by default the `prompts` directory shipped with the app
+ */
+export function createPromptTemplateLocation(
+  uri: string | undefined,
+  region: string
+): PromptTemplateLocation {
+  const s3Match = uri?.match(/^s3:\/\/([^/]+)\/?(.*)$/);
+
+  if (s3Match) {
+    const prefix = s3Match[2];
+    return {
+      store: new S3ObjectStore(region, s3Match[1]),
+      prefix: prefix === "" || prefix.endsWith("/") ? prefix : `${prefix}/`,
+    };
+  }
+
+  return {
+    store: new LocalObjectStore(
+      uri || path.resolve(__dirname, "..", "prompts")
+    ),
+    prefix: "",
+  };
+}
+
+/**
+ * The deny-list comes from an `s3://bucket/key` URI or a local file
+ */
+export function createDenyListLocation(
+  uri: string | undefined,
+  region: string
+): DenyListLocation | undefined {
+  if (!uri) {
+    return undefined;
+  }
+
+  const s3Match = uri.match(/^s3:\/\/([^/]+)\/(.+)$/);
+  if (s3Match) {
+    return { store: new S3ObjectStore(region, s3Match[1]), key: s3Match[2] };
+  }
+
+  return {
+    store: new LocalObjectStore(path.dirname(path.resolve(uri))),
+    key: path.basename(uri),
+  };
+}
+
+export interface EvaluationClients {
+  student: TextModelClient;
+  judge?: TextModelClient;
+}
+
+/**
+ * Student and (optional) judge model clients for the evaluation task
+ */
+export function createEvaluationClients(
+  mode: PipelineMode,
+  region: string,
+  studentModelId: string,
+  judgeModelId?: string
+): EvaluationClients {
+  if (mode === "local") {
+    return {
+      student: new StubTextModelClient(),
+      judge: judgeModelId ? new StubTextModelClient() : undefined,
+    };
+  }
+
+  return {
+    student: new BedrockConverseClient(region, studentModelId),
+    judge: judgeModelId
+      ? new BedrockConverseClient(region, judgeModelId, 10)
+      : undefined,
+  };
+}
+
+/**
+ * Provisioned throughput and custom model management for the lifecycle task
+ */
+export function createModelLifecycleService(
+  mode: PipelineMode,
+  region: string
+): ModelLifecycleService {
+  return mode === "aws"
+    ? new BedrockService(region)
+    : new LocalBedrockService();
+}
@@ -0,0 +1,443 @@
+import { DataCleaner } from "./data-cleaner";
+import { StorageService } from "./storage-service";
+import { DistillationService } from "./distillation-service";
+import { DistillationCheckpoint } from "./distillation-checkpoint";
+import { TeacherResponseCache } from "./teacher-response-cache";
+import { BatchDistillationRunner } from "./batch-distillation";
+import { splitDataset } from "./dataset-splitter";
+import {
+  resolveModelFamily,
+  createDatasetFormatter,
+} from "./dataset-formatter";
+import { PipelineServices } from "./pipeline-services";
+import { StageTimer } from "./stage-timer";
+import { InsufficientDataError } from "./errors";
+import { getTaskDefinition } from "./task-definitions";
+import { loadPromptTemplates } from "./prompt-templates";
+import { RedactionService, loadDenyList } from "./redaction";
+import { FactualConsistencyValidator } from "./factual-consistency";
+import { resolveBuildInfo } from "./build-info";
+import { RunRegistry } from "./run-registry";
+import { DatasetSampler } from "./dataset-sampler";
+import {
+  applyRetention,
+  findHighWaterMark,
+  getArticleId,
+  mergeExamples,
+  MergeResult,
+  RetentionResult,
+} from "./incremental-dataset";
+import {
+  TrainingConfig,
+  PipelineTaskOutput,
+  BedrockTrainingJobConfig,
+  ParentDatasetReference,
+} from "./types";
+
+export async function runPipeline(
+  config: TrainingConfig,
+  services: PipelineServices,
+  region: string
+): Promise<PipelineTaskOutput> {
+  const { minPromptCount } = config;
+  const task = getTaskDefinition(config.taskName);
+  const timer = new StageTimer();
+  const startedAt = new Date();
+  console.log(`Task: ${task.name}`);
+  // Resolve the dataset format, load templates and the deny-list first so a
+  // missing base model, a broken template or a missing deny-list fails
+  // before the Athena query and the teacher calls
+  const formatter = createDatasetFormatter(
+    resolveModelFamily(config.baseModelId, config.datasetFormat)
+  );
+  const promptTemplates = await loadPromptTemplates(
+    services.promptTemplates,
+    task,
+    config.contentTruncation
+  );
+  const redactionService = new RedactionService(
+    config.redaction,
+    await loadDenyList(services.denyList)
+  );
+  const storageService = new StorageService(services.objectStore);
+
+  // An incremental run only queries and distils the articles published
+  // since the promoted model's dataset, from the day of its high-water mark
+  const incremental = config.datasetMode === "incremental";
+  const parent = incremental
+    ? await storageService.loadPromotedDataset(config)
+    : undefined;
+  const parentReference: ParentDatasetReference | undefined = parent && {
+    datasetVersion: parent.manifest.datasetVersion,
+    manifestUri: parent.manifestUri,
+  };
+  const parentHighWaterMark =
+    parent &&
+    (parent.manifest.highWaterMark ?? findHighWaterMark(parent.examples));
+  let queryConfig = config;
+  if (parent && parentHighWaterMark) {
+    const highWaterDay = parentHighWaterMark.substring(0, 10);
+    const startDate =
+      config.dataFilters.startDate &&
+      config.dataFilters.startDate > highWaterDay
+        ? config.dataFilters.startDate
+        : highWaterDay;
+    queryConfig = {
+      ...config,
+      dataFilters: { ...config.dataFilters, startDate },
+    };
+    console.log(
+      `Building on dataset ${parent.manifest.datasetVersion} (${parent.examples.length} examples), querying articles published from ${startDate}`
+    );
+  } else if (incremental) {
+    console.log("No promoted dataset to build on, building a full dataset");
+  }
+  // The minimum prompt count applies to the merged dataset
+  const minNewExamples = parent ? 1 : minPromptCount;
+
+  // Steps 1 and 2: Query data from Athena and clean it as it streams in
+  console.log("Step 1: Querying data from Athena...");
+  console.log("Step 2: Cleaning and validating data...");
+  const dataCleaner = new DataCleaner({
+    cleaning: config.cleaning,
+    task,
+    nearDuplicates: config.nearDuplicates,
+  });
+  const cleanedExamples = await timer.time("query-and-clean", () =>
+    dataCleaner.cleanExamples(
+      services.dataSource.queryTrainingData(queryConfig)
+    )
+  );
+  const cleaningReport = dataCleaner.getReport();
+  const quarantinedRows = services.dataSource.getQuarantinedRows();
+  console.log(`Retrieved ${cleaningReport.input} raw examples`);
+  console.log(
+    `After cleaning: ${cleanedExamples.length} examples with a ${task.targetField}`
+  );
+
+  // Articles from the high-water mark day may already be in the parent
+  const parentArticleIds = new Set(parent?.examples.map(getArticleId));
+  const newExamples = cleanedExamples.filter(
+    (example) => !parentArticleIds.has(example.articleId)
+  );
+  if (parent) {
+    console.log(
+      `${newExamples.length} new examples, ${
+        cleanedExamples.length - newExamples.length
+      } already in the previous dataset`
+    );
+  }
+
+  if (cleaningReport.input < minNewExamples) {
+    throw new InsufficientDataError(
+      `Insufficient examples: ${cleaningReport.input} found, ${minNewExamples} required`
+    );
+  }
+
+  if (newExamples.length < minNewExamples) {
+    throw new InsufficientDataError(
+      `Insufficient examples after cleaning: ${newExamples.length} found, ${minNewExamples} required`
+    );
+  }
+
+  // Sample before distillation so no publication, section or period
+  // dominates the dataset
+  console.log("Sampling cleaned examples...");
+  const sampler = new DatasetSampler(config.sampling);
+  const sampledExamples = await timer.time("sample", () =>
+    sampler.sample(newExamples)
+  );
+
+  if (sampledExamples.length < minNewExamples) {
+    throw new InsufficientDataError(
+      `Insufficient examples after sampling: ${sampledExamples.length} found, ${minNewExamples} required`
+    );
+  }
+
+  // Step 3: Redact personal and sensitive content before it reaches the
+  // teacher model or the dataset
+  console.log("Step 3: Redacting personal and sensitive content...");
+  const redactedExamples = await timer.time("redact", () =>
+    redactionService.redactExamples(sampledExamples)
+  );
+
+  if (redactedExamples.length < minNewExamples) {
+    throw new InsufficientDataError(
+      `Insufficient examples after redaction: ${redactedExamples.length} found, ${minNewExamples} required`
+    );
+  }
+
+  // Step 4: Use teacher model for distillation
+  console.log("Step 4: Generating teacher model outputs (distillation)...");
+  const distillationService = new DistillationService(
+    {
+      task,
+      promptTemplates,
+      teacherModelId: config.teacherModelId,
+      teacherInferenceParams: config.teacherInferenceParams,
+      region,
+      rateLimits: config.teacherRateLimits,
+      failurePolicy: config.teacherFailurePolicy,
+      maxFailureRate: config.maxTeacherFailureRate,
+      batchThreshold: config.batchDistillationThreshold,
+    },
+    {
+      teacherClient: services.teacherClient,
+      checkpoint: new DistillationCheckpoint(
+        services.objectStore,
+        config.trainingRunId
+      ),
+      cache: new TeacherResponseCache(services.objectStore, {
+        refresh: config.teacherCacheRefresh,
+      }),
+      batchRunner: new BatchDistillationRunner(
+        services.objectStore,
+        services.batchInference,
+        {
+          teacherModelId: config.teacherModelId,
+          teacherInferenceParams: config.teacherInferenceParams,
+          trainingRunId: config.trainingRunId,
+        }
+      ),
+    }
+  );
+  const distilledPrompts = await timer.time("distill", () =>
+    distillationService.distillExamples(redactedExamples)
+  );
+  const distillationStats = distillationService.getStats();
+  console.log(`Created ${distilledPrompts.length} distillation prompts`);
+
+  // Step 5: Check teacher completions against their articles
+  console.log("Step 5: Checking factual consistency of teacher outputs...");
+  const factChecker = new FactualConsistencyValidator(
+    {
+      ...config.factCheck,
+      task,
+      teacherModelId: config.teacherModelId,
+      region,
+      rateLimits: config.teacherRateLimits,
+    },
+    { judgeClient: services.teacherClient }
+  );
+  const prompts = await timer.time("fact-check", () =>
+    factChecker.validate(distilledPrompts, redactedExamples)
+  );
+
+  // Step 6: Merge into the previous dataset and apply the retention policy
+  let datasetPrompts = prompts;
+  let merge: MergeResult | undefined;
+  let retention: RetentionResult | undefined;
+  if (incremental) {
+    console.log("Step 6: Merging new examples into the previous dataset...");
+    // The parent may predate detectors or deny-list terms added since
+    merge = mergeExamples(
+      parent ? redactionService.redactPromptExamples(parent.examples) : [],
+      prompts,
+      config.dataFilters.excludeArticleIds
+    );
+    retention = applyRetention(
+      merge.examples,
+      config.retention,
+      config.trainingRunId
+    );
+    datasetPrompts = retention.kept;
+    console.log(
+      `Merged ${merge.examples.length} examples, kept ${datasetPrompts.length} (${retention.droppedByAge} over the maximum age, ${retention.droppedBySize} over the maximum size)`
+    );
+  }
+
+  // Validate minimum prompt count
+  if (datasetPrompts.length < minPromptCount) {
+    throw new InsufficientDataError(
+      `Insufficient prompts: ${datasetPrompts.length} found, ${minPromptCount} required`
+    );
+  }
+
+  // Step 7: Split and save to S3
+  console.log("Step 7: Splitting and saving training dataset to S3...");
+  const splits = splitDataset(datasetPrompts, config.splitRatios);
+  const build = await resolveBuildInfo();
+  const stageCounts = {
+    queried: cleaningReport.input + quarantinedRows.length,
+    quarantined: quarantinedRows.length,
+    cleaned: cleanedExamples.length,
+    ...(incremental ? { new: newExamples.length } : {}),
+    sampled: sampledExamples.length,
+    redacted: redactedExamples.length,
+    distilled: distilledPrompts.length,
+    factChecked: prompts.length,
+    ...(merge ? { merged: merge.examples.length } : {}),
+    ...(retention ? { retained: retention.kept.length } : {}),
+  };
+  const result = await timer.time("save", () =>
+    storageService.saveTrainingDataset(splits, config, formatter, {
+      startedAt,
+      source: services.dataSource.getLineage(),
+      build,
+      stageCounts,
+      cleaning: cleaningReport.rules,
+      distillationStats,
+      promptTemplates: promptTemplates.getVersions(),
+      highWaterMark: findHighWaterMark(prompts, parentHighWaterMark),
+      parent: parentReference,
+      reports: [
+        {
+          fileName: "cleaning-rejections.jsonl",
+          body: cleaningReport.rejections
+            .map((rejection) => JSON.stringify(rejection))
+            .join("\n"),
+          contentType: "application/jsonl",
+        },
+        {
+          fileName: "quarantine.jsonl",
+          body: quarantinedRows.map((row) => JSON.stringify(row)).join("\n"),
+          contentType: "application/jsonl",
+        },
+        {
+          fileName: "cleaning-summary.json",
+          body: JSON.stringify(
+            {
+              input: cleaningReport.input,
+              quarantined: quarantinedRows.length,
+              kept: cleaningReport.kept,
+              rules: cleaningReport.rules,
+            },
+            null,
+            2
+          ),
+          contentType: "application/json",
+        },
+        {
+          fileName: "sampling.json",
+          body: JSON.stringify(
+            { ...config.sampling, ...sampler.getReport() },
+            null,
+            2
+          ),
+          contentType: "application/json",
+        },
+        {
+          fileName: "redactions.jsonl",
+          body: redactionService
+            .getAuditRecords()
+            .map((record) => JSON.stringify(record))
+            .join("\n"),
+          contentType: "application/jsonl",
+        },
+        {
+          fileName: "fact-check.json",
+          body: JSON.stringify(
+            {
+              ...config.factCheck,
+              stats: factChecker.getStats(),
+              failures: factChecker.getFailures(),
+            },
+            null,
+            2
+          ),
+          contentType: "application/json",
+        },
+        {
+          fileName: "near-duplicates.json",
+          body: JSON.stringify(
+            {
+              ...config.nearDuplicates,
+              clusters: dataCleaner.getNearDuplicateClusters(),
+            },
+            null,
+            2
+          ),
+          contentType: "application/json",
+        },
+        ...(merge && retention
+          ? [
+              {
+                fileName: "incremental.json",
+                body: JSON.stringify(
+                  {
+                    parent: parentReference ?? null,
+                    parentHighWaterMark: parentHighWaterMark ?? null,
+                    queriedFrom: queryConfig.dataFilters.startDate ?? null,
+                    parentExamples: parent?.examples.length ?? 0,
+                    alreadyInParent:
+                      cleanedExamples.length - newExamples.length,
+                    newExamples: prompts.length,
+                    replaced: merge.replaced,
+                    excluded: merge.excluded,
+                    merged: merge.examples.length,
+                    retention: config.retention,
+                    droppedByAge: retention.droppedByAge,
+                    droppedBySize: retention.droppedBySize,
+                    kept: retention.kept.length,
+                  },
+                  null,
+                  2
+                ),
+                contentType: "application/json",
+              },
+            ]
+          : []),
+      ],
+    })
+  );
+
+  // Step 8: Initiate Bedrock training
+  console.log("Step 8: Initiating Bedrock model training...");
+  const bedrockConfig: BedrockTrainingJobConfig = {
+    modelId: process.env.BEDROCK_MODEL_ID || "anthropic.claude-v2",
+    trainingDataS3Uri: result.s3Location,
+    outputDataConfigS3Uri: services.objectStore.getUri(
+      `bedrock-outputs/${config.trainingRunId}/`
+    ),
+    baseModelArn: config.baseModelId,
+  };
+
+  let jobArn: string;
+  try {
+    jobArn = await timer.time("submit", () =>
+      services.modelCustomization.createModelCustomizationJob(
+        config,
+        result,
+        bedrockConfig
+      )
+    );
+    console.log(`Bedrock training job started: ${jobArn}`);
+  } catch (error) {
+    console.error(
+      "Failed to start Bedrock training job (dataset is saved in S3):",
+      error
+    );
+    throw error;
+  }
+  await storageService.recordBedrockJob(result, jobArn);
+
+  await new RunRegistry(services.objectStore).recordRun({
+    trainingRunId: config.trainingRunId,
+    status: "training",
+    taskName: task.name,
+    publicationId: config.publicationId || "all",
+    startedAt: startedAt.toISOString(),
+    completedAt: new Date().toISOString(),
+    ...(config.executionArn ? { executionArn: config.executionArn } : {}),
+    ...(config.executionInput ? { executionInput: config.executionInput } : {}),
+    datasetVersion: result.datasetVersion,
+    manifestUri: result.manifestS3Location,
+    bedrockJobArn: jobArn,
+    promptCount: result.promptCount,
+    splitCounts: result.splitCounts,
+    stageCounts,
+  });
+
+  return {
+    bedrockJobArn: jobArn,
+    datasetS3Uri: result.s3Location,
+    validationS3Uri: result.validationS3Location,
+    testS3Uri: result.testS3Location,
+    datasetVersion: result.datasetVersion,
+    promptCount: result.promptCount,
+    splitCounts: result.splitCounts,
+    distillationStats,
+    manifestS3Uri: result.manifestS3Location,
+    stageTimings: timer.getTimings(),
+  };
+}
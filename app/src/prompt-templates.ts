@@ -0,0 +1,281 @@
+import { sha256Hex } from "./hash-utils";
+import { PromptTemplateError } from "./errors";
+import { TaskDefinition } from "./task-definitions";
+import { truncateContent } from "./content-truncation";
+import {
+  ContentTruncationConfig,
+  ObjectStore,
+  PromptRole,
+  TrainingExample,
+} from "./types";
+
+const PROMPT_ROLES: PromptRole[] = ["teacher", "student"];
+
+const TEMPLATE_VARIABLES = [
+  "publication",
+  "content",
+  "maxChars",
+  "minWords",
+  "maxWords",
+  "styleGuide",
+];
+
+// `{{#name}}...{{/name}}` is kept only when the variable is non-empty. A tag
+// followed by a line break takes the line break with it, so sections can sit
+// on lines of their own.
+const SECTION_PATTERN = /\{\{#(\w+)\}\}\n?([\s\S]*?)\{\{\/\1\}\}\n?/g;
+const VARIABLE_PATTERN = /\{\{(\w+)\}\}/g;
+
+export type TemplateVariables = Record<string, string | number | undefined>;
+
+/**
+ * Where prompt templates are read from: a local directory or an S3 prefix
+ */
+export interface PromptTemplateLocation {
+  store: ObjectStore;
+  prefix: string;
+}
+
+export interface RenderedPrompt {
+  text: string;
+  /**
+   * `<template name>@<version>`, stamped into example metadata
+   */
+  template: string;
+  /**
+   * Estimated tokens of article text kept in the prompt and cut from it
+   */
+  contentTokens: { kept: number; dropped: number };
+}
+
+interface ResolvedTemplate {
+  name: string;
+  version: string;
+  source: string;
+  styleGuide?: string;
+}
+
+export function renderTemplate(
+  source: string,
+  variables: TemplateVariables
+): string {
+  const valueOf = (name: string) =>
+    variables[name] === undefined ? "" : String(variables[name]);
+
+  return source
+    .replace(SECTION_PATTERN, (_, name: string, body: string) =>
+      valueOf(name) === "" ? "" : body
+    )
+    .replace(VARIABLE_PATTERN, (_, name: string) => valueOf(name));
+}
+
+/**
+ * Variables a template refers to, in sections or directly
+ */
+export function templateVariables(source: string): string[] {
+  const names = new Set<string>();
+  for (const match of source.matchAll(/\{\{[#/]?(\w+)\}\}/g)) {
+    names.add(match[1]);
+  }
+  return Array.from(names);
+}
+
+/**
+ * The teacher and student templates for one task, with per-publication
+ * overrides and house style guides. Versions of the templates rendered so
+ * far are collected for the dataset manifest.
+ */
+export class PromptTemplateSet {
+  private task: TaskDefinition;
+  private truncation: ContentTruncationConfig;
+  private base: Record<PromptRole, string>;
+  private overrides: Map<string, Partial<Record<PromptRole, string>>>;
+  private styleGuides: Map<string, string>;
+  private resolved = new Map<string, ResolvedTemplate>();
+  private used = new Map<string, string>();
+
+  constructor(
+    task: TaskDefinition,
+    truncation: ContentTruncationConfig,
+    base: Record<PromptRole, string>,
+    overrides: Map<string, Partial<Record<PromptRole, string>>> = new Map(),
+    styleGuides: Map<string, string> = new Map()
+  ) {
+    this.task = task;
+    this.truncation = truncation;
+    this.base = base;
+    this.overrides = overrides;
+    this.styleGuides = styleGuides;
+  }
+
+  render(role: PromptRole, example: TrainingExample): RenderedPrompt {
+    const template = this.resolve(role, example.publication);
+    const content = truncateContent(example.content, {
+      maxTokens: this.maxContentTokens(role),
+      strategy: this.truncation.strategy,
+      title: example.title,
+    });
+
+    this.used.set(template.name, template.version);
+    return {
+      text: renderTemplate(template.source, {
+        publication: example.publication,
+        content: content.text,
+        maxChars: this.task.maxChars,
+        minWords: this.task.minWords,
+        maxWords: this.task.maxWords,
+        styleGuide: template.styleGuide,
+      }),
+      template: `${template.name}@${template.version}`,
+      contentTokens: {
+        kept: content.keptTokens,
+        dropped: content.droppedTokens,
+      },
+    };
+  }
+
+  /**
+   * Name to version of every template rendered so far
+   */
+  getVersions(): Record<string, string> {
+    return Object.fromEntries(
+      Array.from(this.used.entries()).sort(([a], [b]) => a.localeCompare(b))
+    );
+  }
+
+  private maxContentTokens(role: PromptRole): number {
+    return this.truncation.maxTokens[role] ?? this.task.contentTokens[role];
+  }
+
+  /**
+   * The publication's override if it has one, otherwise the base template,
+   * plus the publication's style guide. Publications without either share
+   * the base template's name and version.
+   */
+  private resolve(role: PromptRole, publication: string): ResolvedTemplate {
+    const cacheKey = `${role}/${publication}`;
+    const cached = this.resolved.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const override = this.overrides.get(publication)?.[role];
+    const styleGuide = this.styleGuides.get(publication);
+    const source = override ?? this.base[role];
+    const name =
+      override !== undefined || styleGuide !== undefined
+        ? `${this.task.name}/${role}/${publication}`
+        : `${this.task.name}/${role}`;
+
+    const template: ResolvedTemplate = {
+      name,
+      // Covers everything that shapes the prompt besides the article itself
+      version: sha256Hex(
+        JSON.stringify({
+          source,
+          styleGuide,
+          contentTokens: this.maxContentTokens(role),
+          truncationStrategy: this.truncation.strategy,
+          maxChars: this.task.maxChars,
+          minWords: this.task.minWords,
+          maxWords: this.task.maxWords,
+        })
+      ).slice(0, 12),
+      source,
+      styleGuide,
+    };
+    this.resolved.set(cacheKey, template);
+    return template;
+  }
+}
+
+/**
+ * Strip the line break editors add at the end of a file, so a template ends
+ * where its text does
+ */
+function trimFinalNewline(body: string): string {
+  return body.replace(/\r?\n$/, "");
+}
+
+function checkVariables(key: string, source: string): void {
+  const unknown = templateVariables(source).filter(
+    (name) => !TEMPLATE_VARIABLES.includes(name)
+  );
+
+  if (unknown.length > 0) {
+    throw new PromptTemplateError(
+      `Prompt template ${key} uses unknown variables ${unknown.join(
+        ", "
+      )}, expected ${TEMPLATE_VARIABLES.join(", ")}`
+    );
+  }
+}
+
+/**
+ * Load the task's templates:
+ *
+ * - `<task>/teacher.txt` and `<task>/student.txt`: base templates (required)
+ * - `<task>/publications/<publication>/<role>.txt`: replaces a base template
+ *   for one publication
+ * - `style-guides/<publication>.md`: house style, shared by all tasks and
+ *   available to templates as `{{styleGuide}}`
+ */
+export async function loadPromptTemplates(
+  location: PromptTemplateLocation,
+  task: TaskDefinition,
+  truncation: ContentTruncationConfig
+): Promise<PromptTemplateSet> {
+  const { store, prefix } = location;
+  const taskPrefix = `${prefix}${task.name}/`;
+
+  const base = {} as Record<PromptRole, string>;
+  for (const role of PROMPT_ROLES) {
+    const key = `${taskPrefix}${role}.txt`;
+    const body = await store.getObject(key);
+
+    if (body === undefined) {
+      throw new PromptTemplateError(
+        `Missing ${role} prompt template ${store.getUri(key)}`
+      );
+    }
+
+    checkVariables(key, body);
+    base[role] = trimFinalNewline(body);
+  }
+
+  const overrides = new Map<string, Partial<Record<PromptRole, string>>>();
+  const overridePrefix = `${taskPrefix}publications/`;
+  for (const key of await store.listKeys(overridePrefix)) {
+    const match = key
+      .substring(overridePrefix.length)
+      .match(/^([^/]+)\/(teacher|student)\.txt$/);
+    if (!match) {
+      continue;
+    }
+
+    const body = (await store.getObject(key)) || "";
+    checkVariables(key, body);
+    overrides.set(match[1], {
+      ...overrides.get(match[1]),
+      [match[2]]: trimFinalNewline(body),
+    });
+  }
+
+  const styleGuides = new Map<string, string>();
+  const styleGuidePrefix = `${prefix}style-guides/`;
+  for (const key of await store.listKeys(styleGuidePrefix)) {
+    const match = key.substring(styleGuidePrefix.length).match(/^([^/]+)\.md$/);
+    if (match) {
+      styleGuides.set(
+        match[1],
+        trimFinalNewline((await store.getObject(key)) || "").trim()
+      );
+    }
+  }
+
+  console.log(
+    `Loaded ${task.name} prompt templates from ${store.getUri(taskPrefix)} ` +
+      `(${overrides.size} publication overrides, ${styleGuides.size} style guides)`
+  );
+  return new PromptTemplateSet(task, truncation, base, overrides, styleGuides);
+}
@@ -0,0 +1,271 @@
+import {
+  EvaluationReport,
+  HeadlineScores,
+  GateMetric,
+  MetricDelta,
+  PromotionRecord,
+  QualityGateResult,
+} from "./types";
+
+/**
+ * Largest allowed drop per metric versus the production baseline. Metrics
+ * are all higher-is-better; a metric without a threshold is not gated.
+ */
+export type MetricThresholds = Partial<Record<GateMetric, number>>;
+
+export interface QualityGateThresholds {
+  default: MetricThresholds;
+  publications?: Record<string, MetricThresholds>;
+  /**
+   * Lowest allowed overall student score per metric, checked with or
+   * without a baseline
+   */
+  minimums?: MetricThresholds;
+  /**
+   * Largest share of test examples the student may fail to answer
+   */
+  maxStudentErrorRate?: number;
+}
+
+export const DEFAULT_QUALITY_GATE_THRESHOLDS: QualityGateThresholds = {
+  default: {
+    rouge1: 0.02,
+    rougeL: 0.02,
+    bleu: 0.02,
+    lengthInRange: 0.05,
+    keywordOverlap: 0.05,
+    judgeScore: 0.25,
+  },
+  minimums: {
+    lengthInRange: 0.5,
+    keywordOverlap: 0.1,
+  },
+  maxStudentErrorRate: 0.05,
+};
+
+/**
+ * Parse QUALITY_GATE_THRESHOLDS JSON, layered over the defaults
+ */
+export function parseQualityGateThresholds(
+  value?: string
+): QualityGateThresholds {
+  if (!value) {
+    return DEFAULT_QUALITY_GATE_THRESHOLDS;
+  }
+
+  const parsed: Partial<QualityGateThresholds> = JSON.parse(value);
+  const maxStudentErrorRate =
+    parsed.maxStudentErrorRate ??
+    DEFAULT_QUALITY_GATE_THRESHOLDS.maxStudentErrorRate;
+  if (
+    typeof maxStudentErrorRate !== "number" ||
+    maxStudentErrorRate < 0 ||
+    maxStudentErrorRate > 1
+  ) {
+    throw new Error(
+      `Invalid maxStudentErrorRate "${parsed.maxStudentErrorRate}", expected a number between 0 and 1`
+    );
+  }
+
+  return {
+    default: {
+      ...DEFAULT_QUALITY_GATE_THRESHOLDS.default,
+      ...parsed.default,
+    },
+    publications: parsed.publications,
+    minimums: {
+      ...DEFAULT_QUALITY_GATE_THRESHOLDS.minimums,
+      ...parsed.minimums,
+    },
+    maxStudentErrorRate,
+  };
+}
+
+/**
+ * Keep only the thresholds for metrics the task is gated on
+ */
+export function restrictThresholds(
+  thresholds: QualityGateThresholds,
+  metrics: GateMetric[]
+): QualityGateThresholds {
+  const restrict = (values: MetricThresholds): MetricThresholds =>
+    Object.fromEntries(
+      Object.entries(values).filter(([metric]) =>
+        metrics.includes(metric as GateMetric)
+      )
+    );
+
+  return {
+    ...thresholds,
+    default: restrict(thresholds.default),
+    minimums: thresholds.minimums && restrict(thresholds.minimums),
+    publications:
+      thresholds.publications &&
+      Object.fromEntries(
+        Object.entries(thresholds.publications).map(([publication, values]) => [
+          publication,
+          restrict(values),
+        ])
+      ),
+  };
+}
+
+export function promotedPointerKey(
+  taskName: string,
+  publicationId?: string
+): string {
+  return `promoted/${taskName}/${publicationId || "all"}/promoted.json`;
+}
+
+function compareScores(
+  scope: string,
+  current: HeadlineScores,
+  baseline: HeadlineScores,
+  thresholds: MetricThresholds
+): MetricDelta[] {
+  const deltas: MetricDelta[] = [];
+
+  for (const [metric, maxRegression] of Object.entries(thresholds) as [
+    GateMetric,
+    number
+  ][]) {
+    const currentValue = current[metric];
+    const baselineValue = baseline[metric];
+
+    // Only compare metrics both models were scored on (e.g. judge is optional)
+    if (currentValue === undefined || baselineValue === undefined) {
+      continue;
+    }
+
+    const delta = currentValue - baselineValue;
+    deltas.push({
+      scope,
+      metric,
+      baseline: baselineValue,
+      current: currentValue,
+      delta,
+      maxRegression,
+      passed: delta >= -maxRegression,
+    });
+  }
+
+  return deltas;
+}
+
+/**
+ * Checks that hold with or without a baseline: there were test examples,
+ * the student answered enough of them and its overall scores reach the
+ * minimums
+ */
+function checkStudent(
+  report: EvaluationReport,
+  thresholds: QualityGateThresholds
+): string[] {
+  const { exampleCount, studentErrors, scores } = report.overall;
+  if (exampleCount === 0) {
+    return ["No test examples were evaluated"];
+  }
+
+  const failures: string[] = [];
+  const errorRate = studentErrors / exampleCount;
+  if (
+    thresholds.maxStudentErrorRate !== undefined &&
+    errorRate > thresholds.maxStudentErrorRate
+  ) {
+    failures.push(
+      `${studentErrors} of ${exampleCount} student calls failed, above the maximum error rate of ${thresholds.maxStudentErrorRate}`
+    );
+  }
+
+  for (const [metric, minimum] of Object.entries(thresholds.minimums || {}) as [
+    GateMetric,
+    number
+  ][]) {
+    const value = scores.student[metric];
+    if (value !== undefined && value < minimum) {
+      failures.push(
+        `Student ${metric} ${value.toFixed(
+          3
+        )} is below the minimum of ${minimum}`
+      );
+    }
+  }
+
+  return failures;
+}
+
+/**
+ * Compare the student's scores with the production baseline, overall and
+ * for every publication present in both. Without a baseline only the
+ * example count, student error rate and minimum scores are checked.
+ */
+export function evaluateQualityGate(
+  report: EvaluationReport,
+  baseline: PromotionRecord | undefined,
+  thresholds: QualityGateThresholds,
+  promotion: {
+    modelArn: string;
+    jobArn: string;
+    reportUri: string;
+    publicationId?: string;
+  }
+): QualityGateResult {
+  const deltas: MetricDelta[] = [];
+
+  if (baseline) {
+    deltas.push(
+      ...compareScores(
+        "overall",
+        report.overall.scores.student,
+        baseline.overall,
+        thresholds.default
+      )
+    );
+
+    for (const [publication, summary] of Object.entries(report.byPublication)) {
+      const publicationBaseline = baseline.byPublication[publication];
+      if (!publicationBaseline) {
+        continue;
+      }
+
+      deltas.push(
+        ...compareScores(
+          publication,
+          summary.scores.student,
+          publicationBaseline,
+          {
+            ...thresholds.default,
+            ...thresholds.publications?.[publication],
+          }
+        )
+      );
+    }
+  }
+
+  const regressions = deltas.filter((delta) => !delta.passed);
+  const failures = checkStudent(report, thresholds);
+
+  return {
+    passed: regressions.length === 0 && failures.length === 0,
+    hasBaseline: baseline !== undefined,
+    baselineModelArn: baseline?.modelArn ?? null,
+    deltas,
+    regressions,
+    failures,
+    promotedKey: promotedPointerKey(report.taskName, promotion.publicationId),
+    promotionRecord: {
+      modelArn: promotion.modelArn,
+      jobArn: promotion.jobArn,
+      datasetVersion: report.datasetVersion,
+      reportUri: promotion.reportUri,
+      promotedAt: new Date().toISOString(),
+      overall: report.overall.scores.student,
+      byPublication: Object.fromEntries(
+        Object.entries(report.byPublication).map(([publication, summary]) => [
+          publication,
+          summary.scores.student,
+        ])
+      ),
+    },
+  };
+}
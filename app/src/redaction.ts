@@ -0,0 +1,468 @@
+import { sha256Hex } from "./hash-utils";
+import { RedactionConfigError } from "./errors";
+import {
+  ObjectStore,
+  PromptExample,
+  RedactionConfig,
+  RedactionMode,
+  TrainingExample,
+} from "./types";
+
+const DENY_LIST_DETECTOR = "deny-list";
+const METADATA_FLAG_DETECTOR = "metadata-flag";
+
+/**
+ * Where the deny-list is read from: one term per line, `#` starts a comment
+ */
+export interface DenyListLocation {
+  store: ObjectStore;
+  key: string;
+}
+
+/**
+ * One redaction, as written to the audit file. Matched values are recorded
+ * only as hashes so the audit file does not leak what it redacted.
+ */
+export interface RedactionAuditRecord {
+  articleId: string;
+  publication: string;
+  detector: string;
+  action: "masked" | "excluded";
+  /**
+   * Where the matches were: `title`, `content` or `metadata.<key>`, or
+   * `prompt` or `completion` for an example from an earlier dataset
+   */
+  field?: string;
+  matches?: number;
+  /**
+   * First 12 hex characters of the sha256 of each distinct matched value
+   */
+  valueHashes?: string[];
+  detail?: string;
+}
+
+interface TextDetector {
+  name: string;
+  /**
+   * Replacement for masked matches
+   */
+  mask: string;
+  pattern: RegExp;
+  /**
+   * Rejects pattern matches that are not really this kind of value
+   */
+  accept?: (match: string) => boolean;
+}
+
+interface ConfiguredDetector extends TextDetector {
+  mode: RedactionMode;
+}
+
+function digitsOf(value: string): string {
+  return value.replace(/\D/g, "");
+}
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = parseInt(digits[digits.length - 1 - i], 10);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Built-in PII detectors. Card numbers come before phone numbers so their
+ * digits are masked before the phone pattern sees them.
+ */
+const PII_DETECTORS: TextDetector[] = [
+  {
+    name: "email",
+    mask: "[EMAIL]",
+    pattern:
+      /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)*\.\p{L}{2,}/gu,
+  },
+  {
+    name: "card-number",
+    mask: "[CARD_NUMBER]",
+    pattern: /(?<!\d)\d(?:[ -]?\d){12,18}(?!\d)/g,
+    accept: (match) => passesLuhn(digitsOf(match)),
+  },
+  {
+    name: "ssn",
+    mask: "[SSN]",
+    pattern: /(?<!\d)\d{3}-\d{2}-\d{4}(?!\d)/g,
+  },
+  {
+    name: "ni-number",
+    mask: "[NI_NUMBER]",
+    pattern:
+      /\b[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z] ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/g,
+  },
+  {
+    name: "phone",
+    mask: "[PHONE]",
+    pattern:
+      /(?<![\p{L}\p{N}+])(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,5}\)[ .-]?)?\d[\d .-]{5,17}\d(?![\p{L}\p{N}])/gu,
+    // Long enough to be a phone number, and not a date range or a decimal
+    accept: (match) => {
+      const digits = digitsOf(match).length;
+      return digits >= 9 && digits <= 15 && !/^\d+\.\d+$/.test(match);
+    },
+  },
+];
+
+export const REDACTION_DETECTOR_NAMES = [
+  ...PII_DETECTORS.map((detector) => detector.name),
+  DENY_LIST_DETECTOR,
+];
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Matches any deny-listed term as a whole word, ignoring case. Longer terms
+ * come first so "Jane Smith" wins over "Jane".
+ */
+function denyListDetector(terms: string[]): TextDetector {
+  const alternatives = [...terms]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join("|");
+
+  return {
+    name: DENY_LIST_DETECTOR,
+    mask: "[REDACTED]",
+    pattern: new RegExp(
+      `(?<![\\p{L}\\p{N}])(?:${alternatives})(?![\\p{L}\\p{N}])`,
+      "giu"
+    ),
+  };
+}
+
+function hashValue(value: string): string {
+  return sha256Hex(value).slice(0, 12);
+}
+
+/**
+ * Masks or excludes personal and legally sensitive content before articles
+ * are sent to the teacher model or written to a dataset, keeping an audit
+ * record of every redaction
+ */
+export class RedactionService {
+  private detectors: ConfiguredDetector[];
+  private metadataFlags: string[];
+  private now: Date;
+  private auditRecords: RedactionAuditRecord[] = [];
+
+  constructor(
+    config: RedactionConfig,
+    denyList: string[] = [],
+    now = new Date()
+  ) {
+    this.metadataFlags = config.metadataFlags;
+    this.now = now;
+    this.detectors = config.detectors.flatMap(({ name, mode }) => {
+      if (name === DENY_LIST_DETECTOR) {
+        return denyList.length > 0
+          ? [{ ...denyListDetector(denyList), mode }]
+          : [];
+      }
+
+      const detector = PII_DETECTORS.find((pii) => pii.name === name);
+      if (!detector) {
+        throw new RedactionConfigError(`Unknown redaction detector "${name}"`);
+      }
+      return [{ ...detector, mode }];
+    });
+  }
+
+  /**
+   * Every redaction made so far
+   */
+  getAuditRecords(): RedactionAuditRecord[] {
+    return this.auditRecords;
+  }
+
+  redactExamples(examples: TrainingExample[]): TrainingExample[] {
+    const redacted: TrainingExample[] = [];
+
+    for (const example of examples) {
+      const result = this.redactExample(example);
+      if (result) {
+        redacted.push(result);
+      }
+    }
+
+    const excluded = examples.length - redacted.length;
+    const masked = this.auditRecords.filter(
+      (record) => record.action === "masked"
+    ).length;
+    console.log(
+      `Redaction: ${excluded} articles excluded, ${masked} fields masked`
+    );
+    return redacted;
+  }
+
+  /**
+   * Redact the examples of an earlier dataset before they are merged into a
+   * new one, so detectors and deny-list terms added since it was built still
+   * apply. The prompt, completion and original target are redacted and
+   * metadata flags still exclude the example.
+   */
+  redactPromptExamples(examples: PromptExample[]): PromptExample[] {
+    const before = this.auditRecords.length;
+    const redacted: PromptExample[] = [];
+
+    for (const example of examples) {
+      const metadata = example.metadata || {};
+      const fields = new Map<string, string>([
+        ["prompt", example.prompt],
+        ["completion", example.completion],
+      ]);
+      for (const key of ["originalTitle", "originalTarget"]) {
+        if (typeof metadata[key] === "string") {
+          fields.set(`metadata.${key}`, metadata[key]);
+        }
+      }
+
+      const result = this.redactFields(
+        {
+          articleId: String(metadata.articleId ?? ""),
+          publication: String(metadata.publication ?? ""),
+          metadata,
+        },
+        fields
+      );
+      if (!result) {
+        continue;
+      }
+      if (!result.masked) {
+        redacted.push(example);
+        continue;
+      }
+
+      const maskedMetadata = { ...metadata };
+      for (const [field, text] of result.fields) {
+        if (field.startsWith("metadata.")) {
+          maskedMetadata[field.substring("metadata.".length)] = text;
+        }
+      }
+      redacted.push({
+        ...example,
+        prompt: result.fields.get("prompt") as string,
+        completion: result.fields.get("completion") as string,
+        ...(example.metadata ? { metadata: maskedMetadata } : {}),
+      });
+    }
+
+    const masked = this.auditRecords
+      .slice(before)
+      .filter((record) => record.action === "masked").length;
+    console.log(
+      `Redaction of earlier examples: ${
+        examples.length - redacted.length
+      } excluded, ${masked} fields masked`
+    );
+    return redacted;
+  }
+
+  /**
+   * The article with matches masked, or undefined when it is excluded
+   */
+  private redactExample(example: TrainingExample): TrainingExample | undefined {
+    const result = this.redactFields(example, this.textFields(example));
+    if (!result) {
+      return undefined;
+    }
+    return result.masked ? this.applyFields(example, result.fields) : example;
+  }
+
+  /**
+   * The fields with matches masked, or undefined when the example is
+   * excluded. Every redaction is added to the audit records.
+   */
+  private redactFields(
+    example: Pick<TrainingExample, "articleId" | "publication" | "metadata">,
+    fields: Map<string, string>
+  ): { fields: Map<string, string>; masked: boolean } | undefined {
+    const flag = this.findMetadataFlag(example);
+    if (flag) {
+      this.auditRecords.push({
+        articleId: example.articleId,
+        publication: example.publication,
+        detector: METADATA_FLAG_DETECTOR,
+        action: "excluded",
+        detail: flag,
+      });
+      return undefined;
+    }
+
+    const masks: RedactionAuditRecord[] = [];
+
+    for (const detector of this.detectors) {
+      for (const [field, text] of fields) {
+        const matches = this.findMatches(detector, text);
+        if (matches.length === 0) {
+          continue;
+        }
+
+        const record: RedactionAuditRecord = {
+          articleId: example.articleId,
+          publication: example.publication,
+          detector: detector.name,
+          action: detector.mode === "exclude" ? "excluded" : "masked",
+          field,
+          matches: matches.length,
+          valueHashes: Array.from(new Set(matches.map(hashValue))),
+        };
+
+        if (detector.mode === "exclude") {
+          this.auditRecords.push(record);
+          return undefined;
+        }
+
+        fields.set(field, this.maskMatches(detector, text));
+        masks.push(record);
+      }
+    }
+
+    this.auditRecords.push(...masks);
+    return { fields, masked: masks.length > 0 };
+  }
+
+  /**
+   * `<flag>=<value>` of the first metadata flag that holds the article back:
+   * a true value, or a date still in the future
+   */
+  private findMetadataFlag(
+    example: Pick<TrainingExample, "metadata">
+  ): string | undefined {
+    for (const flag of this.metadataFlags) {
+      const value = example.metadata?.[flag];
+      if (value === undefined || value === null || value === "") {
+        continue;
+      }
+
+      const until =
+        typeof value === "string" && !/^(true|false)$/i.test(value)
+          ? Date.parse(value)
+          : NaN;
+      const held = isNaN(until)
+        ? value === true || String(value).toLowerCase() === "true"
+        : until > this.now.getTime();
+
+      if (held) {
+        return `${flag}=${value}`;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Title, content and the string metadata values other than flags, which
+   * can hold task targets such as a standfirst
+   */
+  private textFields(example: TrainingExample): Map<string, string> {
+    const fields = new Map<string, string>([
+      ["title", example.title],
+      ["content", example.content],
+    ]);
+
+    for (const [key, value] of Object.entries(example.metadata || {})) {
+      if (this.metadataFlags.includes(key)) {
+        continue;
+      }
+      if (typeof value === "string") {
+        fields.set(`metadata.${key}`, value);
+      } else if (Array.isArray(value)) {
+        value.forEach((item, i) => {
+          if (typeof item === "string") {
+            fields.set(`metadata.${key}.${i}`, item);
+          }
+        });
+      }
+    }
+
+    return fields;
+  }
+
+  private applyFields(
+    example: TrainingExample,
+    fields: Map<string, string>
+  ): TrainingExample {
+    const metadata: Record<string, any> = { ...example.metadata };
+
+    for (const [field, text] of fields) {
+      if (!field.startsWith("metadata.")) {
+        continue;
+      }
+      const name = field.substring("metadata.".length);
+      const item = name.match(/^(.*)\.(\d+)$/);
+      if (item && Array.isArray(example.metadata?.[item[1]])) {
+        metadata[item[1]] = [...metadata[item[1]]];
+        metadata[item[1]][parseInt(item[2], 10)] = text;
+      } else {
+        metadata[name] = text;
+      }
+    }
+
+    return {
+      ...example,
+      title: fields.get("title") as string,
+      content: fields.get("content") as string,
+      ...(example.metadata ? { metadata } : {}),
+    };
+  }
+
+  private findMatches(detector: TextDetector, text: string): string[] {
+    return Array.from(
+      text.matchAll(detector.pattern),
+      (match) => match[0]
+    ).filter((match) => !detector.accept || detector.accept(match));
+  }
+
+  private maskMatches(detector: TextDetector, text: string): string {
+    return text.replace(detector.pattern, (match) =>
+      !detector.accept || detector.accept(match) ? detector.mask : match
+    );
+  }
+}
+
+/**
+ * Terms from the deny-list, e.g. names a court has ordered anonymised. No
+ * location means no deny-list; a configured one that is missing is an error
+ * rather than a silent pass.
+ */
+export async function loadDenyList(
+  location?: DenyListLocation
+): Promise<string[]> {
+  if (!location) {
+    return [];
+  }
+
+  const body = await location.store.getObject(location.key);
+  if (body === undefined) {
+    throw new RedactionConfigError(
+      `Deny-list ${location.store.getUri(location.key)} does not exist`
+    );
+  }
+
+  const terms = body
+    .split(/\r?\n/)
+    .map((line) => line.replace(/#.*$/, "").trim())
+    .filter((line) => line !== "");
+  console.log(
+    `Loaded ${terms.length} deny-list terms from ${location.store.getUri(
+      location.key
+    )}`
+  );
+  return terms;
+}
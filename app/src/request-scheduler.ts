@@ -0,0 +1,252 @@
+import { TeacherRateLimits } from "./types";
+
+export interface SchedulerClock {
+  now(): number;
+  sleep(ms: number): Promise<void>;
+  random(): number;
+}
+
+const systemClock: SchedulerClock = {
+  now: () => Date.now(),
+  sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+  random: () => Math.random(),
+};
+
+const THROTTLING_ERROR_NAMES = new Set([
+  "ThrottlingException",
+  "TooManyRequestsException",
+  "ServiceQuotaExceededException",
+]);
+
+const SERVER_ERROR_NAMES = new Set([
+  "InternalServerException",
+  "ServiceUnavailableException",
+  "ModelNotReadyException",
+  "ModelTimeoutException",
+]);
+
+export type RequestFailureKind = "throttled" | "server_error" | "client_error";
+
+/**
+ * Classify a Bedrock error; only throttling and server errors are retried
+ */
+export function classifyRequestError(error: unknown): RequestFailureKind {
+  const name = error instanceof Error ? error.name : "";
+  const status = (error as { $metadata?: { httpStatusCode?: number } })
+    ?.$metadata?.httpStatusCode;
+
+  if (THROTTLING_ERROR_NAMES.has(name) || status === 429) {
+    return "throttled";
+  }
+
+  if (SERVER_ERROR_NAMES.has(name) || (status !== undefined && status >= 500)) {
+    return "server_error";
+  }
+
+  return "client_error";
+}
+
+/**
+ * The request failed on every attempt, or with an error not worth retrying
+ */
+export class RequestFailedError extends Error {
+  readonly kind: RequestFailureKind;
+  readonly attempts: number;
+  readonly lastError: unknown;
+
+  constructor(kind: RequestFailureKind, attempts: number, lastError: unknown) {
+    super(
+      `Request failed after ${attempts} attempt(s) (${kind}): ${
+        lastError instanceof Error ? lastError.message : String(lastError)
+      }`
+    );
+    this.name = "RequestFailedError";
+    this.kind = kind;
+    this.attempts = attempts;
+    this.lastError = lastError;
+  }
+}
+
+/**
+ * Refills continuously up to a per-minute budget
+ */
+export class TokenBucket {
+  private capacity: number;
+  private tokens: number;
+  private refillPerMs: number;
+  private lastRefill: number;
+  private clock: SchedulerClock;
+
+  constructor(perMinute: number, clock: SchedulerClock = systemClock) {
+    this.capacity = perMinute;
+    this.tokens = perMinute;
+    this.refillPerMs = perMinute / 60000;
+    this.clock = clock;
+    this.lastRefill = clock.now();
+  }
+
+  /**
+   * Wait until `amount` tokens are available and take them. Requests larger
+   * than the whole bucket wait for a full bucket instead of forever.
+   */
+  async take(amount: number): Promise<void> {
+    const needed = Math.min(amount, this.capacity);
+
+    for (;;) {
+      this.refill();
+
+      if (this.tokens >= needed) {
+        this.tokens -= needed;
+        return;
+      }
+
+      await this.clock.sleep(
+        Math.ceil((needed - this.tokens) / this.refillPerMs)
+      );
+    }
+  }
+
+  private refill(): void {
+    const now = this.clock.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + (now - this.lastRefill) * this.refillPerMs
+    );
+    this.lastRefill = now;
+  }
+}
+
+export interface RequestSchedulerConfig extends TeacherRateLimits {
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+/**
+ * Work queue for model requests. Limits in-flight requests and request/token
+ * rates, retries throttling and server errors with exponential backoff and
+ * full jitter, and halves concurrency when throttled before growing it back
+ * one slot at a time as requests succeed.
+ */
+export class RequestScheduler {
+  private maxConcurrency: number;
+  private concurrency: number;
+  private maxAttempts: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private requestBucket?: TokenBucket;
+  private tokenBucket?: TokenBucket;
+  private clock: SchedulerClock;
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private successesSinceChange = 0;
+
+  constructor(
+    config: RequestSchedulerConfig,
+    clock: SchedulerClock = systemClock
+  ) {
+    this.maxConcurrency = Math.max(1, config.maxConcurrency);
+    this.concurrency = this.maxConcurrency;
+    this.maxAttempts = Math.max(1, config.maxAttempts);
+    this.baseDelayMs = config.baseDelayMs ?? 1000;
+    this.maxDelayMs = config.maxDelayMs ?? 60000;
+    this.clock = clock;
+
+    if (config.requestsPerMinute) {
+      this.requestBucket = new TokenBucket(config.requestsPerMinute, clock);
+    }
+    if (config.tokensPerMinute) {
+      this.tokenBucket = new TokenBucket(config.tokensPerMinute, clock);
+    }
+  }
+
+  getConcurrency(): number {
+    return this.concurrency;
+  }
+
+  /**
+   * Run a request once a slot and rate budget are free, retrying transient
+   * failures. Throws RequestFailedError when the request cannot succeed.
+   */
+  async schedule<T>(
+    request: () => Promise<T>,
+    estimatedTokens = 0
+  ): Promise<T> {
+    await this.acquireSlot();
+
+    try {
+      for (let attempt = 1; ; attempt++) {
+        await this.requestBucket?.take(1);
+        await this.tokenBucket?.take(estimatedTokens);
+
+        try {
+          const result = await request();
+          this.onSuccess();
+          return result;
+        } catch (error) {
+          const kind = classifyRequestError(error);
+
+          if (kind === "client_error" || attempt >= this.maxAttempts) {
+            throw new RequestFailedError(kind, attempt, error);
+          }
+
+          if (kind === "throttled") {
+            this.onThrottled();
+          }
+
+          await this.clock.sleep(this.backoffDelay(attempt));
+        }
+      }
+    } finally {
+      this.releaseSlot();
+    }
+  }
+
+  private backoffDelay(attempt: number): number {
+    const ceiling = Math.min(
+      this.maxDelayMs,
+      this.baseDelayMs * 2 ** (attempt - 1)
+    );
+    return Math.floor(this.clock.random() * ceiling);
+  }
+
+  private onThrottled(): void {
+    const reduced = Math.max(1, Math.floor(this.concurrency / 2));
+    if (reduced < this.concurrency) {
+      console.log(
+        `Throttled by Bedrock, reducing concurrency ${this.concurrency} -> ${reduced}`
+      );
+      this.concurrency = reduced;
+    }
+    this.successesSinceChange = 0;
+  }
+
+  private onSuccess(): void {
+    if (this.concurrency >= this.maxConcurrency) {
+      return;
+    }
+
+    this.successesSinceChange++;
+    if (this.successesSinceChange >= this.concurrency) {
+      this.concurrency++;
+      this.successesSinceChange = 0;
+      this.wakeWaiting();
+    }
+  }
+
+  private async acquireSlot(): Promise<void> {
+    while (this.active >= this.concurrency) {
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    }
+    this.active++;
+  }
+
+  private releaseSlot(): void {
+    this.active--;
+    this.wakeWaiting();
+  }
+
+  private wakeWaiting(): void {
+    const free = this.concurrency - this.active;
+    this.waiting.splice(0, Math.max(0, free)).forEach((resolve) => resolve());
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * A value that differs between two runs, by its dotted path
+ */
+export interface ValueChange {
+  path: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface ArticleDiff {
+  added: string[];
+  removed: string[];
+  unchanged: number;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Leaf values that were added, removed or changed between two objects.
+ * Arrays are compared whole.
+ */
+export function diffValues(
+  before: unknown,
+  after: unknown,
+  path = ""
+): ValueChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = Array.from(
+      new Set([...Object.keys(before), ...Object.keys(after)])
+    ).sort();
+    return keys.flatMap((key) =>
+      diffValues(before[key], after[key], path ? `${path}.${key}` : key)
+    );
+  }
+
+  return JSON.stringify(before) === JSON.stringify(after)
+    ? []
+    : [{ path, before, after }];
+}
+
+/**
+ * Articles in the second run but not the first, and the reverse
+ */
+export function diffArticleIds(before: string[], after: string[]): ArticleDiff {
+  const beforeIds = new Set(before);
+  const afterIds = new Set(after);
+
+  return {
+    added: Array.from(afterIds)
+      .filter((id) => !beforeIds.has(id))
+      .sort(),
+    removed: Array.from(beforeIds)
+      .filter((id) => !afterIds.has(id))
+      .sort(),
+    unchanged: Array.from(afterIds).filter((id) => beforeIds.has(id)).length,
+  };
+}
@@ -0,0 +1,103 @@
+import { ModelLifecycleStep, ObjectStore, RunRecord } from "./types";
+
+const RUNS_PREFIX = "runs/";
+
+/**
+ * One record per training run, kept in the training bucket under `runs/`
+ * so past runs can be listed, compared and rerun
+ */
+export class RunRegistry {
+  private objectStore: ObjectStore;
+
+  constructor(objectStore: ObjectStore) {
+    this.objectStore = objectStore;
+  }
+
+  /**
+   * Write the run's record, replacing the one from an earlier attempt
+   */
+  async recordRun(record: RunRecord): Promise<void> {
+    await this.objectStore.putObject(
+      this.recordKey(record.trainingRunId),
+      JSON.stringify(record, null, 2),
+      { contentType: "application/json" }
+    );
+    console.log(`Recorded run ${record.trainingRunId} (${record.status})`);
+  }
+
+  async getRun(trainingRunId: string): Promise<RunRecord | undefined> {
+    const body = await this.objectStore.getObject(
+      this.recordKey(trainingRunId)
+    );
+    return body === undefined ? undefined : JSON.parse(body);
+  }
+
+  /**
+   * Set the outcome of a later step, e.g. the training job or the quality
+   * gate, on the run's record
+   */
+  async updateRun(
+    trainingRunId: string,
+    fields: Partial<Omit<RunRecord, "trainingRunId">>
+  ): Promise<void> {
+    const run = await this.getRun(trainingRunId);
+    if (!run) {
+      console.warn(
+        `Run ${trainingRunId} is not in the registry, not updating it`
+      );
+      return;
+    }
+
+    await this.recordRun({ ...run, ...fields });
+  }
+
+  /**
+   * Add a model lifecycle step to the run's record, replacing the step from
+   * an earlier attempt, and set the fields the step produced
+   */
+  async recordLifecycleStep(
+    trainingRunId: string,
+    step: ModelLifecycleStep,
+    fields: Pick<RunRecord, "modelArn" | "provisionedModelArn" | "aliasUri">
+  ): Promise<void> {
+    const run = await this.getRun(trainingRunId);
+    if (!run) {
+      console.warn(
+        `Run ${trainingRunId} is not in the registry, not recording ${step.step}`
+      );
+      return;
+    }
+
+    await this.recordRun({
+      ...run,
+      ...fields,
+      lifecycle: [
+        ...(run.lifecycle || []).filter(
+          (recorded) => recorded.step !== step.step
+        ),
+        step,
+      ],
+    });
+  }
+
+  /**
+   * Every recorded run, newest first
+   */
+  async listRuns(): Promise<RunRecord[]> {
+    const keys = await this.objectStore.listKeys(RUNS_PREFIX);
+    const runs: RunRecord[] = [];
+
+    for (const key of keys.filter((key) => key.endsWith(".json"))) {
+      const body = await this.objectStore.getObject(key);
+      if (body !== undefined) {
+        runs.push(JSON.parse(body));
+      }
+    }
+
+    return runs.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  }
+
+  private recordKey(trainingRunId: string): string {
+    return `${RUNS_PREFIX}${trainingRunId}.json`;
+  }
+}
@@ -0,0 +1,303 @@
+import { SFNClient, StartExecutionCommand } from "@aws-sdk/client-sfn";
+import { getPipelineMode, loadTrainingConfig } from "./config";
+import { createObjectStore } from "./pipeline-services";
+import { RunRegistry } from "./run-registry";
+import { diffArticleIds, diffValues, ValueChange } from "./run-diff";
+import {
+  DatasetManifest,
+  ObjectStore,
+  PromotionRecord,
+  RunRecord,
+} from "./types";
+
+const USAGE = `Usage: runs <command>
+
+  list                List recorded runs, newest first
+  show <run-id>       Show a run's record and dataset manifest
+  diff <run-a> <run-b>
+                      Compare config, counts and articles between two runs
+  rerun <run-id>      Start the state machine again with the run's input`;
+
+// Config that differs between every pair of runs
+const IGNORED_CONFIG_PATHS = [
+  "trainingRunId",
+  "executionArn",
+  "executionInput",
+];
+
+// Article IDs printed per direction before the rest are summarised
+const MAX_LISTED_ARTICLES = 20;
+
+async function requireRun(
+  registry: RunRegistry,
+  trainingRunId: string | undefined
+): Promise<RunRecord> {
+  if (!trainingRunId) {
+    throw new Error(USAGE);
+  }
+
+  const run = await registry.getRun(trainingRunId);
+  if (!run) {
+    throw new Error(`Run ${trainingRunId} is not in the registry`);
+  }
+  return run;
+}
+
+async function readManifest(
+  objectStore: ObjectStore,
+  run: RunRecord
+): Promise<DatasetManifest | undefined> {
+  if (!run.manifestUri) {
+    return undefined;
+  }
+
+  const body = await objectStore.getObject(objectStore.getKey(run.manifestUri));
+  return body === undefined ? undefined : JSON.parse(body);
+}
+
+/**
+ * IDs of the articles in the dataset, from its metadata sidecar
+ */
+async function readArticleIds(
+  objectStore: ObjectStore,
+  manifest: DatasetManifest
+): Promise<string[]> {
+  const body = await objectStore.getObject(
+    objectStore.getKey(manifest.metadataUri)
+  );
+
+  return (body || "")
+    .split("\n")
+    .filter((line) => line.trim() !== "")
+    .map((line) => JSON.parse(line).articleId)
+    .filter((articleId): articleId is string => typeof articleId === "string");
+}
+
+/**
+ * Job ARNs of the models currently promoted to production
+ */
+async function readPromotedJobArns(
+  objectStore: ObjectStore
+): Promise<Set<string>> {
+  const jobArns = new Set<string>();
+
+  for (const key of await objectStore.listKeys("promoted/")) {
+    const body = await objectStore.getObject(key);
+    if (body !== undefined) {
+      jobArns.add((JSON.parse(body) as PromotionRecord).jobArn);
+    }
+  }
+
+  return jobArns;
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? "(unset)" : JSON.stringify(value);
+}
+
+function printChanges(title: string, changes: ValueChange[]): void {
+  console.log(`${title}:`);
+  if (changes.length === 0) {
+    console.log("  (no changes)");
+  }
+  for (const change of changes) {
+    const delta =
+      typeof change.before === "number" && typeof change.after === "number"
+        ? ` (${change.after - change.before >= 0 ? "+" : ""}${
+            change.after - change.before
+          })`
+        : "";
+    console.log(
+      `  ${change.path}: ${formatValue(change.before)} -> ${formatValue(
+        change.after
+      )}${delta}`
+    );
+  }
+}
+
+function printArticleIds(sign: string, ids: string[]): void {
+  for (const id of ids.slice(0, MAX_LISTED_ARTICLES)) {
+    console.log(`  ${sign} ${id}`);
+  }
+  if (ids.length > MAX_LISTED_ARTICLES) {
+    console.log(`  ${sign} ... ${ids.length - MAX_LISTED_ARTICLES} more`);
+  }
+}
+
+async function listRuns(
+  registry: RunRegistry,
+  objectStore: ObjectStore
+): Promise<void> {
+  const runs = await registry.listRuns();
+  const promoted = await readPromotedJobArns(objectStore);
+
+  const rows = runs.map((run) => [
+    run.trainingRunId,
+    run.status,
+    run.taskName,
+    run.publicationId,
+    run.startedAt,
+    run.promptCount?.toString() ?? "-",
+    run.bedrockJobArn && promoted.has(run.bedrockJobArn) ? "promoted" : "",
+  ]);
+  const header = [
+    "RUN",
+    "STATUS",
+    "TASK",
+    "PUBLICATION",
+    "STARTED",
+    "PROMPTS",
+    "",
+  ];
+  const widths = header.map((title, i) =>
+    Math.max(title.length, ...rows.map((row) => row[i].length))
+  );
+
+  for (const row of [header, ...rows]) {
+    console.log(
+      row
+        .map((value, i) => value.padEnd(widths[i]))
+        .join("  ")
+        .trimEnd()
+    );
+  }
+}
+
+async function showRun(
+  registry: RunRegistry,
+  objectStore: ObjectStore,
+  trainingRunId: string | undefined
+): Promise<void> {
+  const run = await requireRun(registry, trainingRunId);
+  const manifest = await readManifest(objectStore, run);
+
+  console.log(JSON.stringify({ ...run, manifest }, null, 2));
+}
+
+async function diffRuns(
+  registry: RunRegistry,
+  objectStore: ObjectStore,
+  before: string | undefined,
+  after: string | undefined
+): Promise<void> {
+  const runA = await requireRun(registry, before);
+  const runB = await requireRun(registry, after);
+  const manifestA = await readManifest(objectStore, runA);
+  const manifestB = await readManifest(objectStore, runB);
+
+  console.log(`${runA.trainingRunId} -> ${runB.trainingRunId}\n`);
+
+  if (manifestA && manifestB) {
+    printChanges(
+      "Config",
+      diffValues(manifestA.config, manifestB.config).filter(
+        (change) => !IGNORED_CONFIG_PATHS.includes(change.path)
+      )
+    );
+  } else {
+    console.log("Config:\n  (a run has no dataset manifest to compare)");
+  }
+  printChanges(
+    "Counts",
+    diffValues(
+      {
+        status: runA.status,
+        stageCounts: runA.stageCounts,
+        splitCounts: runA.splitCounts,
+      },
+      {
+        status: runB.status,
+        stageCounts: runB.stageCounts,
+        splitCounts: runB.splitCounts,
+      }
+    )
+  );
+
+  if (!manifestA || !manifestB) {
+    console.log("Articles:\n  (a run has no dataset manifest to compare)");
+    return;
+  }
+
+  const articles = diffArticleIds(
+    await readArticleIds(objectStore, manifestA),
+    await readArticleIds(objectStore, manifestB)
+  );
+  console.log(
+    `Articles: ${articles.added.length} added, ${articles.removed.length} removed, ${articles.unchanged} in both`
+  );
+  printArticleIds("+", articles.added);
+  printArticleIds("-", articles.removed);
+}
+
+/**
+ * State machine of an execution, from its ARN
+ * (`arn:aws:states:<region>:<account>:execution:<state machine>:<name>`)
+ */
+function stateMachineArnOf(executionArn: string): string {
+  const parts = executionArn.split(":");
+  if (parts.length !== 8 || parts[5] !== "execution") {
+    throw new Error(`Invalid execution ARN "${executionArn}"`);
+  }
+  return [...parts.slice(0, 5), "stateMachine", parts[6]].join(":");
+}
+
+async function rerun(
+  registry: RunRegistry,
+  region: string,
+  trainingRunId: string | undefined
+): Promise<void> {
+  const run = await requireRun(registry, trainingRunId);
+  if (!run.executionArn) {
+    throw new Error(
+      `Run ${run.trainingRunId} was not started by Step Functions and cannot be rerun`
+    );
+  }
+  // Execution history expires, so the input is taken from the record
+  if (run.executionInput === undefined) {
+    throw new Error(
+      `Run ${run.trainingRunId} was recorded without its execution input and cannot be rerun`
+    );
+  }
+
+  const sfnClient = new SFNClient({ region });
+  const response = await sfnClient.send(
+    new StartExecutionCommand({
+      stateMachineArn: stateMachineArnOf(run.executionArn),
+      input: run.executionInput,
+    })
+  );
+
+  console.log(
+    `Started ${response.executionArn} with the input of ${run.trainingRunId}: ${run.executionInput}`
+  );
+}
+
+/**
+ * Command-line access to the run registry
+ */
+async function main() {
+  const region = process.env.AWS_REGION || "eu-west-1";
+  const mode = getPipelineMode();
+  const config = loadTrainingConfig(mode);
+  const objectStore = createObjectStore(mode, config, region);
+  const registry = new RunRegistry(objectStore);
+  const [command, ...args] = process.argv.slice(2);
+
+  switch (command) {
+    case "list":
+      return listRuns(registry, objectStore);
+    case "show":
+      return showRun(registry, objectStore, args[0]);
+    case "diff":
+      return diffRuns(registry, objectStore, args[0], args[1]);
+    case "rerun":
+      return rerun(registry, region, args[0]);
+    default:
+      throw new Error(USAGE);
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
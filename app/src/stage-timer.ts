@@ -0,0 +1,21 @@
+export class StageTimer {
+  private timings: Record<string, number> = {};
+
+  /**
+   * Run a pipeline stage and record its duration in milliseconds
+   */
+  async time<T>(stage: string, fn: () => Promise<T> | T): Promise<T> {
+    const startTime = Date.now();
+
+    try {
+      return await fn();
+    } finally {
+      this.timings[stage] = Date.now() - startTime;
+      console.log(`Stage ${stage} took ${this.timings[stage]}ms`);
+    }
+  }
+
+  getTimings(): Record<string, number> {
+    return { ...this.timings };
+  }
+}
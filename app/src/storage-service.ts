@@ -1,52 +1,289 @@
-import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
-import { PromptExample, TrainingConfig, ProcessingResult } from "./types";
+import { DatasetFormatter, formatDataset } from "./dataset-formatter";
+import { promotedPointerKey } from "./quality-gate";
+import {
+  TrainingConfig,
+  ProcessingResult,
+  ObjectStore,
+  DatasetSplits,
+  DatasetSplitName,
+  DatasetManifest,
+  DatasetFileManifest,
+  DistillationStats,
+  DataSourceLineage,
+  BuildInfo,
+  CleaningRuleCounts,
+  ParentDatasetReference,
+  PromotionRecord,
+  PromptExample,
+} from "./types";
+import { sha256Hex } from "./hash-utils";
+
+/**
+ * A file written next to the dataset, e.g. a list of removed articles
+ */
+export interface DatasetReport {
+  fileName: string;
+  body: string;
+  contentType: string;
+}
+
+/**
+ * What produced the dataset, recorded in its manifest
+ */
+export interface DatasetDetails {
+  startedAt: Date;
+  source: DataSourceLineage;
+  build: BuildInfo;
+  stageCounts: Record<string, number>;
+  cleaning: Record<string, CleaningRuleCounts>;
+  distillationStats: DistillationStats;
+  promptTemplates: Record<string, string>;
+  reports: DatasetReport[];
+  highWaterMark?: string;
+  parent?: ParentDatasetReference;
+}
+
+/**
+ * A saved dataset and its examples, for an incremental run to build on
+ */
+export interface ParentDataset {
+  manifest: DatasetManifest;
+  manifestUri: string;
+  examples: PromptExample[];
+}
+
+const SPLIT_FILE_NAMES: Record<DatasetSplitName, string> = {
+  train: "training-data.jsonl",
+  validation: "validation-data.jsonl",
+  test: "test-data.jsonl",
+};
 
 export class StorageService {
-  private s3Client: S3Client;
+  private objectStore: ObjectStore;
 
-  constructor(region: string) {
-    this.s3Client = new S3Client({ region });
+  constructor(objectStore: ObjectStore) {
+    this.objectStore = objectStore;
   }
 
+  /**
+   * Save the train, validation and test splits side by side under the run's
+   * dataset version, in the schema the base model expects. Empty splits are
+   * still written so every run has the same set of files. Per-example
+   * metadata goes to a sidecar file because Bedrock rejects extra keys, the
+   * unformatted examples to `examples.jsonl` for incremental runs to build
+   * on, and reports under `reports/`.
+   */
   async saveTrainingDataset(
-    prompts: PromptExample[],
-    config: TrainingConfig
+    splits: DatasetSplits,
+    config: TrainingConfig,
+    formatter: DatasetFormatter,
+    details: DatasetDetails
   ): Promise<ProcessingResult> {
-    const datasetVersion = `${Date.now()}-${config.trainingRunId}`;
-    const key = `datasets/${
-      config.publicationId || "all"
-    }/${datasetVersion}/training-data.jsonl`;
-
-    // Convert prompts to JSONL format
-    const jsonlContent = prompts
-      .map((prompt) => JSON.stringify(prompt))
+    // Validate against the model limits before anything is uploaded
+    const formatted = formatDataset(splits, formatter);
+
+    // One version per run, so a retried task overwrites its own dataset and
+    // the job it finds already submitted still matches the manifest
+    const datasetVersion = config.trainingRunId;
+    const prefix = `${this.datasetsPrefix(config)}${datasetVersion}`;
+
+    const files = {} as Record<DatasetSplitName, DatasetFileManifest>;
+    for (const name of Object.keys(SPLIT_FILE_NAMES) as DatasetSplitName[]) {
+      files[name] = await this.saveSplit(
+        `${prefix}/${SPLIT_FILE_NAMES[name]}`,
+        name,
+        formatted[name],
+        config
+      );
+    }
+
+    const metadataKey = `${prefix}/metadata.jsonl`;
+    const metadataContent = (Object.keys(splits) as DatasetSplitName[])
+      .flatMap((name) =>
+        splits[name].map((prompt, index) =>
+          JSON.stringify({ split: name, index, ...prompt.metadata })
+        )
+      )
       .join("\n");
+    await this.objectStore.putObject(metadataKey, metadataContent, {
+      contentType: "application/jsonl",
+    });
+
+    const examplesKey = `${prefix}/examples.jsonl`;
+    await this.objectStore.putObject(
+      examplesKey,
+      (Object.keys(splits) as DatasetSplitName[])
+        .flatMap((name) => splits[name].map((prompt) => JSON.stringify(prompt)))
+        .join("\n"),
+      { contentType: "application/jsonl" }
+    );
+
+    const reports: Record<string, string> = {};
+    for (const report of details.reports) {
+      const reportKey = `${prefix}/reports/${report.fileName}`;
+      await this.objectStore.putObject(reportKey, report.body, {
+        contentType: report.contentType,
+      });
+      reports[report.fileName] = this.objectStore.getUri(reportKey);
+    }
+
+    const manifest: DatasetManifest = {
+      datasetVersion,
+      taskName: config.taskName,
+      trainingRunId: config.trainingRunId,
+      publicationId: config.publicationId || "all",
+      baseModelId: config.baseModelId,
+      modelFamily: formatter.family,
+      startedAt: details.startedAt.toISOString(),
+      createdAt: new Date().toISOString(),
+      config,
+      source: details.source,
+      build: details.build,
+      teacher: {
+        modelId: config.teacherModelId,
+        inferenceParams: config.teacherInferenceParams,
+      },
+      stageCounts: details.stageCounts,
+      cleaning: details.cleaning,
+      files,
+      metadataUri: this.objectStore.getUri(metadataKey),
+      examplesUri: this.objectStore.getUri(examplesKey),
+      ...(details.highWaterMark
+        ? { highWaterMark: details.highWaterMark }
+        : {}),
+      ...(details.parent ? { parent: details.parent } : {}),
+      distillation: details.distillationStats,
+      promptTemplates: details.promptTemplates,
+      reports,
+    };
+    const manifestKey = `${prefix}/manifest.json`;
+    await this.objectStore.putObject(
+      manifestKey,
+      JSON.stringify(manifest, null, 2),
+      { contentType: "application/json" }
+    );
+
+    const splitCounts = {
+      train: files.train.records,
+      validation: files.validation.records,
+      test: files.test.records,
+    };
+
+    return {
+      promptCount:
+        splitCounts.train + splitCounts.validation + splitCounts.test,
+      s3Location: files.train.uri,
+      validationS3Location: files.validation.uri,
+      testS3Location: files.test.uri,
+      splitCounts,
+      manifestS3Location: this.objectStore.getUri(manifestKey),
+      datasetVersion,
+      processingTime: Date.now() - details.startedAt.getTime(),
+    };
+  }
+
+  /**
+   * The dataset the promoted model for the config's task and publications
+   * was trained on, or undefined when no model has been promoted yet or the
+   * dataset was saved without its examples. Datasets whose model failed
+   * training or the quality gate are never built on.
+   */
+  async loadPromotedDataset(
+    config: TrainingConfig
+  ): Promise<ParentDataset | undefined> {
+    const promotionBody = await this.objectStore.getObject(
+      promotedPointerKey(config.taskName, config.publicationId)
+    );
+    if (promotionBody === undefined) {
+      return undefined;
+    }
+    const promotion: PromotionRecord = JSON.parse(promotionBody);
+
+    const manifestKey = `${this.datasetsPrefix(config)}${
+      promotion.datasetVersion
+    }/manifest.json`;
+    const manifestUri = this.objectStore.getUri(manifestKey);
+    const body = await this.objectStore.getObject(manifestKey);
+    if (body === undefined) {
+      throw new Error(
+        `Promoted dataset ${manifestUri} for model ${promotion.modelArn} does not exist`
+      );
+    }
+    const manifest: DatasetManifest = JSON.parse(body);
+    if (!manifest.examplesUri) {
+      console.warn(
+        `Promoted dataset ${manifestUri} has no examples file to build on`
+      );
+      return undefined;
+    }
+
+    const examples = (
+      (await this.objectStore.getObject(
+        this.objectStore.getKey(manifest.examplesUri)
+      )) || ""
+    )
+      .split("\n")
+      .filter((line) => line.trim() !== "")
+      .map((line) => JSON.parse(line) as PromptExample);
+
+    return { manifest, manifestUri, examples };
+  }
+
+  /**
+   * Add the customization job trained on a dataset to its manifest
+   */
+  async recordBedrockJob(
+    result: ProcessingResult,
+    bedrockJobArn: string
+  ): Promise<void> {
+    const manifestKey = this.objectStore.getKey(result.manifestS3Location);
+    const body = await this.objectStore.getObject(manifestKey);
+    if (body === undefined) {
+      throw new Error(`Manifest ${result.manifestS3Location} does not exist`);
+    }
+
+    const manifest: DatasetManifest = { ...JSON.parse(body), bedrockJobArn };
+    await this.objectStore.putObject(
+      manifestKey,
+      JSON.stringify(manifest, null, 2),
+      { contentType: "application/json" }
+    );
+  }
+
+  private datasetsPrefix(config: TrainingConfig): string {
+    return `datasets/${config.taskName}/${config.publicationId || "all"}/`;
+  }
+
+  private async saveSplit(
+    key: string,
+    split: DatasetSplitName,
+    lines: string[],
+    config: TrainingConfig
+  ): Promise<DatasetFileManifest> {
+    const jsonlContent = lines.join("\n");
 
     // Upload to S3
-    const command = new PutObjectCommand({
-      Bucket: config.trainingDataBucket,
-      Key: key,
-      Body: jsonlContent,
-      ContentType: "application/jsonl",
-      Metadata: {
+    await this.objectStore.putObject(key, jsonlContent, {
+      contentType: "application/jsonl",
+      metadata: {
         "training-run-id": config.trainingRunId,
-        "prompt-count": prompts.length.toString(),
+        "prompt-count": lines.length.toString(),
         "publication-id": config.publicationId || "all",
+        task: config.taskName,
         "look-back-days": config.lookBackDays.toString(),
+        split,
       },
     });
 
-    await this.s3Client.send(command);
+    const s3Location = this.objectStore.getUri(key);
 
-    const s3Location = `s3://${config.trainingDataBucket}/${key}`;
-
-    console.log(`Saved ${prompts.length} prompts to ${s3Location}`);
+    console.log(`Saved ${lines.length} ${split} prompts to ${s3Location}`);
 
     return {
-      promptCount: prompts.length,
-      s3Location,
-      datasetVersion,
-      processingTime: Date.now(),
+      uri: s3Location,
+      records: lines.length,
+      sizeBytes: Buffer.byteLength(jsonlContent),
+      sha256: sha256Hex(jsonlContent),
     };
   }
 }
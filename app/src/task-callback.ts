@@ -0,0 +1,92 @@
+import {
+  SFNClient,
+  SendTaskSuccessCommand,
+  SendTaskFailureCommand,
+  SendTaskHeartbeatCommand,
+} from "@aws-sdk/client-sfn";
+// Step Functions limits on SendTaskFailure fields
+const MAX_ERROR_LENGTH = 256;
+const MAX_CAUSE_LENGTH = 32768;
+
+export class TaskCallbackService {
+  private sfnClient: SFNClient;
+  private taskToken?: string;
+
+  constructor(region: string, taskToken?: string) {
+    this.sfnClient = new SFNClient({ region });
+    this.taskToken = taskToken;
+  }
+
+  /**
+   * Report the task result back to the waiting Step Functions state.
+   * Without a task token (e.g. running locally) the result is only printed.
+   */
+  async sendSuccess(output: object): Promise<void> {
+    console.log(JSON.stringify(output));
+
+    if (!this.taskToken) {
+      console.log("No task token set, skipping Step Functions callback");
+      return;
+    }
+
+    const command = new SendTaskSuccessCommand({
+      taskToken: this.taskToken,
+      output: JSON.stringify(output),
+    });
+
+    await this.sfnClient.send(command);
+    console.log("Reported task success to Step Functions");
+  }
+
+  /**
+   * Send heartbeats until the returned function is called. If the task
+   * crashes the heartbeats stop and Step Functions times the state out
+   * (and retries it) instead of waiting for the full task timeout.
+   */
+  startHeartbeat(intervalMs: number = 60000): () => void {
+    if (!this.taskToken) {
+      return () => {};
+    }
+
+    const taskToken = this.taskToken;
+    const timer = setInterval(() => {
+      this.sfnClient
+        .send(new SendTaskHeartbeatCommand({ taskToken }))
+        .catch((error) => console.error("Failed to send heartbeat:", error));
+    }, intervalMs);
+
+    // Don't keep the process alive just for heartbeats
+    timer.unref();
+
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * Report a task failure so the state machine can catch it immediately
+   * instead of waiting for the task timeout
+   */
+  async sendFailure(error: unknown): Promise<void> {
+    if (!this.taskToken) {
+      return;
+    }
+
+    const errorName = error instanceof Error ? error.name : "Error";
+    const cause = error instanceof Error ? error.message : String(error);
+
+    const command = new SendTaskFailureCommand({
+      taskToken: this.taskToken,
+      error: errorName.substring(0, MAX_ERROR_LENGTH),
+      cause: cause.substring(0, MAX_CAUSE_LENGTH),
+    });
+
+    try {
+      await this.sfnClient.send(command);
+      console.log("Reported task failure to Step Functions");
+    } catch (callbackError) {
+      console.error(
+        "Failed to report task failure to Step Functions:",
+        callbackError
+      );
+    }
+  }
+}
@@ -0,0 +1,272 @@
+import { ConfigError } from "./errors";
+import { countWords } from "./evaluation-metrics";
+import { GateMetric, PromptRole, TrainingExample } from "./types";
+
+/**
+ * Check on a teacher output before it becomes a training target
+ */
+export interface OutputValidator {
+  name: string;
+  /**
+   * Returns why the output is rejected, or undefined when it is valid
+   */
+  validate(output: string): string | undefined;
+}
+
+/**
+ * One generation task the pipeline can distil a model for
+ */
+export interface TaskDefinition {
+  name: string;
+  /**
+   * Singular noun for the output, used in judge prompts and reports
+   */
+  outputLabel: string;
+  /**
+   * Where the human-written output lives: a TrainingExample field, or
+   * `metadata.<key>` for outputs that only some articles have
+   */
+  targetField: string;
+  /**
+   * Target length, scored as lengthInRange during evaluation
+   */
+  minWords: number;
+  maxWords: number;
+  /**
+   * Output character limit, available to prompt templates as `{{maxChars}}`
+   */
+  maxChars?: number;
+  /**
+   * Default token budget for the article text shown to each model; the
+   * prompts themselves are templates under `prompts/<task name>/`
+   */
+  contentTokens: Record<PromptRole, number>;
+  validators: OutputValidator[];
+  /**
+   * Evaluation metrics the quality gate checks for this task
+   */
+  metrics: GateMetric[];
+  /**
+   * Rubric the LLM judge scores outputs against
+   */
+  judgeCriteria: string[];
+}
+
+export function nonEmpty(): OutputValidator {
+  return {
+    name: "nonEmpty",
+    validate: (output) => (output.trim() === "" ? "empty output" : undefined),
+  };
+}
+
+export function singleLine(): OutputValidator {
+  return {
+    name: "singleLine",
+    validate: (output) =>
+      output.trim().includes("\n") ? "output spans several lines" : undefined,
+  };
+}
+
+export function wordCount(min: number, max: number): OutputValidator {
+  return {
+    name: "wordCount",
+    validate: (output) => {
+      const words = countWords(output);
+      return words < min || words > max
+        ? `${words} words, expected ${min}-${max}`
+        : undefined;
+    },
+  };
+}
+
+export function maxChars(max: number): OutputValidator {
+  return {
+    name: "maxChars",
+    validate: (output) =>
+      output.length > max
+        ? `${output.length} characters, expected at most ${max}`
+        : undefined,
+  };
+}
+
+export function commaSeparatedList(min: number, max: number): OutputValidator {
+  return {
+    name: "commaSeparatedList",
+    validate: (output) => {
+      const items = output
+        .split(",")
+        .map((item) => item.trim())
+        .filter((item) => item !== "");
+      return items.length < min || items.length > max
+        ? `${items.length} items, expected ${min}-${max}`
+        : undefined;
+    },
+  };
+}
+
+const headline: TaskDefinition = {
+  name: "headline",
+  outputLabel: "headline",
+  targetField: "title",
+  minWords: 8,
+  maxWords: 15,
+  contentTokens: { teacher: 800, student: 800 },
+  validators: [nonEmpty(), singleLine(), wordCount(3, 25)],
+  metrics: [
+    "rouge1",
+    "rougeL",
+    "bleu",
+    "lengthInRange",
+    "keywordOverlap",
+    "judgeScore",
+  ],
+  judgeCriteria: [
+    "Accuracy: every claim is supported by the article",
+    "Clarity: a reader understands the story at a glance",
+    "Engagement: it makes the reader want to read on",
+  ],
+};
+
+const standfirst: TaskDefinition = {
+  name: "standfirst",
+  outputLabel: "standfirst",
+  targetField: "metadata.standfirst",
+  minWords: 15,
+  maxWords: 40,
+  contentTokens: { teacher: 1500, student: 1500 },
+  validators: [nonEmpty(), singleLine(), wordCount(8, 60)],
+  metrics: [
+    "rouge1",
+    "rougeL",
+    "lengthInRange",
+    "keywordOverlap",
+    "judgeScore",
+  ],
+  judgeCriteria: [
+    "Accuracy: every claim is supported by the article",
+    "Coverage: it captures the main point of the story",
+    "Readability: it reads naturally under a headline",
+  ],
+};
+
+const metaDescription: TaskDefinition = {
+  name: "meta-description",
+  outputLabel: "meta description",
+  targetField: "metadata.metaDescription",
+  minWords: 12,
+  maxWords: 30,
+  contentTokens: { teacher: 1000, student: 1000 },
+  maxChars: 160,
+  validators: [nonEmpty(), singleLine(), maxChars(160)],
+  metrics: [
+    "rouge1",
+    "rougeL",
+    "lengthInRange",
+    "keywordOverlap",
+    "judgeScore",
+  ],
+  judgeCriteria: [
+    "Accuracy: every claim is supported by the article",
+    "Relevance: it contains the keywords a reader would search for",
+    "Clarity: it tells a searcher what the article is about",
+  ],
+};
+
+const socialCopy: TaskDefinition = {
+  name: "social-copy",
+  outputLabel: "social media post",
+  targetField: "metadata.socialCopy",
+  minWords: 10,
+  maxWords: 45,
+  contentTokens: { teacher: 1000, student: 1000 },
+  maxChars: 280,
+  validators: [nonEmpty(), maxChars(280)],
+  metrics: ["rouge1", "lengthInRange", "keywordOverlap", "judgeScore"],
+  judgeCriteria: [
+    "Accuracy: every claim is supported by the article",
+    "Engagement: it makes the reader want to click",
+    "Tone: it suits the publication's brand",
+  ],
+};
+
+const tags: TaskDefinition = {
+  name: "tags",
+  outputLabel: "tag list",
+  targetField: "metadata.tags",
+  minWords: 3,
+  maxWords: 30,
+  contentTokens: { teacher: 1500, student: 1500 },
+  validators: [nonEmpty(), singleLine(), commaSeparatedList(1, 15)],
+  metrics: ["rouge1", "keywordOverlap", "judgeScore"],
+  judgeCriteria: [
+    "Accuracy: every tag is supported by the article",
+    "Coverage: the main subjects of the article are tagged",
+    "Precision: there are no vague or redundant tags",
+  ],
+};
+
+const registry = new Map<string, TaskDefinition>();
+
+/**
+ * Make a task selectable by name, replacing any task with the same name
+ */
+export function registerTaskDefinition(task: TaskDefinition): void {
+  registry.set(task.name, task);
+}
+
+export function getTaskDefinition(name: string): TaskDefinition {
+  const task = registry.get(name);
+
+  if (!task) {
+    throw new ConfigError(
+      `Unknown task "${name}", expected one of ${Array.from(
+        registry.keys()
+      ).join(", ")}`
+    );
+  }
+
+  return task;
+}
+
+[headline, standfirst, metaDescription, socialCopy, tags].forEach(
+  registerTaskDefinition
+);
+
+/**
+ * The human-written output for an article, or undefined when it has none.
+ * Lists (e.g. tags) are joined with commas.
+ */
+export function getTarget(
+  task: TaskDefinition,
+  example: TrainingExample
+): string | undefined {
+  const value = task.targetField.startsWith("metadata.")
+    ? example.metadata?.[task.targetField.substring("metadata.".length)]
+    : (example as unknown as Record<string, unknown>)[task.targetField];
+
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.join(", ") : undefined;
+  }
+
+  return typeof value === "string" && value.trim() !== ""
+    ? value.trim()
+    : undefined;
+}
+
+/**
+ * Run the task's validators, returning the first failure as
+ * `<validator>: <reason>`
+ */
+export function validateOutput(
+  task: TaskDefinition,
+  output: string
+): string | undefined {
+  for (const validator of task.validators) {
+    const reason = validator.validate(output);
+    if (reason) {
+      return `${validator.name}: ${reason}`;
+    }
+  }
+
+  return undefined;
+}
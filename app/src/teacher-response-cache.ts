@@ -0,0 +1,106 @@
+import { sha256Hex } from "./hash-utils";
+import { ObjectStore, TeacherInferenceParams } from "./types";
+
+interface TeacherCacheEntry {
+  teacherModelId: string;
+  inferenceParams: TeacherInferenceParams;
+  completion: string;
+  createdAt: string;
+}
+
+export interface TeacherCacheStats {
+  hits: number;
+  misses: number;
+}
+
+export interface TeacherResponseCacheOptions {
+  /**
+   * Skip lookups but still store fresh responses, e.g. after a prompt fix
+   */
+  refresh?: boolean;
+}
+
+/**
+ * Teacher completions shared across runs, addressed by a hash of everything
+ * that determines the response. Re-running over overlapping date ranges only
+ * pays for prompts the teacher has not answered before.
+ */
+export class TeacherResponseCache {
+  private objectStore: ObjectStore;
+  private refresh: boolean;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(
+    objectStore: ObjectStore,
+    options: TeacherResponseCacheOptions = {}
+  ) {
+    this.objectStore = objectStore;
+    this.refresh = options.refresh || false;
+  }
+
+  createKey(
+    teacherModelId: string,
+    prompt: string,
+    inferenceParams: TeacherInferenceParams
+  ): string {
+    return sha256Hex(
+      JSON.stringify({
+        teacherModelId,
+        prompt,
+        maxTokens: inferenceParams.maxTokens,
+        temperature: inferenceParams.temperature,
+      })
+    );
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    if (this.refresh) {
+      this.misses++;
+      return undefined;
+    }
+
+    try {
+      const body = await this.objectStore.getObject(this.objectKey(key));
+      if (body !== undefined) {
+        const entry: TeacherCacheEntry = JSON.parse(body);
+        this.hits++;
+        return entry.completion;
+      }
+    } catch (error) {
+      // A broken cache only costs a teacher call
+      console.error(`Error reading teacher cache entry ${key}:`, error);
+    }
+
+    this.misses++;
+    return undefined;
+  }
+
+  async put(
+    key: string,
+    entry: Omit<TeacherCacheEntry, "createdAt">
+  ): Promise<void> {
+    const body: TeacherCacheEntry = {
+      ...entry,
+      createdAt: new Date().toISOString(),
+    };
+
+    try {
+      await this.objectStore.putObject(
+        this.objectKey(key),
+        JSON.stringify(body),
+        { contentType: "application/json" }
+      );
+    } catch (error) {
+      console.error(`Error writing teacher cache entry ${key}:`, error);
+    }
+  }
+
+  getStats(): TeacherCacheStats {
+    return { hits: this.hits, misses: this.misses };
+  }
+
+  private objectKey(key: string): string {
+    return `teacher-cache/${key}.json`;
+  }
+}
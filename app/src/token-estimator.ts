@@ -0,0 +1,9 @@
+// Rough average for English prose across the Bedrock model tokenizers
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimate the number of tokens in a piece of text without a tokenizer
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
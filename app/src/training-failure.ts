@@ -0,0 +1,28 @@
+import { getPipelineMode, loadTrainingConfig } from "./config";
+import { createObjectStore } from "./pipeline-services";
+import { RunRegistry } from "./run-registry";
+
+/**
+ * Entry point run when the Bedrock training job fails, to mark the run
+ * failed in the registry
+ */
+async function main() {
+  const region = process.env.AWS_REGION || "eu-west-1";
+  const mode = getPipelineMode();
+  const config = loadTrainingConfig(mode);
+
+  const registry = new RunRegistry(createObjectStore(mode, config, region));
+
+  await registry.updateRun(config.trainingRunId, {
+    status: "failed",
+    completedAt: new Date().toISOString(),
+    error: `Bedrock training job failed: ${
+      process.env.FAILURE_REASON || "no reason given"
+    }`,
+  });
+}
+
+main().catch((error) => {
+  console.error("Failed to record the training failure:", error);
+  process.exit(1);
+});
@@ -8,27 +8,850 @@ export interface TrainingExample {
 }
 
 export interface PromptExample {
+  /**
+   * Instructions sent as the system prompt for message-style models
+   */
+  system?: string;
   prompt: string;
   completion: string;
   metadata?: Record<string, any>;
 }
 
+export interface SplitRatios {
+  train: number;
+  validation: number;
+  test: number;
+}
+
+export type DatasetSplitName = keyof SplitRatios;
+
+export type DatasetSplits = Record<DatasetSplitName, PromptExample[]>;
+
+/**
+ * Which model a prompt is written for
+ */
+export type PromptRole = "teacher" | "student";
+
+/**
+ * How article text is cut to fit a prompt: from the start, or the opening
+ * plus the paragraphs most relevant to the title
+ */
+export type TruncationStrategy = "lead" | "lead-plus-key";
+
+export interface ContentTruncationConfig {
+  strategy: TruncationStrategy;
+  /**
+   * Token budgets for the article text, overriding the task's defaults
+   */
+  maxTokens: Partial<Record<PromptRole, number>>;
+}
+
+/**
+ * Sampling parameters sent with every teacher request
+ */
+export interface TeacherInferenceParams {
+  maxTokens: number;
+  temperature?: number;
+}
+
+/**
+ * Client-side limits for teacher requests, kept under the account's Bedrock
+ * quotas
+ */
+export interface TeacherRateLimits {
+  maxConcurrency: number;
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+  /**
+   * Attempts per article before falling back
+   */
+  maxAttempts: number;
+}
+
+/**
+ * What to do with an article the teacher could not produce a completion for
+ */
+export type TeacherFailurePolicy = "drop" | "keep-as-human" | "fail-run";
+
+/**
+ * Which copy of a near-duplicate group is kept
+ */
+export type NearDuplicateSurvivorRule =
+  | "earliest-published"
+  | "canonical-publication";
+
+export interface NearDuplicateConfig {
+  enabled: boolean;
+  /**
+   * Estimated Jaccard similarity of content shingles at which two articles
+   * count as copies
+   */
+  threshold: number;
+  survivorRule: NearDuplicateSurvivorRule;
+  /**
+   * Publications whose copy is kept under "canonical-publication", in order
+   * of preference
+   */
+  canonicalPublications: string[];
+}
+
+export interface CleaningConfig {
+  /**
+   * Names of the cleaning rules to run, in order
+   */
+  rules: string[];
+  /**
+   * ISO 639-1 codes of the languages articles may be written in
+   */
+  languages: string[];
+  minContentWords: number;
+  maxContentWords: number;
+}
+
+export interface CleaningRuleCounts {
+  /**
+   * Articles that reached the rule
+   */
+  checked: number;
+  dropped: number;
+  transformed: number;
+  /**
+   * Drops and transforms by reason code
+   */
+  reasons: Record<string, number>;
+}
+
+/**
+ * What a redaction detector does with an article it matches: replace the
+ * matches with a placeholder, or leave the article out
+ */
+export type RedactionMode = "mask" | "exclude";
+
+export interface RedactionConfig {
+  /**
+   * Detectors to run, in order, each with its mode
+   */
+  detectors: Array<{ name: string; mode: RedactionMode }>;
+  /**
+   * Local file or `s3://` URI of the deny-list
+   */
+  denyListUri?: string;
+  /**
+   * Metadata fields that hold an article back when true, or until the date
+   * they hold, e.g. `legal_hold` and `embargo_until`
+   */
+  metadataFlags: string[];
+}
+
+/**
+ * What happens to teacher completions stating names, figures or quotes the
+ * article does not contain
+ */
+export type FactCheckPolicy = "off" | "flag" | "drop";
+
+export interface FactCheckConfig {
+  policy: FactCheckPolicy;
+  /**
+   * Ask the teacher to judge completions whose only unsupported claims are
+   * names
+   */
+  judgeBorderline: boolean;
+}
+
+/**
+ * Source column for each TrainingExample field, and for the columns the
+ * query can filter on
+ */
+export interface AthenaSchemaMapping {
+  articleId: string;
+  title: string;
+  content: string;
+  publication: string;
+  publishedDate: string;
+  /**
+   * JSON column parsed into metadata, if the table has one
+   */
+  metadata?: string;
+  /**
+   * Further columns copied into metadata, by metadata key, e.g.
+   * `{ standfirst: "standfirst_text" }`
+   */
+  metadataColumns: Record<string, string>;
+  section: string;
+  author: string;
+  contentType: string;
+}
+
+/**
+ * Which articles a run trains on. Empty lists do not filter.
+ */
+export interface TrainingDataFilters {
+  publicationIds: string[];
+  sections: string[];
+  authors: string[];
+  contentTypes: string[];
+  excludeArticleIds: string[];
+  /**
+   * First and last publication dates, inclusive, as YYYY-MM-DD. Without a
+   * start date the look-back period applies.
+   */
+  startDate?: string;
+  endDate?: string;
+}
+
+/**
+ * Period articles are grouped by to spread a sample over time
+ */
+export type TimeBucket = "day" | "week" | "month";
+
+/**
+ * How the cleaned articles are sampled before distillation. Without
+ * `maxExamples` only the publication cap applies; quotas, stratification
+ * and temporal spreading decide how `maxExamples` is shared out, so they
+ * require it.
+ */
+export interface SamplingConfig {
+  maxExamples?: number;
+  /**
+   * Most articles kept from any one publication
+   */
+  maxPerPublication?: number;
+  /**
+   * Share of `maxExamples` for each listed publication. Unlisted
+   * publications split what is left.
+   */
+  publicationQuotas: Record<string, number>;
+  /**
+   * Metadata key whose values share each publication's examples equally,
+   * e.g. "section"
+   */
+  stratifyBy?: string;
+  /**
+   * Period whose buckets share each publication's examples equally
+   */
+  timeBucket?: TimeBucket;
+  /**
+   * Seed for the random order articles are picked in
+   */
+  seed: string;
+}
+
+/**
+ * Whether a run builds its dataset from scratch or adds the articles
+ * published since the promoted model's dataset to it
+ */
+export type DatasetMode = "full" | "incremental";
+
+/**
+ * Which examples an incremental dataset keeps once it is over its maximum
+ * size: the most recently published, or a sample weighted towards them
+ */
+export type RetentionSampling = "newest" | "recency-weighted";
+
+/**
+ * Limits on an incremental dataset. Ages are measured from the newest
+ * article in the dataset, so a rebuild of the same data keeps the same
+ * examples.
+ */
+export interface DatasetRetentionConfig {
+  maxAgeDays?: number;
+  maxExamples?: number;
+  sampling: RetentionSampling;
+  /**
+   * Age at which an example is half as likely to be kept under
+   * "recency-weighted"
+   */
+  halfLifeDays: number;
+}
+
 export interface TrainingConfig {
+  /**
+   * Registered task definition to distil a model for, e.g. "headline"
+   */
+  taskName: string;
   lookBackDays: number;
+  /**
+   * Publication the dataset is built for, or the `_`-joined publications
+   * when there are several. Names dataset and promotion paths.
+   */
   publicationId?: string;
+  dataFilters: TrainingDataFilters;
   trainingRunId: string;
+  /**
+   * Step Functions execution running the pipeline and its input, if any
+   */
+  executionArn?: string;
+  executionInput?: string;
   minPromptCount: number;
+  datasetMode: DatasetMode;
+  retention: DatasetRetentionConfig;
   trainingDataBucket: string;
   athenaDatabase: string;
   athenaTable: string;
   athenaWorkgroup: string;
   athenaOutputLocation: string;
+  athenaSchema: AthenaSchemaMapping;
+  splitRatios: SplitRatios;
+  baseModelId: string;
+  teacherModelId: string;
+  teacherInferenceParams: TeacherInferenceParams;
+  teacherRateLimits: TeacherRateLimits;
+  teacherFailurePolicy: TeacherFailurePolicy;
+  /**
+   * Share of articles the teacher may fail on before the run is aborted
+   */
+  maxTeacherFailureRate: number;
+  /**
+   * Ignore cached teacher responses and ask the teacher again
+   */
+  teacherCacheRefresh: boolean;
+  /**
+   * Distil with batch inference instead of on-demand calls from this many
+   * articles
+   */
+  batchDistillationThreshold: number;
+  /**
+   * Dataset format override, otherwise derived from the base model
+   */
+  datasetFormat?: string;
+  contentTruncation: ContentTruncationConfig;
+  cleaning: CleaningConfig;
+  nearDuplicates: NearDuplicateConfig;
+  sampling: SamplingConfig;
+  redaction: RedactionConfig;
+  factCheck: FactCheckConfig;
+  /**
+   * Directory or `s3://` prefix holding prompt templates, otherwise the
+   * templates bundled with the app
+   */
+  promptTemplatesUri?: string;
 }
 
 export interface ProcessingResult {
   promptCount: number;
   s3Location: string;
+  validationS3Location: string;
+  testS3Location: string;
+  splitCounts: Record<DatasetSplitName, number>;
+  manifestS3Location: string;
   datasetVersion: string;
   processingTime: number;
   error?: string;
 }
+
+export interface DatasetFileManifest {
+  uri: string;
+  records: number;
+  sizeBytes: number;
+  sha256: string;
+}
+
+/**
+ * How each article left distillation: a teacher completion, one restored
+ * from a checkpoint, or a teacher failure handled by the failure policy
+ */
+export type DistillationOutcome =
+  | "distilled"
+  | "resumed"
+  | "dropped"
+  | "keptAsHuman";
+
+export interface DistillationStats {
+  cacheHits: number;
+  cacheMisses: number;
+  outcomes: Record<DistillationOutcome, number>;
+}
+
+/**
+ * Where a run's articles came from
+ */
+export interface DataSourceLineage {
+  /**
+   * Athena query behind the run, with its execution parameters
+   */
+  queryExecutionId?: string;
+  sql?: string;
+  parameters?: string[];
+  /**
+   * The query's result file, or the local fixture file
+   */
+  uri?: string;
+}
+
+/**
+ * The code and container image that ran the pipeline
+ */
+export interface BuildInfo {
+  gitSha?: string;
+  imageDigest?: string;
+}
+
+/**
+ * The dataset an incremental dataset was built on
+ */
+export interface ParentDatasetReference {
+  datasetVersion: string;
+  manifestUri: string;
+}
+
+export interface DatasetManifest {
+  datasetVersion: string;
+  taskName: string;
+  trainingRunId: string;
+  publicationId: string;
+  baseModelId: string;
+  modelFamily: string;
+  startedAt: string;
+  createdAt: string;
+  /**
+   * The resolved config the run used
+   */
+  config: TrainingConfig;
+  source: DataSourceLineage;
+  build: BuildInfo;
+  teacher: {
+    modelId: string;
+    inferenceParams: TeacherInferenceParams;
+  };
+  /**
+   * Articles or prompts left after each pipeline stage, in order
+   */
+  stageCounts: Record<string, number>;
+  /**
+   * Counts per cleaning rule, as in the cleaning summary report
+   */
+  cleaning: Record<string, CleaningRuleCounts>;
+  files: Record<DatasetSplitName, DatasetFileManifest>;
+  metadataUri: string;
+  /**
+   * Prompt examples with their metadata, in a format-independent form that
+   * incremental runs merge new examples into
+   */
+  examplesUri?: string;
+  /**
+   * Latest publication date of any article added to this dataset or its
+   * parents
+   */
+  highWaterMark?: string;
+  parent?: ParentDatasetReference;
+  distillation: DistillationStats;
+  /**
+   * Version of every prompt template used, by template name
+   */
+  promptTemplates: Record<string, string>;
+  /**
+   * URI of each report written with the dataset, by file name
+   */
+  reports: Record<string, string>;
+  /**
+   * Customization job trained on the dataset, added once it is submitted
+   */
+  bedrockJobArn?: string;
+}
+
+export interface PipelineTaskOutput {
+  bedrockJobArn: string;
+  datasetS3Uri: string;
+  validationS3Uri: string;
+  testS3Uri: string;
+  manifestS3Uri: string;
+  datasetVersion: string;
+  promptCount: number;
+  splitCounts: Record<DatasetSplitName, number>;
+  distillationStats: DistillationStats;
+  stageTimings: Record<string, number>;
+}
+
+export interface BedrockTrainingJobConfig {
+  modelId: string;
+  trainingDataS3Uri: string;
+  outputDataConfigS3Uri: string;
+  baseModelArn: string;
+  hyperParameters?: Record<string, string>;
+}
+
+export type PipelineMode = "aws" | "local";
+
+/**
+ * A source row that could not be read as an article. It is left out of the
+ * run and listed in the quarantine report instead of failing the run.
+ */
+export interface QuarantinedRow {
+  /**
+   * Row number in the source, counting from 1 after any header
+   */
+  row: number;
+  reason: string;
+  detail?: string;
+  articleId?: string;
+  /**
+   * Start of the raw row, to find it in the source
+   */
+  excerpt: string;
+}
+
+/**
+ * Source of human-authored training examples (Athena or a local fixture file)
+ */
+export interface TrainingDataSource {
+  /**
+   * Articles matching the config, newest first, yielded as they are read
+   */
+  queryTrainingData(config: TrainingConfig): AsyncIterable<TrainingExample>;
+  /**
+   * Rows the last query could not read
+   */
+  getQuarantinedRows(): QuarantinedRow[];
+  /**
+   * Where the last query read from
+   */
+  getLineage(): DataSourceLineage;
+}
+
+/**
+ * General text generation, used for the student and judge models during
+ * evaluation
+ */
+export interface TextModelClient {
+  generate(prompt: string, system?: string): Promise<string>;
+}
+
+/**
+ * Teacher model used to generate distillation completions
+ */
+export interface TeacherModelClient {
+  generate(prompt: string, example: TrainingExample): Promise<string>;
+}
+
+export interface PutObjectOptions {
+  contentType?: string;
+  metadata?: Record<string, string>;
+}
+
+/**
+ * Key/value storage for datasets and other run artifacts (S3 or a local directory)
+ */
+export interface ObjectStore {
+  putObject(
+    key: string,
+    body: string,
+    options?: PutObjectOptions
+  ): Promise<void>;
+  /**
+   * Returns undefined when the object does not exist
+   */
+  getObject(key: string): Promise<string | undefined>;
+  /**
+   * The object's text in chunks, for objects too large to hold in memory.
+   * Fails when the object does not exist.
+   */
+  streamObject(key: string): AsyncIterable<string>;
+  /**
+   * Keys starting with the prefix, in lexical order
+   */
+  listKeys(prefix: string): Promise<string[]>;
+  getUri(key: string): string;
+  /**
+   * Inverse of getUri
+   */
+  getKey(uri: string): string;
+}
+
+/**
+ * Starts and monitors model customization jobs
+ */
+export interface ModelCustomizationService {
+  createModelCustomizationJob(
+    config: TrainingConfig,
+    result: ProcessingResult,
+    bedrockConfig: BedrockTrainingJobConfig
+  ): Promise<string>;
+  getJobStatus(jobArn: string): Promise<string>;
+}
+
+/**
+ * Provisioned Throughput serving a custom model
+ */
+export interface ProvisionedThroughput {
+  provisionedModelName: string;
+  provisionedModelArn: string;
+  /**
+   * Model being served, or being switched to while the status is "Updating"
+   */
+  modelArn: string;
+  /**
+   * Bedrock status: "Creating", "InService", "Updating" or "Failed"
+   */
+  status: string;
+}
+
+/**
+ * Throughput is created without a commitment term, billed hourly and can be
+ * deleted at any time
+ */
+export interface ProvisionedThroughputOptions {
+  modelUnits: number;
+}
+
+export interface CustomModelSummary {
+  modelArn: string;
+  modelName: string;
+  creationTime: string;
+}
+
+/**
+ * Provisions, lists and deletes custom models and their Provisioned
+ * Throughput
+ */
+export interface ModelLifecycleService {
+  /**
+   * Returns undefined when no throughput has the name
+   */
+  getProvisionedThroughput(
+    name: string
+  ): Promise<ProvisionedThroughput | undefined>;
+  createProvisionedThroughput(
+    name: string,
+    modelArn: string,
+    options: ProvisionedThroughputOptions
+  ): Promise<ProvisionedThroughput>;
+  listProvisionedThroughputs(
+    modelArn: string
+  ): Promise<ProvisionedThroughput[]>;
+  deleteProvisionedThroughput(provisionedModelArn: string): Promise<void>;
+  /**
+   * Custom models whose name starts with the prefix, newest first
+   */
+  listCustomModels(namePrefix: string): Promise<CustomModelSummary[]>;
+  deleteCustomModel(modelArn: string): Promise<void>;
+}
+
+/**
+ * Stable pointer consumers read to find the model to invoke for a task,
+ * publication and stage
+ */
+export interface ModelAlias {
+  taskName: string;
+  publicationId: string;
+  stage: string;
+  /**
+   * Model ID to invoke: the Provisioned Throughput ARN, or the custom model
+   * ARN when it is not provisioned
+   */
+  invokeModelId: string;
+  modelArn: string;
+  provisionedModelArn?: string;
+  jobArn: string;
+  datasetVersion: string;
+  trainingRunId: string;
+  updatedAt: string;
+  /**
+   * What the alias pointed at before, to roll back to
+   */
+  previous?: {
+    invokeModelId: string;
+    modelArn: string;
+    trainingRunId: string;
+  };
+}
+
+export interface BatchInferenceJobRequest {
+  jobName: string;
+  modelId: string;
+  inputS3Uri: string;
+  /**
+   * Prefix Bedrock writes `<jobId>/<input file>.out` under
+   */
+  outputS3Uri: string;
+}
+
+export interface BatchInferenceJobStatus {
+  /**
+   * Bedrock status, e.g. "InProgress", "Completed" or "PartiallyCompleted"
+   */
+  status: string;
+  message?: string;
+}
+
+/**
+ * Starts and monitors Bedrock batch inference jobs
+ */
+export interface BatchInferenceService {
+  /**
+   * Fewest records a job accepts
+   */
+  readonly minRecords: number;
+  submitJob(request: BatchInferenceJobRequest): Promise<string>;
+  getJobStatus(jobArn: string): Promise<BatchInferenceJobStatus>;
+}
+
+export type EvaluationCandidate = "student" | "teacher" | "human";
+
+/**
+ * Headline scores averaged over examples. ROUGE and BLEU are measured
+ * against the human-written title, so they are not reported for "human".
+ */
+export interface HeadlineScores {
+  rouge1?: number;
+  rougeL?: number;
+  bleu?: number;
+  lengthInRange: number;
+  keywordOverlap: number;
+  judgeScore?: number;
+}
+
+export interface EvaluatedExample {
+  articleId: string;
+  publication: string;
+  headlines: Record<EvaluationCandidate, string>;
+  /**
+   * No student scores when the student call failed
+   */
+  scores: Record<Exclude<EvaluationCandidate, "student">, HeadlineScores> & {
+    student?: HeadlineScores;
+  };
+  studentError?: string;
+}
+
+export interface EvaluationSummary {
+  exampleCount: number;
+  /**
+   * Examples whose student call failed, left out of the student scores
+   */
+  studentErrors: number;
+  scores: Record<EvaluationCandidate, HeadlineScores>;
+  /**
+   * How closely the student reproduces the teacher it was distilled from
+   */
+  studentVsTeacher: { rouge1: number; rougeL: number; bleu: number };
+}
+
+export interface EvaluationReport {
+  taskName: string;
+  datasetVersion: string;
+  manifestUri: string;
+  studentModelId: string;
+  teacherModelId: string;
+  judgeModelId?: string;
+  createdAt: string;
+  studentErrors: number;
+  overall: EvaluationSummary;
+  byPublication: Record<string, EvaluationSummary>;
+  examples: EvaluatedExample[];
+}
+
+export type GateMetric = keyof HeadlineScores;
+
+export interface MetricDelta {
+  /**
+   * "overall" or a publication ID
+   */
+  scope: string;
+  metric: GateMetric;
+  baseline: number;
+  current: number;
+  delta: number;
+  maxRegression: number;
+  passed: boolean;
+}
+
+/**
+ * `training` once the Bedrock job is submitted, then `succeeded` or
+ * `rejected` by the quality gate, or `failed` at any step
+ */
+export type RunStatus = "training" | "succeeded" | "rejected" | "failed";
+
+export type ModelLifecycleStepName =
+  | "provision-throughput"
+  | "release-throughput"
+  | "update-alias"
+  | "cleanup";
+
+/**
+ * A lifecycle step applied to a run's model after it was promoted
+ */
+export interface ModelLifecycleStep {
+  step: ModelLifecycleStepName;
+  completedAt: string;
+  summary: string;
+}
+
+/**
+ * A training run as kept in the run registry
+ */
+export interface RunRecord {
+  trainingRunId: string;
+  status: RunStatus;
+  taskName: string;
+  publicationId: string;
+  startedAt: string;
+  completedAt: string;
+  /**
+   * Step Functions execution that ran the pipeline, and the input it was
+   * started with, which a rerun starts a new execution with
+   */
+  executionArn?: string;
+  executionInput?: string;
+  datasetVersion?: string;
+  manifestUri?: string;
+  bedrockJobArn?: string;
+  promptCount?: number;
+  splitCounts?: Record<DatasetSplitName, number>;
+  stageCounts?: Record<string, number>;
+  error?: string;
+  /**
+   * Custom model trained by the run, once training completes
+   */
+  modelArn?: string;
+  evaluationReportUri?: string;
+  qualityGate?: {
+    passed: boolean;
+    regressions: number;
+    failures: string[];
+  };
+  provisionedModelArn?: string;
+  aliasUri?: string;
+  lifecycle?: ModelLifecycleStep[];
+}
+
+/**
+ * Pointer to the current production model and the scores it was promoted
+ * with, used as the baseline for the next run
+ */
+export interface PromotionRecord {
+  modelArn: string;
+  jobArn: string;
+  datasetVersion: string;
+  reportUri: string;
+  promotedAt: string;
+  overall: HeadlineScores;
+  byPublication: Record<string, HeadlineScores>;
+}
+
+export interface QualityGateResult {
+  passed: boolean;
+  hasBaseline: boolean;
+  /**
+   * Null without a baseline, so the alert can always read it
+   */
+  baselineModelArn: string | null;
+  deltas: MetricDelta[];
+  regressions: MetricDelta[];
+  /**
+   * Checks that fail without a baseline too, e.g. no test examples
+   */
+  failures: string[];
+  /**
+   * Where the promotion record is written if the model is promoted
+   */
+  promotedKey: string;
+  promotionRecord: PromotionRecord;
+}
+
+export interface EvaluationTaskOutput {
+  reportS3Uri: string;
+  markdownS3Uri: string;
+  exampleCount: number;
+  scores: Record<EvaluationCandidate, HeadlineScores>;
+  qualityGate: QualityGateResult;
+}
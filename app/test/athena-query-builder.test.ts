@@ -0,0 +1,179 @@
+import {
+  buildTrainingDataQuery,
+  DEFAULT_SCHEMA_MAPPING,
+  lookBackStartDate,
+  TrainingDataQueryOptions,
+} from "../src/athena-query-builder";
+import { QueryConfigError } from "../src/errors";
+import { TrainingDataFilters } from "../src/types";
+
+const NO_FILTERS: TrainingDataFilters = {
+  publicationIds: [],
+  sections: [],
+  authors: [],
+  contentTypes: [],
+  excludeArticleIds: [],
+};
+
+function options(
+  overrides: Partial<TrainingDataQueryOptions> = {}
+): TrainingDataQueryOptions {
+  return {
+    database: "news",
+    table: "articles",
+    schema: DEFAULT_SCHEMA_MAPPING,
+    filters: NO_FILTERS,
+    ...overrides,
+  };
+}
+
+describe("buildTrainingDataQuery", () => {
+  test("selects the mapped columns, newest first, without parameters", () => {
+    const query = buildTrainingDataQuery(options());
+
+    expect(query.sql).toBe(
+      [
+        'SELECT "article_id", "title", "content", "publication_id", "published_date", "metadata"',
+        'FROM "news"."articles"',
+        `WHERE "content" IS NOT NULL
+  AND "title" IS NOT NULL
+  AND "content" <> ''
+  AND "title" <> ''`,
+        'ORDER BY "published_date" DESC',
+      ].join("\n")
+    );
+    expect(query.parameters).toEqual([]);
+    expect(query.columns.map((column) => column.field)).toEqual([
+      "articleId",
+      "title",
+      "content",
+      "publication",
+      "publishedDate",
+      "metadata",
+    ]);
+  });
+
+  test("passes every filter value as a parameter, in placeholder order", () => {
+    const query = buildTrainingDataQuery(
+      options({
+        filters: {
+          publicationIds: ["pub-1", "pub-2"],
+          sections: ["news"],
+          authors: [],
+          contentTypes: ["article"],
+          excludeArticleIds: ["a-1"],
+          startDate: "2024-01-01",
+          endDate: "2024-01-31",
+        },
+      })
+    );
+
+    expect(query.sql).toContain(
+      `"published_date" >= CAST(? AS DATE)\n  AND "published_date" < date_add('day', 1, CAST(? AS DATE))`
+    );
+    expect(query.sql).toContain('"publication_id" IN (?, ?)');
+    expect(query.sql).toContain('"section" IN (?)');
+    expect(query.sql).not.toContain('"author" IN');
+    expect(query.sql).toContain('"content_type" IN (?)');
+    expect(query.sql).toContain('"article_id" NOT IN (?)');
+    expect(query.parameters).toEqual([
+      "'2024-01-01'",
+      "'2024-01-31'",
+      "'pub-1'",
+      "'pub-2'",
+      "'news'",
+      "'article'",
+      "'a-1'",
+    ]);
+    expect(query.sql.split("?").length - 1).toBe(query.parameters.length);
+  });
+
+  test("quotes parameter values and never puts them in the SQL", () => {
+    const injection = "x') OR 1=1 --";
+    const query = buildTrainingDataQuery(
+      options({ filters: { ...NO_FILTERS, sections: [injection, "it's"] } })
+    );
+
+    expect(query.sql).not.toContain("OR 1=1");
+    expect(query.parameters).toEqual(["'x'') OR 1=1 --'", "'it''s'"]);
+  });
+
+  test("rejects dates that are not YYYY-MM-DD", () => {
+    expect(() =>
+      buildTrainingDataQuery(
+        options({ filters: { ...NO_FILTERS, startDate: "2024-1-1" } })
+      )
+    ).toThrow(QueryConfigError);
+    expect(() =>
+      buildTrainingDataQuery(
+        options({ filters: { ...NO_FILTERS, endDate: "2024-13-45" } })
+      )
+    ).toThrow(QueryConfigError);
+  });
+
+  test.each([
+    ["database", { database: "news; DROP TABLE articles" }],
+    ["table", { table: 'articles"' }],
+    ["table starting with a digit", { table: "1articles" }],
+    [
+      "column",
+      { schema: { ...DEFAULT_SCHEMA_MAPPING, content: "content --" } },
+    ],
+    [
+      "metadata column",
+      {
+        schema: {
+          ...DEFAULT_SCHEMA_MAPPING,
+          metadataColumns: { standfirst: "stand first" },
+        },
+      },
+    ],
+  ])("rejects a %s that is not a plain identifier", (_, overrides) => {
+    expect(() => buildTrainingDataQuery(options(overrides))).toThrow(
+      QueryConfigError
+    );
+  });
+
+  test("rejects a filter column that is not a plain identifier only when filtered on", () => {
+    const schema = { ...DEFAULT_SCHEMA_MAPPING, author: "author.name" };
+
+    expect(() => buildTrainingDataQuery(options({ schema }))).not.toThrow();
+    expect(() =>
+      buildTrainingDataQuery(
+        options({ schema, filters: { ...NO_FILTERS, authors: ["Jo"] } })
+      )
+    ).toThrow(QueryConfigError);
+  });
+
+  test("selects mapped metadata columns and skips a missing JSON column", () => {
+    const query = buildTrainingDataQuery(
+      options({
+        schema: {
+          ...DEFAULT_SCHEMA_MAPPING,
+          metadata: undefined,
+          metadataColumns: { standfirst: "standfirst_text" },
+        },
+      })
+    );
+
+    expect(query.sql.split("\n")[0]).toBe(
+      'SELECT "article_id", "title", "content", "publication_id", "published_date", "standfirst_text"'
+    );
+    expect(query.columns[5]).toEqual({
+      field: "metadataKey",
+      key: "standfirst",
+      column: "standfirst_text",
+    });
+  });
+});
+
+describe("lookBackStartDate", () => {
+  test("counts back whole UTC days", () => {
+    expect(lookBackStartDate(30, new Date("2024-03-01T23:30:00Z"))).toBe(
+      "2024-01-31"
+    );
+    expect(lookBackStartDate(0, new Date("2024-03-01T00:00:00Z"))).toBe(
+      "2024-03-01"
+    );
+  });
+});
@@ -0,0 +1,110 @@
+import {
+  batchRecordId,
+  buildBatchInput,
+  joinBatchResults,
+  parseBatchOutput,
+  partitionBatchRecords,
+} from "../src/batch-distillation";
+
+describe("batchRecordId", () => {
+  test("is a stable 11-character alphanumeric ID", () => {
+    const id = batchRecordId("article-123");
+
+    expect(id).toMatch(/^[A-Za-z0-9]{11}$/);
+    expect(batchRecordId("article-123")).toBe(id);
+    expect(batchRecordId("article-124")).not.toBe(id);
+  });
+});
+
+describe("buildBatchInput", () => {
+  test("writes one record per line with the teacher request body", () => {
+    const body = buildBatchInput(
+      [
+        { recordId: "r1", prompt: "First prompt" },
+        { recordId: "r2", prompt: "Second prompt" },
+      ],
+      { maxTokens: 200, temperature: 0.5 }
+    );
+    const lines = body.split("\n").map((line) => JSON.parse(line));
+
+    expect(lines).toHaveLength(2);
+    expect(lines[0].recordId).toBe("r1");
+    expect(lines[0].modelInput).toMatchObject({
+      max_tokens: 200,
+      temperature: 0.5,
+      messages: [{ role: "user", content: "First prompt" }],
+    });
+    expect(lines[1].modelInput.messages[0].content).toBe("Second prompt");
+  });
+});
+
+describe("parseBatchOutput", () => {
+  test("reads completions and errors by record ID, skipping blank lines", () => {
+    const body = [
+      JSON.stringify({
+        recordId: "r1",
+        modelOutput: { content: [{ text: "  Storm hits coast \n" }] },
+      }),
+      "",
+      JSON.stringify({
+        recordId: "r2",
+        error: { errorCode: 400, errorMessage: "Input is too long" },
+      }),
+      JSON.stringify({ recordId: "r3", error: { errorCode: 500 } }),
+    ].join("\n");
+
+    const results = parseBatchOutput(body);
+
+    expect(results.get("r1")).toEqual({ completion: "Storm hits coast" });
+    expect(results.get("r2")).toEqual({ error: "Input is too long" });
+    expect(results.get("r3")).toEqual({ error: 500 });
+    expect(results.size).toBe(3);
+  });
+});
+
+describe("joinBatchResults", () => {
+  test("matches results to items and reports items missing from the output", () => {
+    const items = [{ id: "a" }, { id: "b" }, { id: "c" }];
+    const results = new Map([
+      ["rec-c", { completion: "Headline C" }],
+      ["rec-a", { completion: "Headline A" }],
+      ["rec-x", { completion: "Not an item" }],
+    ]);
+
+    const joined = joinBatchResults(items, (item) => `rec-${item.id}`, results);
+
+    expect(joined).toEqual([
+      { item: { id: "a" }, result: { completion: "Headline A" } },
+      {
+        item: { id: "b" },
+        result: { error: "No batch inference output for record" },
+      },
+      { item: { id: "c" }, result: { completion: "Headline C" } },
+    ]);
+  });
+});
+
+describe("partitionBatchRecords", () => {
+  const lines = (count: number) =>
+    Array.from({ length: count }, (_, i) => `{"recordId":"r${i}"}`);
+
+  it("keeps an input within the limits in one job", () => {
+    expect(partitionBatchRecords(lines(10), 10)).toEqual([lines(10)]);
+  });
+
+  it("spreads records evenly over as few jobs as the record limit allows", () => {
+    const parts = partitionBatchRecords(lines(25), 10);
+
+    expect(parts.map((part) => part.length)).toEqual([9, 9, 7]);
+    expect(parts.flat()).toEqual(lines(25));
+  });
+
+  it("splits on input size", () => {
+    const input = lines(4);
+    const lineBytes = Buffer.byteLength(input[0]) + 1;
+
+    const parts = partitionBatchRecords(input, 100, lineBytes * 2);
+
+    expect(parts.map((part) => part.length)).toEqual([2, 2]);
+  });
+});
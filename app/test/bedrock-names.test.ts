@@ -0,0 +1,86 @@
+import {
+  BEDROCK_NAME_MAX_LENGTH,
+  batchInferenceJobName,
+  customModelName,
+  customModelNamePrefix,
+  trainingJobName,
+  validateBedrockNames,
+} from "../src/bedrock-names";
+
+const LONG_RUN_ID = "b3f1c2d4-5e6f-4a7b-8c9d-0e1f2a3b4c5d-scheduled-nightly";
+
+describe("trainingJobName", () => {
+  it("keeps a name that fits", () => {
+    expect(trainingJobName("headline", "run-1", "dev")).toBe(
+      "training-headline-run-1-dev"
+    );
+  });
+
+  it("shortens a long name with a hash of the whole name", () => {
+    const name = trainingJobName("headline", LONG_RUN_ID, "prod");
+
+    expect(name.length).toBeLessThanOrEqual(BEDROCK_NAME_MAX_LENGTH);
+    expect(name).toMatch(/^training-headline-b3f1c2d4-.*-[0-9a-f]{8}$/);
+    expect(trainingJobName("headline", LONG_RUN_ID, "prod")).toBe(name);
+    expect(trainingJobName("headline", LONG_RUN_ID, "dev")).not.toBe(name);
+  });
+});
+
+describe("batchInferenceJobName", () => {
+  it("keeps long run IDs that share a start apart", () => {
+    const a = batchInferenceJobName(`${LONG_RUN_ID}-a`, 1, 1);
+    const b = batchInferenceJobName(`${LONG_RUN_ID}-b`, 1, 1);
+
+    expect(a.length).toBeLessThanOrEqual(BEDROCK_NAME_MAX_LENGTH);
+    expect(b.length).toBeLessThanOrEqual(BEDROCK_NAME_MAX_LENGTH);
+    expect(a).not.toBe(b);
+  });
+});
+
+describe("customModelName", () => {
+  it("ends the prefix with the creation time", () => {
+    expect(customModelName("headline", "pub-1", "dev", 1700000000000)).toBe(
+      "custom-model-headline-pub-1-dev-1700000000000"
+    );
+  });
+
+  it("keeps names for many publications within the limit", () => {
+    const publicationId = "daily-gazette_evening-post_weekly-review";
+    const prefix = customModelNamePrefix("summary", publicationId, "prod");
+    const name = customModelName(
+      "summary",
+      publicationId,
+      "prod",
+      1700000000000
+    );
+
+    expect(name.length).toBeLessThanOrEqual(BEDROCK_NAME_MAX_LENGTH);
+    expect(name.startsWith(prefix)).toBe(true);
+    expect(name.substring(prefix.length)).toBe("1700000000000");
+  });
+});
+
+describe("validateBedrockNames", () => {
+  it("accepts long run IDs and publication lists", () => {
+    expect(() =>
+      validateBedrockNames(
+        "headline",
+        "daily-gazette_evening-post_weekly-review",
+        LONG_RUN_ID,
+        "prod"
+      )
+    ).not.toThrow();
+  });
+
+  it("rejects characters Bedrock does not accept in job names", () => {
+    expect(() =>
+      validateBedrockNames("headline", undefined, "nightly_run", "dev")
+    ).toThrow(/Invalid Bedrock job name/);
+  });
+
+  it("rejects characters Bedrock does not accept in model names", () => {
+    expect(() =>
+      validateBedrockNames("headline", "pub.example", "run-1", "dev")
+    ).toThrow(/Invalid Bedrock custom model name/);
+  });
+});
@@ -0,0 +1,101 @@
+import { splitDataset } from "../src/dataset-splitter";
+import { PromptExample } from "../src/types";
+
+const RATIOS = { train: 0.8, validation: 0.1, test: 0.1 };
+
+function prompts(publication: string, count: number): PromptExample[] {
+  return Array.from({ length: count }, (_, i) => ({
+    prompt: `Article ${i}`,
+    completion: `Headline ${i}`,
+    metadata: { articleId: `${publication}-${i}`, publication },
+  }));
+}
+
+function countsFor(
+  splits: ReturnType<typeof splitDataset>,
+  publication: string
+): Record<string, number> {
+  return Object.fromEntries(
+    Object.entries(splits).map(([name, examples]) => [
+      name,
+      examples.filter((e) => e.metadata?.publication === publication).length,
+    ])
+  );
+}
+
+describe("splitDataset", () => {
+  it("splits every publication in about the configured proportions", () => {
+    const splits = splitDataset(
+      [...prompts("big", 1000), ...prompts("medium", 300)],
+      RATIOS
+    );
+
+    for (const [publication, size] of [
+      ["big", 1000],
+      ["medium", 300],
+    ] as const) {
+      const counts = countsFor(splits, publication);
+      expect(counts.train + counts.validation + counts.test).toBe(size);
+      expect(counts.test / size).toBeGreaterThan(0.05);
+      expect(counts.test / size).toBeLessThan(0.15);
+      expect(counts.validation / size).toBeGreaterThan(0.05);
+      expect(counts.validation / size).toBeLessThan(0.15);
+    }
+  });
+
+  it("gives small publications a validation and test example", () => {
+    const splits = splitDataset(
+      [...prompts("small", 3), ...prompts("pair", 2)],
+      RATIOS
+    );
+
+    expect(countsFor(splits, "small")).toEqual({
+      train: 1,
+      validation: 1,
+      test: 1,
+    });
+    expect(countsFor(splits, "pair")).toEqual({
+      train: 1,
+      validation: 0,
+      test: 1,
+    });
+  });
+
+  it("assigns the same splits whatever the input order", () => {
+    const input = prompts("big", 50);
+    const ids = (examples: PromptExample[]) =>
+      examples.map((e) => e.metadata?.articleId).sort();
+
+    const forward = splitDataset(input, RATIOS);
+    const reversed = splitDataset([...input].reverse(), RATIOS);
+
+    expect(ids(reversed.test)).toEqual(ids(forward.test));
+    expect(ids(reversed.validation)).toEqual(ids(forward.validation));
+  });
+
+  it("keeps every article's split as the publication grows", () => {
+    const ids = (examples: PromptExample[]) =>
+      new Set(examples.map((e) => String(e.metadata?.articleId)));
+
+    const before = splitDataset(prompts("big", 200), RATIOS);
+    const after = splitDataset(prompts("big", 260), RATIOS);
+
+    for (const name of ["train", "validation", "test"] as const) {
+      const grown = ids(after[name]);
+      for (const id of ids(before[name])) {
+        expect([id, grown.has(id)]).toEqual([id, true]);
+      }
+    }
+  });
+
+  it("leaves out splits with a zero ratio", () => {
+    const splits = splitDataset(prompts("big", 20), {
+      train: 0.9,
+      validation: 0,
+      test: 0.1,
+    });
+
+    expect(splits.validation).toHaveLength(0);
+    expect(splits.test.length).toBeGreaterThan(0);
+  });
+});
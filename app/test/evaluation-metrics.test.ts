@@ -0,0 +1,106 @@
+import {
+  bleu,
+  countWords,
+  keywordOverlap,
+  lengthInRange,
+  mean,
+  rouge1,
+  rougeL,
+  tokenize,
+} from "../src/evaluation-metrics";
+
+describe("tokenize", () => {
+  test("lowercases and keeps letters and digits of any script", () => {
+    expect(tokenize("Élan's 3 NEW Cafés!")).toEqual([
+      "élan",
+      "s",
+      "3",
+      "new",
+      "cafés",
+    ]);
+    expect(tokenize("  ")).toEqual([]);
+  });
+});
+
+describe("countWords", () => {
+  test("counts whitespace-separated words", () => {
+    expect(countWords(" Storm closes  schools across the region ")).toBe(6);
+    expect(countWords("")).toBe(0);
+  });
+});
+
+describe("rouge1", () => {
+  test("is the F1 of unigram overlap", () => {
+    expect(rouge1("the cat sat", "the cat ran")).toBeCloseTo(2 / 3);
+    expect(rouge1("Storm hits coast", "storm hits coast")).toBe(1);
+    expect(rouge1("storm", "sunshine")).toBe(0);
+  });
+
+  test("clips repeated words to their count in the reference", () => {
+    // overlap 1: precision 1/3, recall 1/1
+    expect(rouge1("the the the", "the")).toBeCloseTo(0.5);
+  });
+
+  test("is 0 for an empty candidate or reference", () => {
+    expect(rouge1("", "storm hits coast")).toBe(0);
+    expect(rouge1("storm hits coast", "")).toBe(0);
+  });
+});
+
+describe("rougeL", () => {
+  test("is the F1 of the longest common subsequence", () => {
+    // LCS "a c d"
+    expect(rougeL("a b c d", "a c d e")).toBeCloseTo(0.75);
+    expect(rougeL("hits storm coast", "storm hits coast")).toBeCloseTo(2 / 3);
+    expect(rougeL("storm", "sunshine")).toBe(0);
+  });
+});
+
+describe("bleu", () => {
+  test("is 1 for an identical candidate, including short ones", () => {
+    expect(bleu("storm hits the coast", "storm hits the coast")).toBeCloseTo(1);
+    expect(bleu("storm hits", "storm hits")).toBeCloseTo(1);
+  });
+
+  test("is 0 without unigram overlap or with an empty side", () => {
+    expect(bleu("sunny skies", "storm hits coast")).toBe(0);
+    expect(bleu("", "storm hits coast")).toBe(0);
+    expect(bleu("storm hits coast", "")).toBe(0);
+  });
+
+  test("applies the brevity penalty to short candidates", () => {
+    expect(bleu("the cat", "the cat sat on the mat")).toBeCloseTo(Math.exp(-2));
+  });
+});
+
+describe("lengthInRange", () => {
+  test("checks the headline word range, inclusive", () => {
+    expect(lengthInRange("one two three four five six seven eight")).toBe(1);
+    expect(lengthInRange("one two three four five six seven")).toBe(0);
+    expect(lengthInRange("one two three", 1, 3)).toBe(1);
+    expect(lengthInRange("one two three four", 1, 3)).toBe(0);
+  });
+});
+
+describe("keywordOverlap", () => {
+  test("is the share of non-stopword headline words found in the source", () => {
+    // "closes" is not in the source; "in" is a stopword
+    expect(
+      keywordOverlap(
+        "Storm closes schools in Leeds",
+        "A storm closed schools across Leeds on Monday."
+      )
+    ).toBeCloseTo(3 / 4);
+  });
+
+  test("is 0 for a headline of only stopwords and short words", () => {
+    expect(keywordOverlap("it is of the", "it is of the")).toBe(0);
+  });
+});
+
+describe("mean", () => {
+  test("averages values and is 0 for none", () => {
+    expect(mean([1, 2, 3, 6])).toBe(3);
+    expect(mean([])).toBe(0);
+  });
+});
@@ -0,0 +1,53 @@
+import { scoreOutput, summarizeExamples } from "../src/evaluation-report";
+import { EvaluatedExample } from "../src/types";
+
+const SOURCE = "Storm closes schools across Leeds as flooding spreads";
+
+function example(
+  articleId: string,
+  student: string,
+  studentError?: string
+): EvaluatedExample {
+  const teacher = "Storm closes Leeds schools";
+  const human = "Flooding closes schools in Leeds";
+  return {
+    articleId,
+    publication: "leeds-live",
+    headlines: { student, teacher, human },
+    scores: {
+      ...(studentError
+        ? {}
+        : { student: scoreOutput(student, SOURCE, human, undefined, 3, 12) }),
+      teacher: scoreOutput(teacher, SOURCE, human, undefined, 3, 12),
+      human: scoreOutput(human, SOURCE, undefined, undefined, 3, 12),
+    },
+    ...(studentError ? { studentError } : {}),
+  };
+}
+
+describe("summarizeExamples", () => {
+  it("leaves failed student calls out of the student scores", () => {
+    const answered = example("1", "Storm closes Leeds schools");
+    const summary = summarizeExamples([
+      answered,
+      example("2", "", "Model not ready"),
+    ]);
+
+    expect(summary.exampleCount).toBe(2);
+    expect(summary.studentErrors).toBe(1);
+    expect(summary.scores.student).toEqual(
+      summarizeExamples([answered]).scores.student
+    );
+    expect(summary.studentVsTeacher.rouge1).toBe(1);
+  });
+
+  it("still averages teacher and human scores over every example", () => {
+    const summary = summarizeExamples([
+      example("1", "Storm closes Leeds schools"),
+      example("2", "", "Model not ready"),
+    ]);
+
+    expect(summary.scores.teacher.lengthInRange).toBe(1);
+    expect(summary.scores.human.lengthInRange).toBe(1);
+  });
+});
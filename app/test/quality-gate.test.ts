@@ -0,0 +1,148 @@
+import {
+  DEFAULT_QUALITY_GATE_THRESHOLDS,
+  evaluateQualityGate,
+  parseQualityGateThresholds,
+} from "../src/quality-gate";
+import {
+  EvaluationReport,
+  EvaluationSummary,
+  HeadlineScores,
+  PromotionRecord,
+} from "../src/types";
+
+const PROMOTION = {
+  modelArn: "custom-model",
+  jobArn: "job",
+  reportUri: "report.json",
+};
+
+function summary(
+  student: HeadlineScores,
+  exampleCount = 20,
+  studentErrors = 0
+): EvaluationSummary {
+  const other = { lengthInRange: 0.9, keywordOverlap: 0.5 };
+  return {
+    exampleCount,
+    studentErrors,
+    scores: { student, teacher: other, human: other },
+    studentVsTeacher: { rouge1: 0.5, rougeL: 0.5, bleu: 0.3 },
+  };
+}
+
+function report(overall: EvaluationSummary): EvaluationReport {
+  return {
+    taskName: "headline",
+    datasetVersion: "v1",
+    manifestUri: "manifest.json",
+    studentModelId: "student",
+    teacherModelId: "teacher",
+    createdAt: "2026-01-01T00:00:00.000Z",
+    studentErrors: overall.studentErrors,
+    overall,
+    byPublication: { "pub-1": overall },
+    examples: [],
+  };
+}
+
+const GOOD = { lengthInRange: 0.9, keywordOverlap: 0.4, rougeL: 0.4 };
+
+describe("evaluateQualityGate", () => {
+  it("passes a first model that meets the minimums", () => {
+    const result = evaluateQualityGate(
+      report(summary(GOOD)),
+      undefined,
+      DEFAULT_QUALITY_GATE_THRESHOLDS,
+      PROMOTION
+    );
+
+    expect(result.passed).toBe(true);
+    expect(result.hasBaseline).toBe(false);
+    expect(result.baselineModelArn).toBeNull();
+    expect(result.failures).toEqual([]);
+    // The student is invoked through throughput; the custom model is promoted
+    expect(result.promotionRecord.modelArn).toBe("custom-model");
+  });
+
+  it("fails without test examples, even with no baseline", () => {
+    const result = evaluateQualityGate(
+      report(summary(GOOD, 0)),
+      undefined,
+      DEFAULT_QUALITY_GATE_THRESHOLDS,
+      PROMOTION
+    );
+
+    expect(result.passed).toBe(false);
+    expect(result.failures).toEqual(["No test examples were evaluated"]);
+  });
+
+  it("fails when too many student calls failed", () => {
+    const result = evaluateQualityGate(
+      report(summary(GOOD, 20, 2)),
+      undefined,
+      DEFAULT_QUALITY_GATE_THRESHOLDS,
+      PROMOTION
+    );
+
+    expect(result.passed).toBe(false);
+    expect(result.failures[0]).toMatch(/2 of 20 student calls failed/);
+  });
+
+  it("fails when a score is below its minimum", () => {
+    const result = evaluateQualityGate(
+      report(summary({ ...GOOD, lengthInRange: 0.2 })),
+      undefined,
+      DEFAULT_QUALITY_GATE_THRESHOLDS,
+      PROMOTION
+    );
+
+    expect(result.passed).toBe(false);
+    expect(result.failures).toEqual([
+      "Student lengthInRange 0.200 is below the minimum of 0.5",
+    ]);
+  });
+
+  it("fails on a regression against the baseline", () => {
+    const baseline: PromotionRecord = {
+      modelArn: "baseline-model",
+      jobArn: "baseline-job",
+      datasetVersion: "v0",
+      reportUri: "baseline.json",
+      promotedAt: "2025-12-01T00:00:00.000Z",
+      overall: { ...GOOD, rougeL: 0.5 },
+      byPublication: {},
+    };
+    const result = evaluateQualityGate(
+      report(summary(GOOD)),
+      baseline,
+      DEFAULT_QUALITY_GATE_THRESHOLDS,
+      PROMOTION
+    );
+
+    expect(result.passed).toBe(false);
+    expect(result.baselineModelArn).toBe("baseline-model");
+    expect(result.failures).toEqual([]);
+    expect(result.regressions).toHaveLength(1);
+    expect(result.regressions[0].metric).toBe("rougeL");
+  });
+});
+
+describe("parseQualityGateThresholds", () => {
+  it("layers minimums and the error rate over the defaults", () => {
+    const thresholds = parseQualityGateThresholds(
+      JSON.stringify({ minimums: { rougeL: 0.2 }, maxStudentErrorRate: 0.2 })
+    );
+
+    expect(thresholds.minimums).toEqual({
+      ...DEFAULT_QUALITY_GATE_THRESHOLDS.minimums,
+      rougeL: 0.2,
+    });
+    expect(thresholds.maxStudentErrorRate).toBe(0.2);
+  });
+
+  it("rejects an error rate outside 0 to 1", () => {
+    expect(() =>
+      parseQualityGateThresholds(JSON.stringify({ maxStudentErrorRate: 5 }))
+    ).toThrow(/maxStudentErrorRate/);
+  });
+});
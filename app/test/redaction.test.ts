@@ -0,0 +1,65 @@
+import { RedactionService } from "../src/redaction";
+import { PromptExample } from "../src/types";
+
+const CONFIG = {
+  detectors: [
+    { name: "email", mode: "mask" as const },
+    { name: "deny-list", mode: "mask" as const },
+  ],
+  metadataFlags: ["legal_hold"],
+};
+
+function promptExample(
+  articleId: string,
+  prompt: string,
+  completion: string,
+  metadata: Record<string, any> = {}
+): PromptExample {
+  return {
+    prompt,
+    completion,
+    metadata: { articleId, publication: "pub-1", ...metadata },
+  };
+}
+
+describe("RedactionService.redactPromptExamples", () => {
+  it("masks the prompt, completion and original title", () => {
+    const service = new RedactionService(CONFIG, ["John Smith"]);
+    const [redacted] = service.redactPromptExamples([
+      promptExample(
+        "a-1",
+        "Write a headline. Contact news@example.com",
+        "John Smith wins award",
+        { originalTitle: "John Smith wins", teacherModel: "teacher" }
+      ),
+    ]);
+
+    expect(redacted.prompt).toBe("Write a headline. Contact [EMAIL]");
+    expect(redacted.completion).toBe("[REDACTED] wins award");
+    expect(redacted.metadata).toEqual({
+      articleId: "a-1",
+      publication: "pub-1",
+      originalTitle: "[REDACTED] wins",
+      teacherModel: "teacher",
+    });
+    expect(service.getAuditRecords().map((record) => record.field)).toEqual([
+      "prompt",
+      "completion",
+      "metadata.originalTitle",
+    ]);
+  });
+
+  it("drops examples held back by a metadata flag", () => {
+    const service = new RedactionService(CONFIG);
+    const clean = promptExample("a-1", "Write a headline.", "Storm hits");
+
+    expect(
+      service.redactPromptExamples([
+        clean,
+        promptExample("a-2", "Write a headline.", "Court case", {
+          legal_hold: true,
+        }),
+      ])
+    ).toEqual([clean]);
+  });
+});
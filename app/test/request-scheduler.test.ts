@@ -0,0 +1,122 @@
+import {
+  RequestFailedError,
+  RequestScheduler,
+  SchedulerClock,
+} from "../src/request-scheduler";
+import {
+  StubTeacherClient,
+  ThrottlingTeacherClient,
+} from "../src/local-teacher-client";
+import { TrainingExample } from "../src/types";
+
+const EXAMPLE: TrainingExample = {
+  articleId: "a-1",
+  title: "Storm closes schools",
+  content: "A storm closed schools across Leeds on Monday. More follows.",
+  publication: "pub-1",
+  publishedDate: "2024-05-01",
+};
+
+/**
+ * Records sleeps instead of waiting, with a fixed jitter
+ */
+function fakeClock(random = 0.5): SchedulerClock & { sleeps: number[] } {
+  let now = 0;
+  const sleeps: number[] = [];
+  return {
+    sleeps,
+    now: () => now,
+    sleep: async (ms) => {
+      sleeps.push(ms);
+      now += ms;
+    },
+    random: () => random,
+  };
+}
+
+function scheduler(clock: SchedulerClock, maxAttempts = 5, concurrency = 4) {
+  return new RequestScheduler(
+    {
+      maxConcurrency: concurrency,
+      maxAttempts,
+      baseDelayMs: 1000,
+      maxDelayMs: 8000,
+    },
+    clock
+  );
+}
+
+describe("RequestScheduler", () => {
+  it("retries throttled calls with exponential backoff and jitter", async () => {
+    const clock = fakeClock();
+    const teacher = new ThrottlingTeacherClient(new StubTeacherClient());
+    teacher.throttleNext(3);
+
+    const completion = await scheduler(clock).schedule(() =>
+      teacher.generate("Write a headline", EXAMPLE)
+    );
+
+    expect(completion).toBe("A storm closed schools across Leeds on Monday");
+    // Half of the 1s, 2s and 4s ceilings
+    expect(clock.sleeps).toEqual([500, 1000, 2000]);
+  });
+
+  it("caps the backoff at the maximum delay", async () => {
+    const clock = fakeClock(1);
+    const teacher = new ThrottlingTeacherClient(new StubTeacherClient());
+    teacher.throttleNext(5);
+
+    await scheduler(clock, 6).schedule(() =>
+      teacher.generate("Write a headline", EXAMPLE)
+    );
+
+    expect(clock.sleeps).toEqual([1000, 2000, 4000, 8000, 8000]);
+  });
+
+  it("gives up after the maximum attempts", async () => {
+    const teacher = new ThrottlingTeacherClient(new StubTeacherClient());
+    teacher.throttleNext(3);
+
+    const request = scheduler(fakeClock(), 3).schedule(() =>
+      teacher.generate("Write a headline", EXAMPLE)
+    );
+
+    await expect(request).rejects.toBeInstanceOf(RequestFailedError);
+    await expect(request).rejects.toMatchObject({
+      kind: "throttled",
+      attempts: 3,
+    });
+  });
+
+  it("does not retry client errors", async () => {
+    const clock = fakeClock();
+    const request = scheduler(clock).schedule(async () => {
+      const error = new Error("Malformed input");
+      error.name = "ValidationException";
+      throw error;
+    });
+
+    await expect(request).rejects.toMatchObject({
+      kind: "client_error",
+      attempts: 1,
+    });
+    expect(clock.sleeps).toEqual([]);
+  });
+
+  it("halves concurrency when throttled and grows it back on success", async () => {
+    const teacher = new ThrottlingTeacherClient(new StubTeacherClient());
+    const requests = scheduler(fakeClock(0), 5, 4);
+    teacher.throttleNext(1);
+
+    await requests.schedule(() =>
+      teacher.generate("Write a headline", EXAMPLE)
+    );
+    // The retry's success counts towards growing back from 2
+    expect(requests.getConcurrency()).toBe(2);
+
+    await requests.schedule(() =>
+      teacher.generate("Write a headline", EXAMPLE)
+    );
+    expect(requests.getConcurrency()).toBe(3);
+  });
+});
@@ -22,6 +22,220 @@ export interface BedrockTrainingPipelineStackProps extends cdk.StackProps {
    */
   defaultLookBackDays?: number;
 
+  /**
+   * Train/validation/test split percentages
+   * @default "90/5/5"
+   */
+  datasetSplit?: string;
+
+  /**
+   * Foundation model the custom models are fine-tuned from
+   * @default - Claude 3 Haiku in the stack's region
+   */
+  baseModelArn?: string;
+
+  /**
+   * JSONL format of the training dataset: "claude", "nova", "llama",
+   * "titan" or "cohere"
+   * @default - derived from baseModelArn
+   */
+  datasetFormat?: string;
+
+  /**
+   * What to do with articles the teacher fails on: "drop",
+   * "keep-as-human" (train on the original title) or "fail-run"
+   * @default "drop"
+   */
+  teacherFailurePolicy?: string;
+
+  /**
+   * Share of articles the teacher may fail on before the run is aborted
+   * @default 0.1
+   */
+  maxTeacherFailureRate?: number;
+
+  /**
+   * Number of articles from which distillation uses a Bedrock batch
+   * inference job instead of on-demand calls
+   * @default 1000
+   */
+  batchDistillationThreshold?: number;
+
+  /**
+   * How article text is cut to fit prompts: "lead" keeps the opening,
+   * "lead-plus-key" the opening plus the paragraphs most relevant to the
+   * title
+   * @default "lead"
+   */
+  contentTruncationStrategy?: string;
+
+  /**
+   * Token budgets for the article text in teacher and student prompts
+   * @default - the task's defaults in app/src/task-definitions.ts
+   */
+  contentTokens?: { teacher?: number; student?: number };
+
+  /**
+   * What happens to teacher completions with names, figures or quotes not
+   * found in the article: "off", "flag" or "drop"
+   * @default "drop"
+   */
+  factCheckPolicy?: string;
+
+  /**
+   * Ask the teacher to judge completions whose only unsupported claims are
+   * names
+   * @default false
+   */
+  factCheckJudge?: boolean;
+
+  /**
+   * Cleaning rules to run, in order
+   * @default - all rules in app/src/cleaning-rules.ts
+   */
+  cleaningRules?: string[];
+
+  /**
+   * ISO 639-1 codes of the languages articles may be written in
+   * @default ["en"]
+   */
+  cleaningLanguages?: string[];
+
+  /**
+   * Estimated Jaccard similarity of article text above which two articles
+   * count as near-duplicates
+   * @default 0.8
+   */
+  nearDuplicateThreshold?: number;
+
+  /**
+   * Which copy of a near-duplicate group is kept: "earliest-published" or
+   * "canonical-publication"
+   * @default "earliest-published"
+   */
+  nearDuplicateSurvivor?: string;
+
+  /**
+   * Publications preferred as the surviving copy, most preferred first
+   */
+  canonicalPublications?: string[];
+
+  /**
+   * Athena column names overriding the defaults, by TrainingExample field
+   * or filter (`section`, `author`, `contentType`); `metadata.<key>` entries
+   * copy a column into metadata, e.g. `{ articleId: "id",
+   * "metadata.standfirst": "standfirst" }`
+   * @default - the columns in app/src/athena-query-builder.ts
+   */
+  athenaSchemaMapping?: Record<string, string>;
+
+  /**
+   * Sampling of cleaned articles before distillation: a cap per
+   * publication, a `maxExamples` limit shared out by publication quotas
+   * (e.g. `{ "pub-1": 0.5 }`), equally between the values of a metadata key
+   * (`stratifyBy`, e.g. "section") and over `day`, `week` or `month`
+   * buckets (`timeBucket`), and the seed for the random order. Quotas,
+   * `stratifyBy` and `timeBucket` only share out `maxExamples`, so they
+   * require it.
+   * @default - every cleaned article is kept
+   */
+  sampling?: {
+    maxExamples?: number;
+    maxPerPublication?: number;
+    publicationQuotas?: Record<string, number>;
+    stratifyBy?: string;
+    timeBucket?: string;
+    seed?: string;
+  };
+
+  /**
+   * Limits on incremental datasets (runs started with `datasetMode:
+   * "incremental"`): maximum age in days from the newest article, maximum
+   * number of examples, and whether the `newest` examples or a
+   * `recency-weighted` sample with the given half-life is kept
+   * @default - no limits, newest first, 90-day half-life
+   */
+  datasetRetention?: {
+    maxAgeDays?: number;
+    maxExamples?: number;
+    sampling?: string;
+    halfLifeDays?: number;
+  };
+
+  /**
+   * Git commit the container is built from, recorded in every dataset
+   * manifest
+   * @default - the GIT_SHA environment variable at synth time, if set
+   */
+  gitSha?: string;
+
+  /**
+   * `s3://` prefix holding prompt templates and style guides, so prompt
+   * wording can change without rebuilding the container
+   * @default - templates bundled in app/prompts
+   */
+  promptTemplatesUri?: string;
+
+  /**
+   * `s3://bucket/key` of a deny-list of terms to redact, one per line, e.g.
+   * names a court has ordered anonymised
+   * @default - no deny-list
+   */
+  denyListUri?: string;
+
+  /**
+   * Redaction detectors to run, each optionally suffixed with `:mask` or
+   * `:exclude`, e.g. `["email", "phone:exclude", "deny-list"]`
+   * @default - all detectors in app/src/redaction.ts
+   */
+  redactionDetectors?: string[];
+
+  /**
+   * Whether detectors without a mode mask matches or exclude the article
+   * @default "mask"
+   */
+  redactionMode?: string;
+
+  /**
+   * Bedrock model used as an LLM judge when evaluating the custom model
+   * @default - no judge scores
+   */
+  judgeModelId?: string;
+
+  /**
+   * Largest allowed drop per evaluation metric versus the production model,
+   * with optional per-publication overrides, e.g.
+   * `{ default: { rougeL: 0.02 }, publications: { "pub-1": { rougeL: 0.05 } } }`.
+   * `minimums` (lowest overall student score per metric) and
+   * `maxStudentErrorRate` (share of test examples the student may fail to
+   * answer) also apply to the first model, which has no baseline.
+   * @default - thresholds defined in app/src/quality-gate.ts
+   */
+  qualityGateThresholds?: {
+    default?: Record<string, number>;
+    publications?: Record<string, Record<string, number>>;
+    minimums?: Record<string, number>;
+    maxStudentErrorRate?: number;
+  };
+
+  /**
+   * Provisioned Throughput created for each trained model, which a custom
+   * model needs before it can be invoked. The evaluation runs through it and
+   * the alias points at it once the model is promoted. It has no commitment
+   * term, so it can be deleted when the model is replaced.
+   * @default { modelUnits: 1 }
+   */
+  provisionedThroughput?: {
+    modelUnits: number;
+  };
+
+  /**
+   * Newest custom models kept per task, publication and stage. Models the
+   * alias and promotion record point at are kept on top of these.
+   * @default 3
+   */
+  modelRetentionCount?: number;
+
   /**
    * SNS topic email for alerts
    */
@@ -43,6 +257,30 @@ export class BedrockTrainingPipelineStack extends cdk.Stack {
 
     const minPromptCount = props.minPromptCount ?? 100;
     const defaultLookBackDays = props.defaultLookBackDays ?? 30;
+    const datasetSplit = props.datasetSplit ?? "90/5/5";
+    const baseModelArn =
+      props.baseModelArn ??
+      `arn:aws:bedrock:${this.region}::foundation-model/anthropic.claude-3-haiku-20240307-v1:0:200k`;
+    const teacherFailurePolicy = props.teacherFailurePolicy ?? "drop";
+    const maxTeacherFailureRate = props.maxTeacherFailureRate ?? 0.1;
+    const batchDistillationThreshold = props.batchDistillationThreshold ?? 1000;
+    const gitSha = props.gitSha ?? process.env.GIT_SHA;
+    const modelRetentionCount = props.modelRetentionCount ?? 3;
+    const provisionedThroughput = props.provisionedThroughput ?? {
+      modelUnits: 1,
+    };
+
+    // Fail the deploy rather than every run (see app/src/config.ts)
+    const sampling = props.sampling;
+    if (
+      sampling &&
+      !sampling.maxExamples &&
+      (sampling.publicationQuotas || sampling.stratifyBy || sampling.timeBucket)
+    ) {
+      throw new Error(
+        "sampling.publicationQuotas, stratifyBy and timeBucket require sampling.maxExamples"
+      );
+    }
 
     // S3 bucket for storing training datasets
     const trainingDataBucket = new s3.Bucket(this, "TrainingDataBucket", {
@@ -56,6 +294,12 @@ export class BedrockTrainingPipelineStack extends cdk.Stack {
           enabled: true,
           noncurrentVersionExpiration: cdk.Duration.days(90),
         },
+        {
+          id: "ExpireDistillationCheckpoints",
+          enabled: true,
+          prefix: "checkpoints/",
+          expiration: cdk.Duration.days(30),
+        },
       ],
     });
 
@@ -93,7 +337,6 @@ export class BedrockTrainingPipelineStack extends cdk.Stack {
         actions: [
           "athena:StartQueryExecution",
           "athena:GetQueryExecution",
-          "athena:GetQueryResults",
           "athena:StopQueryExecution",
           "athena:GetWorkGroup",
         ],
@@ -104,6 +347,35 @@ export class BedrockTrainingPipelineStack extends cdk.Stack {
     // Grant permissions to read/write S3
     trainingDataBucket.grantReadWrite(taskRole);
 
+    if (props.promptTemplatesUri) {
+      const [, bucketName, prefix = ""] =
+        props.promptTemplatesUri.match(/^s3:\/\/([^/]+)\/?(.*)$/) || [];
+      if (!bucketName) {
+        throw new Error(
+          `promptTemplatesUri must be an s3:// URI, got ${props.promptTemplatesUri}`
+        );
+      }
+      s3.Bucket.fromBucketName(
+        this,
+        "PromptTemplatesBucket",
+        bucketName
+      ).grantRead(taskRole, `${prefix}*`);
+    }
+
+    if (props.denyListUri) {
+      const [, bucketName, key] =
+        props.denyListUri.match(/^s3:\/\/([^/]+)\/(.+)$/) || [];
+      if (!bucketName) {
+        throw new Error(
+          `denyListUri must be an s3:// URI, got ${props.denyListUri}`
+        );
+      }
+      s3.Bucket.fromBucketName(this, "DenyListBucket", bucketName).grantRead(
+        taskRole,
+        key
+      );
+    }
+
     // Grant permissions to access Bedrock
     taskRole.addToPolicy(
       new iam.PolicyStatement({
@@ -115,11 +387,37 @@ export class BedrockTrainingPipelineStack extends cdk.Stack {
           "bedrock:StopModelCustomizationJob",
           "bedrock:GetFoundationModel",
           "bedrock:ListFoundationModels",
+          "bedrock:InvokeModel",
+          "bedrock:CreateModelInvocationJob",
+          "bedrock:GetModelInvocationJob",
+          "bedrock:StopModelInvocationJob",
+          "bedrock:CreateProvisionedModelThroughput",
+          "bedrock:GetProvisionedModelThroughput",
+          "bedrock:UpdateProvisionedModelThroughput",
+          "bedrock:ListProvisionedModelThroughputs",
+          "bedrock:DeleteProvisionedModelThroughput",
+          "bedrock:ListCustomModels",
+          "bedrock:DeleteCustomModel",
         ],
         resources: ["*"],
       })
     );
 
+    // Service role Bedrock assumes to read batch distillation input and
+    // write its output
+    const batchInferenceRole = new iam.Role(this, "BatchInferenceRole", {
+      assumedBy: new iam.ServicePrincipal("bedrock.amazonaws.com"),
+    });
+    trainingDataBucket.grantReadWrite(batchInferenceRole, "batch-inference/*");
+    batchInferenceRole.addToPolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ["bedrock:InvokeModel"],
+        resources: ["*"],
+      })
+    );
+    batchInferenceRole.grantPassRole(taskRole);
+
     // Grant permissions to publish to SNS for alerts
     alertTopic.grantPublish(taskRole);
 
@@ -166,7 +464,10 @@ export class BedrockTrainingPipelineStack extends cdk.Stack {
 
     // Container definition
     const container = taskDefinition.addContainer("TrainingContainer", {
-      image: ecs.ContainerImage.fromAsset("./app"),
+      image: ecs.ContainerImage.fromAsset(
+        "./app",
+        gitSha ? { buildArgs: { GIT_SHA: gitSha } } : {}
+      ),
       logging: ecs.LogDrivers.awsLogs({
         streamPrefix: "training-pipeline",
         logGroup,
@@ -175,11 +476,105 @@ export class BedrockTrainingPipelineStack extends cdk.Stack {
         TRAINING_DATA_BUCKET: trainingDataBucket.bucketName,
         MIN_PROMPT_COUNT: minPromptCount.toString(),
         DEFAULT_LOOK_BACK_DAYS: defaultLookBackDays.toString(),
+        DATASET_SPLIT: datasetSplit,
+        BEDROCK_BASE_MODEL_ARN: baseModelArn,
+        ...(props.datasetFormat ? { DATASET_FORMAT: props.datasetFormat } : {}),
+        TEACHER_FAILURE_POLICY: teacherFailurePolicy,
+        BATCH_DISTILLATION_THRESHOLD: batchDistillationThreshold.toString(),
+        BEDROCK_BATCH_ROLE_ARN: batchInferenceRole.roleArn,
+        MAX_TEACHER_FAILURE_RATE: maxTeacherFailureRate.toString(),
         AWS_REGION: this.region,
         ATHENA_DATABASE: "default",
         ATHENA_TABLE: "articles",
         ATHENA_WORKGROUP: "primary",
         STAGE: props.stage,
+        ...(props.athenaSchemaMapping
+          ? { ATHENA_SCHEMA_MAPPING: JSON.stringify(props.athenaSchemaMapping) }
+          : {}),
+        ...(props.sampling?.maxExamples
+          ? { SAMPLING_MAX_EXAMPLES: props.sampling.maxExamples.toString() }
+          : {}),
+        ...(props.sampling?.maxPerPublication
+          ? {
+              SAMPLING_MAX_PER_PUBLICATION:
+                props.sampling.maxPerPublication.toString(),
+            }
+          : {}),
+        ...(props.sampling?.publicationQuotas
+          ? {
+              SAMPLING_PUBLICATION_QUOTAS: Object.entries(
+                props.sampling.publicationQuotas
+              )
+                .map(([publication, share]) => `${publication}:${share}`)
+                .join(","),
+            }
+          : {}),
+        ...(props.sampling?.stratifyBy
+          ? { SAMPLING_STRATIFY_BY: props.sampling.stratifyBy }
+          : {}),
+        ...(props.sampling?.timeBucket
+          ? { SAMPLING_TIME_BUCKET: props.sampling.timeBucket }
+          : {}),
+        ...(props.sampling?.seed ? { SAMPLING_SEED: props.sampling.seed } : {}),
+        ...(props.datasetRetention?.maxAgeDays
+          ? {
+              RETENTION_MAX_AGE_DAYS:
+                props.datasetRetention.maxAgeDays.toString(),
+            }
+          : {}),
+        ...(props.datasetRetention?.maxExamples
+          ? {
+              RETENTION_MAX_EXAMPLES:
+                props.datasetRetention.maxExamples.toString(),
+            }
+          : {}),
+        ...(props.datasetRetention?.sampling
+          ? { RETENTION_SAMPLING: props.datasetRetention.sampling }
+          : {}),
+        ...(props.datasetRetention?.halfLifeDays
+          ? {
+              RETENTION_HALF_LIFE_DAYS:
+                props.datasetRetention.halfLifeDays.toString(),
+            }
+          : {}),
+        ...(props.promptTemplatesUri
+          ? { PROMPT_TEMPLATES_URI: props.promptTemplatesUri }
+          : {}),
+        ...(props.denyListUri ? { DENY_LIST_URI: props.denyListUri } : {}),
+        ...(props.redactionDetectors
+          ? { REDACTION_DETECTORS: props.redactionDetectors.join(",") }
+          : {}),
+        ...(props.redactionMode ? { REDACTION_MODE: props.redactionMode } : {}),
+        ...(props.contentTruncationStrategy
+          ? { CONTENT_TRUNCATION_STRATEGY: props.contentTruncationStrategy }
+          : {}),
+        ...(props.contentTokens?.teacher
+          ? { TEACHER_CONTENT_TOKENS: props.contentTokens.teacher.toString() }
+          : {}),
+        ...(props.contentTokens?.student
+          ? { STUDENT_CONTENT_TOKENS: props.contentTokens.student.toString() }
+          : {}),
+        ...(props.factCheckPolicy
+          ? { FACT_CHECK_POLICY: props.factCheckPolicy }
+          : {}),
+        ...(props.factCheckJudge ? { FACT_CHECK_JUDGE: "true" } : {}),
+        ...(props.cleaningRules
+          ? { CLEANING_RULES: props.cleaningRules.join(",") }
+          : {}),
+        ...(props.cleaningLanguages
+          ? { CLEANING_LANGUAGES: props.cleaningLanguages.join(",") }
+          : {}),
+        ...(props.nearDuplicateThreshold
+          ? {
+              NEAR_DUPLICATE_THRESHOLD: props.nearDuplicateThreshold.toString(),
+            }
+          : {}),
+        ...(props.nearDuplicateSurvivor
+          ? { NEAR_DUPLICATE_SURVIVOR: props.nearDuplicateSurvivor }
+          : {}),
+        ...(props.canonicalPublications
+          ? { CANONICAL_PUBLICATIONS: props.canonicalPublications.join(",") }
+          : {}),
       },
     });
 
@@ -190,7 +585,13 @@ export class BedrockTrainingPipelineStack extends cdk.Stack {
       alertTopic,
       minPromptCount,
       trainingDataBucket,
-      props.stage
+      props.stage,
+      modelRetentionCount,
+      provisionedThroughput,
+      props.judgeModelId,
+      props.qualityGateThresholds
+        ? JSON.stringify(props.qualityGateThresholds)
+        : undefined
     );
 
     // Outputs
@@ -216,7 +617,13 @@ export class BedrockTrainingPipelineStack extends cdk.Stack {
     alertTopic: sns.ITopic,
     minPromptCount: number,
     trainingDataBucket: s3.IBucket,
-    stage: string
+    stage: string,
+    modelRetentionCount: number,
+    provisionedThroughput: NonNullable<
+      BedrockTrainingPipelineStackProps["provisionedThroughput"]
+    >,
+    judgeModelId?: string,
+    qualityGateThresholds?: string
   ): stepfunctions.StateMachine {
     // Task to run ECS task
     const runTrainingTask = new tasks.EcsRunTask(this, "RunTrainingTask", {
@@ -226,11 +633,23 @@ export class BedrockTrainingPipelineStack extends cdk.Stack {
         platformVersion: ecs.FargatePlatformVersion.LATEST,
       }),
       assignPublicIp: true,
-      integrationPattern: stepfunctions.IntegrationPattern.RUN_JOB,
+      // The task reports its result (job ARN, dataset location, counts)
+      // back to Step Functions with SendTaskSuccess
+      integrationPattern: stepfunctions.IntegrationPattern.WAIT_FOR_TASK_TOKEN,
+      // Batch distillation waits for a Bedrock batch inference job, which
+      // can take several hours on large runs
+      taskTimeout: stepfunctions.Timeout.duration(cdk.Duration.hours(12)),
+      // The task sends a heartbeat every minute; a crashed task is detected
+      // quickly and retried
+      heartbeatTimeout: stepfunctions.Timeout.duration(cdk.Duration.minutes(5)),
       containerOverrides: [
         {
           containerDefinition: taskDefinition.defaultContainer!,
           environment: [
+            {
+              name: "TASK_TOKEN",
+              value: stepfunctions.JsonPath.taskToken,
+            },
             {
               name: "LOOK_BACK_DAYS",
               value: stepfunctions.JsonPath.format(
@@ -245,10 +664,52 @@ export class BedrockTrainingPipelineStack extends cdk.Stack {
                 stepfunctions.JsonPath.stringAt("$.publicationId")
               ),
             },
+            {
+              name: "START_DATE",
+              value: stepfunctions.JsonPath.stringAt("$.startDate"),
+            },
+            {
+              name: "END_DATE",
+              value: stepfunctions.JsonPath.stringAt("$.endDate"),
+            },
+            {
+              name: "SECTIONS",
+              value: stepfunctions.JsonPath.stringAt("$.sections"),
+            },
+            {
+              name: "AUTHORS",
+              value: stepfunctions.JsonPath.stringAt("$.authors"),
+            },
+            {
+              name: "CONTENT_TYPES",
+              value: stepfunctions.JsonPath.stringAt("$.contentTypes"),
+            },
+            {
+              name: "EXCLUDE_ARTICLE_IDS",
+              value: stepfunctions.JsonPath.stringAt("$.excludeArticleIds"),
+            },
+            {
+              name: "TASK_NAME",
+              value: stepfunctions.JsonPath.stringAt("$.task"),
+            },
+            {
+              name: "DATASET_MODE",
+              value: stepfunctions.JsonPath.stringAt("$.datasetMode"),
+            },
             {
               name: "TRAINING_RUN_ID",
               value: stepfunctions.JsonPath.stringAt("$$.Execution.Name"),
             },
+            {
+              name: "EXECUTION_ARN",
+              value: stepfunctions.JsonPath.stringAt("$$.Execution.Id"),
+            },
+            {
+              name: "EXECUTION_INPUT",
+              value: stepfunctions.JsonPath.jsonToString(
+                stepfunctions.JsonPath.objectAt("$$.Execution.Input")
+              ),
+            },
             {
               name: "ATHENA_OUTPUT_LOCATION",
               value: `s3://${trainingDataBucket.bucketName}/athena-results/`,
@@ -285,15 +746,61 @@ export class BedrockTrainingPipelineStack extends cdk.Stack {
         action: "getModelCustomizationJob",
         parameters: {
           JobIdentifier: stepfunctions.JsonPath.stringAt(
-            "$.taskExecution.BedrockJobArn"
-          ), // Corrected key
+            "$.taskExecution.bedrockJobArn"
+          ),
         },
         iamResources: ["*"], // Allow Bedrock access (can be scoped further)
         resultPath: "$.trainingStatus",
       }
     );
 
-    // Step 3: Handle training completion or failure
+    // Step 3: Handle training completion or failure. A failed job is marked
+    // failed in the run registry before the alert.
+    const recordTrainingFailure = new tasks.EcsRunTask(
+      this,
+      "RecordTrainingFailure",
+      {
+        cluster,
+        taskDefinition,
+        launchTarget: new tasks.EcsFargateLaunchTarget({
+          platformVersion: ecs.FargatePlatformVersion.LATEST,
+        }),
+        assignPublicIp: true,
+        integrationPattern: stepfunctions.IntegrationPattern.RUN_JOB,
+        taskTimeout: stepfunctions.Timeout.duration(cdk.Duration.minutes(15)),
+        containerOverrides: [
+          {
+            containerDefinition: taskDefinition.defaultContainer!,
+            command: ["node", "dist/training-failure.js"],
+            environment: [
+              {
+                name: "TASK_NAME",
+                value: stepfunctions.JsonPath.stringAt("$.task"),
+              },
+              {
+                name: "PUBLICATION_ID",
+                value: stepfunctions.JsonPath.format(
+                  "{}",
+                  stepfunctions.JsonPath.stringAt("$.publicationId")
+                ),
+              },
+              {
+                name: "TRAINING_RUN_ID",
+                value: stepfunctions.JsonPath.stringAt("$$.Execution.Name"),
+              },
+              {
+                name: "FAILURE_REASON",
+                value: stepfunctions.JsonPath.stringAt(
+                  "$.trainingStatus.failureReason"
+                ),
+              },
+            ],
+          },
+        ],
+        resultPath: stepfunctions.JsonPath.DISCARD,
+      }
+    );
+
     const notifyFailure = new tasks.SnsPublish(this, "NotifyFailure", {
       topic: alertTopic,
       message: stepfunctions.TaskInput.fromObject({
@@ -301,10 +808,451 @@ export class BedrockTrainingPipelineStack extends cdk.Stack {
         reason: stepfunctions.JsonPath.stringAt(
           "$.trainingStatus.failureReason"
         ),
+        jobArn: stepfunctions.JsonPath.stringAt(
+          "$.taskExecution.bedrockJobArn"
+        ),
+        datasetS3Uri: stepfunctions.JsonPath.stringAt(
+          "$.taskExecution.datasetS3Uri"
+        ),
+        datasetVersion: stepfunctions.JsonPath.stringAt(
+          "$.taskExecution.datasetVersion"
+        ),
       }),
       subject: "Bedrock Training Job Failure",
     });
 
+    // The alert is still sent if the failure could not be recorded
+    recordTrainingFailure.addCatch(notifyFailure, {
+      errors: [stepfunctions.Errors.ALL],
+      resultPath: "$.recordError",
+    });
+
+    // Step 4: Evaluate the custom model on the held-out test split
+    const runEvaluationTask = new tasks.EcsRunTask(this, "RunEvaluationTask", {
+      cluster,
+      taskDefinition,
+      launchTarget: new tasks.EcsFargateLaunchTarget({
+        platformVersion: ecs.FargatePlatformVersion.LATEST,
+      }),
+      assignPublicIp: true,
+      integrationPattern: stepfunctions.IntegrationPattern.WAIT_FOR_TASK_TOKEN,
+      taskTimeout: stepfunctions.Timeout.duration(cdk.Duration.hours(1)),
+      containerOverrides: [
+        {
+          containerDefinition: taskDefinition.defaultContainer!,
+          command: ["node", "dist/evaluate.js"],
+          environment: [
+            {
+              name: "TASK_TOKEN",
+              value: stepfunctions.JsonPath.taskToken,
+            },
+            {
+              name: "MANIFEST_S3_URI",
+              value: stepfunctions.JsonPath.stringAt(
+                "$.taskExecution.manifestS3Uri"
+              ),
+            },
+            {
+              name: "STUDENT_MODEL_ID",
+              value: stepfunctions.JsonPath.stringAt(
+                "$.throughput.provisionedModelArn"
+              ),
+            },
+            {
+              name: "MODEL_ARN",
+              value: stepfunctions.JsonPath.stringAt(
+                "$.trainingStatus.outputModelArn"
+              ),
+            },
+            {
+              name: "BEDROCK_JOB_ARN",
+              value: stepfunctions.JsonPath.stringAt(
+                "$.taskExecution.bedrockJobArn"
+              ),
+            },
+            {
+              name: "TRAINING_RUN_ID",
+              value: stepfunctions.JsonPath.stringAt("$$.Execution.Name"),
+            },
+            {
+              name: "PUBLICATION_ID",
+              value: stepfunctions.JsonPath.format(
+                "{}",
+                stepfunctions.JsonPath.stringAt("$.publicationId")
+              ),
+            },
+            {
+              name: "STAGE",
+              value: stage,
+            },
+            ...(judgeModelId
+              ? [{ name: "JUDGE_MODEL_ID", value: judgeModelId }]
+              : []),
+            ...(qualityGateThresholds
+              ? [
+                  {
+                    name: "QUALITY_GATE_THRESHOLDS",
+                    value: qualityGateThresholds,
+                  },
+                ]
+              : []),
+          ],
+        },
+      ],
+      resultPath: "$.evaluation",
+    });
+
+    const notifyEvaluationFailure = new tasks.SnsPublish(
+      this,
+      "NotifyEvaluationFailure",
+      {
+        topic: alertTopic,
+        message: stepfunctions.TaskInput.fromObject({
+          default: "Evaluation of the trained model failed.",
+          error: stepfunctions.JsonPath.stringAt("$.evaluationError.Error"),
+          cause: stepfunctions.JsonPath.stringAt("$.evaluationError.Cause"),
+          jobArn: stepfunctions.JsonPath.stringAt(
+            "$.taskExecution.bedrockJobArn"
+          ),
+        }),
+        subject: "Model Evaluation Failure",
+      }
+    );
+
+    // Step 5: Promote the model only if it doesn't regress against the
+    // current production baseline
+    const tagPromotableModel = new tasks.CallAwsService(
+      this,
+      "TagPromotableModel",
+      {
+        service: "bedrock",
+        action: "tagResource",
+        parameters: {
+          ResourceARN: stepfunctions.JsonPath.stringAt(
+            "$.trainingStatus.outputModelArn"
+          ),
+          Tags: [
+            { Key: "promotable", Value: "true" },
+            {
+              Key: "datasetVersion",
+              Value: stepfunctions.JsonPath.stringAt(
+                "$.taskExecution.datasetVersion"
+              ),
+            },
+          ],
+        },
+        iamResources: ["*"],
+        resultPath: stepfunctions.JsonPath.DISCARD,
+      }
+    );
+
+    const writePromotedPointer = new tasks.CallAwsService(
+      this,
+      "WritePromotedPointer",
+      {
+        service: "s3",
+        action: "putObject",
+        parameters: {
+          Bucket: trainingDataBucket.bucketName,
+          Key: stepfunctions.JsonPath.stringAt(
+            "$.evaluation.qualityGate.promotedKey"
+          ),
+          Body: stepfunctions.JsonPath.jsonToString(
+            stepfunctions.JsonPath.objectAt(
+              "$.evaluation.qualityGate.promotionRecord"
+            )
+          ),
+          ContentType: "application/json",
+        },
+        iamResources: [trainingDataBucket.arnForObjects("promoted/*")],
+        resultPath: stepfunctions.JsonPath.DISCARD,
+      }
+    );
+
+    const notifyEvaluationRegressed = new tasks.SnsPublish(
+      this,
+      "NotifyEvaluationRegressed",
+      {
+        topic: alertTopic,
+        message: stepfunctions.TaskInput.fromObject({
+          default: "Trained model failed the quality gate.",
+          regressions: stepfunctions.JsonPath.jsonToString(
+            stepfunctions.JsonPath.objectAt(
+              "$.evaluation.qualityGate.regressions"
+            )
+          ),
+          failures: stepfunctions.JsonPath.jsonToString(
+            stepfunctions.JsonPath.objectAt("$.evaluation.qualityGate.failures")
+          ),
+          baselineModelArn: stepfunctions.JsonPath.stringAt(
+            "$.evaluation.qualityGate.baselineModelArn"
+          ),
+          jobArn: stepfunctions.JsonPath.stringAt(
+            "$.taskExecution.bedrockJobArn"
+          ),
+          reportS3Uri: stepfunctions.JsonPath.stringAt(
+            "$.evaluation.reportS3Uri"
+          ),
+        }),
+        subject: "Model Evaluation Regressed",
+      }
+    );
+
+    // Step 6: Serve the trained model from Provisioned Throughput, which the
+    // evaluation needs to invoke it. Once the model is promoted, point the
+    // alias consumers read at that throughput and delete models beyond the
+    // retention count.
+    const lifecycleEnvironment: tasks.TaskEnvironmentVariable[] = [
+      {
+        name: "TASK_TOKEN",
+        value: stepfunctions.JsonPath.taskToken,
+      },
+      {
+        name: "MODEL_ARN",
+        value: stepfunctions.JsonPath.stringAt(
+          "$.trainingStatus.outputModelArn"
+        ),
+      },
+      {
+        name: "TASK_NAME",
+        value: stepfunctions.JsonPath.stringAt("$.task"),
+      },
+      {
+        name: "PUBLICATION_ID",
+        value: stepfunctions.JsonPath.format(
+          "{}",
+          stepfunctions.JsonPath.stringAt("$.publicationId")
+        ),
+      },
+      {
+        name: "TRAINING_RUN_ID",
+        value: stepfunctions.JsonPath.stringAt("$$.Execution.Name"),
+      },
+      {
+        name: "STAGE",
+        value: stage,
+      },
+    ];
+    const runLifecycleTask = (
+      id: string,
+      step: string,
+      environment: tasks.TaskEnvironmentVariable[],
+      resultPath: string
+    ) =>
+      new tasks.EcsRunTask(this, id, {
+        cluster,
+        taskDefinition,
+        launchTarget: new tasks.EcsFargateLaunchTarget({
+          platformVersion: ecs.FargatePlatformVersion.LATEST,
+        }),
+        assignPublicIp: true,
+        integrationPattern:
+          stepfunctions.IntegrationPattern.WAIT_FOR_TASK_TOKEN,
+        taskTimeout: stepfunctions.Timeout.duration(cdk.Duration.minutes(30)),
+        containerOverrides: [
+          {
+            containerDefinition: taskDefinition.defaultContainer!,
+            command: ["node", "dist/lifecycle.js", step],
+            environment: [...lifecycleEnvironment, ...environment],
+          },
+        ],
+        resultPath,
+      });
+
+    const notifyLifecycleFailure = new tasks.SnsPublish(
+      this,
+      "NotifyLifecycleFailure",
+      {
+        topic: alertTopic,
+        message: stepfunctions.TaskInput.fromObject({
+          default: "The trained model could not be taken into service.",
+          error: stepfunctions.JsonPath.stringAt("$.lifecycleError.Error"),
+          cause: stepfunctions.JsonPath.stringAt("$.lifecycleError.Cause"),
+          modelArn: stepfunctions.JsonPath.stringAt(
+            "$.trainingStatus.outputModelArn"
+          ),
+        }),
+        subject: "Model Lifecycle Failure",
+      }
+    ).next(
+      new stepfunctions.Fail(this, "ModelLifecycleFailed", {
+        cause:
+          "Model lifecycle task failed - check CloudWatch logs for details",
+        error: "ModelLifecycleError",
+      })
+    );
+
+    const updateModelAlias = runLifecycleTask(
+      "UpdateModelAlias",
+      "alias",
+      [
+        {
+          name: "BEDROCK_JOB_ARN",
+          value: stepfunctions.JsonPath.stringAt(
+            "$.taskExecution.bedrockJobArn"
+          ),
+        },
+        {
+          name: "DATASET_VERSION",
+          value: stepfunctions.JsonPath.stringAt(
+            "$.taskExecution.datasetVersion"
+          ),
+        },
+        {
+          name: "PROVISIONED_MODEL_ARN",
+          value: stepfunctions.JsonPath.stringAt(
+            "$.throughput.provisionedModelArn"
+          ),
+        },
+      ],
+      "$.alias"
+    );
+    const cleanupModels = runLifecycleTask(
+      "CleanupModels",
+      "cleanup",
+      [
+        {
+          name: "MODEL_RETENTION_COUNT",
+          value: modelRetentionCount.toString(),
+        },
+      ],
+      "$.modelCleanup"
+    );
+    for (const task of [updateModelAlias, cleanupModels]) {
+      task.addCatch(notifyLifecycleFailure, {
+        errors: [stepfunctions.Errors.ALL],
+        resultPath: "$.lifecycleError",
+      });
+    }
+
+    // A model that fails evaluation or the gate is not kept in service
+    const releaseThroughput = (id: string, next: stepfunctions.IChainable) => {
+      const release = runLifecycleTask(
+        id,
+        "release",
+        [],
+        stepfunctions.JsonPath.DISCARD
+      );
+      // Alert even if the throughput could not be deleted
+      release.addCatch(next, {
+        errors: [stepfunctions.Errors.ALL],
+        resultPath: "$.releaseError",
+      });
+      return release.next(next);
+    };
+
+    runEvaluationTask.addCatch(
+      releaseThroughput(
+        "ReleaseThroughputAfterEvaluationFailure",
+        notifyEvaluationFailure.next(
+          new stepfunctions.Fail(this, "EvaluationFailed", {
+            cause: "Evaluation task failed - check CloudWatch logs for details",
+            error: "The evaluation task encountered an error",
+          })
+        )
+      ),
+      {
+        errors: [stepfunctions.Errors.ALL],
+        resultPath: "$.evaluationError",
+      }
+    );
+
+    const qualityGate = new stepfunctions.Choice(this, "QualityGate")
+      .when(
+        stepfunctions.Condition.booleanEquals(
+          "$.evaluation.qualityGate.passed",
+          true
+        ),
+        tagPromotableModel
+          .next(writePromotedPointer)
+          .next(updateModelAlias)
+          .next(cleanupModels)
+          .next(new stepfunctions.Succeed(this, "TrainingSucceeded"))
+      )
+      .otherwise(
+        releaseThroughput(
+          "ReleaseRejectedThroughput",
+          notifyEvaluationRegressed.next(
+            new stepfunctions.Fail(this, "EvaluationRegressed", {
+              cause:
+                "Evaluation scores regressed beyond the allowed thresholds",
+              error: "EvaluationRegressed",
+            })
+          )
+        )
+      );
+
+    const provisionThroughput = runLifecycleTask(
+      "ProvisionThroughput",
+      "provision",
+      [
+        {
+          name: "PROVISIONED_MODEL_UNITS",
+          value: provisionedThroughput.modelUnits.toString(),
+        },
+      ],
+      "$.throughput"
+    );
+    provisionThroughput.addCatch(notifyLifecycleFailure, {
+      errors: [stepfunctions.Errors.ALL],
+      resultPath: "$.lifecycleError",
+    });
+
+    // Creating throughput takes several minutes
+    const waitForThroughput = new stepfunctions.Wait(
+      this,
+      "WaitForThroughput",
+      {
+        time: stepfunctions.WaitTime.duration(cdk.Duration.minutes(5)),
+      }
+    );
+    const checkThroughputStatus = new tasks.CallAwsService(
+      this,
+      "CheckThroughputStatus",
+      {
+        service: "bedrock",
+        action: "getProvisionedModelThroughput",
+        parameters: {
+          ProvisionedModelId: stepfunctions.JsonPath.stringAt(
+            "$.throughput.provisionedModelArn"
+          ),
+        },
+        iamResources: ["*"],
+        resultPath: "$.throughputStatus",
+      }
+    );
+    const throughputFailed = new stepfunctions.Pass(this, "ThroughputFailed", {
+      parameters: {
+        Error: "ProvisionedThroughputFailed",
+        Cause: stepfunctions.JsonPath.stringAt(
+          "$.throughputStatus.failureMessage"
+        ),
+      },
+      resultPath: "$.lifecycleError",
+    });
+
+    const serveAndEvaluateModel = provisionThroughput
+      .next(waitForThroughput)
+      .next(checkThroughputStatus)
+      .next(
+        new stepfunctions.Choice(this, "HandleThroughputStatus")
+          .when(
+            stepfunctions.Condition.stringEquals(
+              "$.throughputStatus.status",
+              "InService"
+            ),
+            runEvaluationTask.next(qualityGate)
+          )
+          .when(
+            stepfunctions.Condition.stringEquals(
+              "$.throughputStatus.status",
+              "Failed"
+            ),
+            throughputFailed.next(notifyLifecycleFailure)
+          )
+          .otherwise(waitForThroughput)
+      );
+
     const handleTrainingCompletion = new stepfunctions.Choice(
       this,
       "HandleTrainingCompletion"
@@ -314,14 +1262,14 @@ export class BedrockTrainingPipelineStack extends cdk.Stack {
           "$.trainingStatus.status",
           "COMPLETED"
         ),
-        new stepfunctions.Succeed(this, "TrainingSucceeded")
+        serveAndEvaluateModel
       )
       .when(
         stepfunctions.Condition.stringEquals(
           "$.trainingStatus.status",
           "FAILED"
         ),
-        notifyFailure.next(
+        recordTrainingFailure.next(notifyFailure).next(
           new stepfunctions.Fail(this, "TrainingFailed", {
             cause: "Bedrock training job failed",
             error: stepfunctions.JsonPath.stringAt(
@@ -337,47 +1285,123 @@ export class BedrockTrainingPipelineStack extends cdk.Stack {
       .next(checkTrainingStatus)
       .next(handleTrainingCompletion);
 
-    // Notify failure if the ECS task fails
+    // Notify failure if the ECS task fails or reports a failure
     const notifyEcsFailure = new tasks.SnsPublish(this, "NotifyEcsFailure", {
       topic: alertTopic,
       message: stepfunctions.TaskInput.fromObject({
         default: "ECS task failed during training pipeline execution.",
-        error: "The ECS task encountered an error or failed validation.",
+        error: stepfunctions.JsonPath.stringAt("$.taskError.Error"),
+        cause: stepfunctions.JsonPath.stringAt("$.taskError.Cause"),
       }),
       subject: "ECS Task Failure",
     });
 
-    // Check if ECS task succeeded
-    const checkTaskSuccess = new stepfunctions.Choice(this, "CheckTaskSuccess")
-      .when(
-        stepfunctions.Condition.booleanEquals(
-          "$.taskExecution.Succeeded",
-          true
-        ),
-        new stepfunctions.Pass(this, "TaskSucceeded", {
-          result: stepfunctions.Result.fromObject({ status: "SUCCESS" }),
-          resultPath: "$.validation",
-        }).next(trainBedrockModel)
-      )
-      .otherwise(
-        notifyEcsFailure.next(
-          new stepfunctions.Fail(this, "TaskFailed", {
-            cause: "ECS task failed - check CloudWatch logs for details",
-            error:
-              "The training task encountered an error or failed validation",
-          })
-        )
-      );
+    // Alert separately when too many teacher calls failed, since the fix is
+    // usually a quota or prompt change rather than a code fix
+    const notifyTeacherFailures = new tasks.SnsPublish(
+      this,
+      "NotifyTeacherFailureRate",
+      {
+        topic: alertTopic,
+        message: stepfunctions.TaskInput.fromObject({
+          default:
+            "Training run aborted: the teacher model failed on too many articles.",
+          error: stepfunctions.JsonPath.stringAt("$.taskError.Error"),
+          cause: stepfunctions.JsonPath.stringAt("$.taskError.Cause"),
+          trainingRunId: stepfunctions.JsonPath.stringAt("$$.Execution.Name"),
+        }),
+        subject: "Teacher Failure Rate Exceeded",
+      }
+    );
+
+    // Distillation progress is checkpointed per training run (the execution
+    // name), so a retry only pays for the teacher calls not yet made.
+    // Validation failures would fail the same way again and are not retried.
+    runTrainingTask.addRetry({
+      errors: [
+        "InsufficientDataError",
+        "DatasetValidationError",
+        "TeacherFailureRateError",
+        "PromptTemplateError",
+        "RedactionConfigError",
+        "QueryConfigError",
+        "ConfigError",
+      ],
+      maxAttempts: 0,
+    });
+    runTrainingTask.addRetry({
+      errors: [stepfunctions.Errors.ALL],
+      interval: cdk.Duration.minutes(1),
+      backoffRate: 2,
+      maxAttempts: 2,
+    });
+
+    runTrainingTask.addCatch(
+      notifyTeacherFailures.next(
+        new stepfunctions.Fail(this, "TeacherFailureRateExceeded", {
+          cause: "Teacher model failures exceeded the allowed rate",
+          error: "TeacherFailureRateError",
+        })
+      ),
+      {
+        errors: ["TeacherFailureRateError"],
+        resultPath: "$.taskError",
+      }
+    );
+    runTrainingTask.addCatch(
+      notifyEcsFailure.next(
+        new stepfunctions.Fail(this, "TaskFailed", {
+          cause: "ECS task failed - check CloudWatch logs for details",
+          error: "The training task encountered an error or failed validation",
+        })
+      ),
+      {
+        errors: [stepfunctions.Errors.ALL],
+        resultPath: "$.taskError",
+      }
+    );
+
+    // Fill in optional execution input, e.g. runs started without a task
+    // distil a headline model and runs without filters train on everything
+    const setInputDefaults = new stepfunctions.Pass(this, "SetInputDefaults", {
+      result: stepfunctions.Result.fromObject({
+        task: "headline",
+        datasetMode: "full",
+        startDate: "",
+        endDate: "",
+        sections: "",
+        authors: "",
+        contentTypes: "",
+        excludeArticleIds: "",
+      }),
+      resultPath: "$.inputDefaults",
+    });
+    const applyInputDefaults = new stepfunctions.Pass(
+      this,
+      "ApplyInputDefaults",
+      {
+        parameters: {
+          input: stepfunctions.JsonPath.jsonMerge(
+            stepfunctions.JsonPath.objectAt("$.inputDefaults"),
+            stepfunctions.JsonPath.objectAt("$$.Execution.Input")
+          ),
+        },
+        outputPath: "$.input",
+      }
+    );
 
     // Define the state machine
-    const definition = runTrainingTask.next(checkTaskSuccess);
+    const definition = setInputDefaults
+      .next(applyInputDefaults)
+      .next(runTrainingTask)
+      .next(trainBedrockModel);
 
     const stateMachine = new stepfunctions.StateMachine(
       this,
       "TrainingPipelineStateMachine",
       {
         definitionBody: stepfunctions.DefinitionBody.fromChainable(definition),
-        timeout: cdk.Duration.hours(4),
+        timeout: cdk.Duration.hours(24),
         logs: {
           destination: new logs.LogGroup(this, "StateMachineLogGroup", {
             logGroupName: `/aws/stepfunctions/bedrock-training-pipeline/${stage}`,
@@ -410,6 +1434,9 @@ export class BedrockTrainingPipelineStack extends cdk.Stack {
       })
     );
 
+    // Allow the ECS task to report its result back via the task token
+    stateMachine.grantTaskResponse(taskDefinition.taskRole);
+
     // Grant Step Functions permissions to publish to SNS (if needed for error handling)
     // Note: The ECS task sends alerts directly via its IAM role
 